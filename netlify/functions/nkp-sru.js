@@ -0,0 +1,71 @@
+/**
+ * Netlify serverless function proxying SRU searches to the Czech National Library catalogue
+ * The catalogue doesn't send CORS headers, so the browser can't query it directly.
+ * Only the CQL query is taken from the caller; the endpoint is fixed so this can't be used as an open proxy.
+ */
+
+const NKP_SRU_URL = process.env.NKP_SRU_URL || 'https://aleph.nkp.cz/sru/nkc';
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  const query = event.queryStringParameters?.query;
+  if (!query || typeof query !== 'string' || query.length > 500) {
+    return {
+      statusCode: 400,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ error: 'query is required' }),
+    };
+  }
+
+  try {
+    const params = new URLSearchParams({
+      version: '1.1',
+      operation: 'searchRetrieve',
+      query,
+      maximumRecords: '1',
+      recordSchema: 'marcxml',
+    });
+
+    const response = await fetch(`${NKP_SRU_URL}?${params}`, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; Netlify-SRU-Proxy/1.0)',
+      },
+    });
+
+    const body = await response.text();
+    return {
+      statusCode: response.status,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Content-Type': 'application/xml; charset=utf-8',
+      },
+      body,
+    };
+  } catch (error) {
+    console.error('Error in nkp-sru function:', error);
+    return {
+      statusCode: 500,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error.message,
+      }),
+    };
+  }
+};
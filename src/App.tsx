@@ -1,7 +1,60 @@
+import { useState, useEffect } from 'react'
+import type { Session } from '@supabase/supabase-js'
 import { Library } from './pages/Library'
+import { Login } from './pages/Login'
+import { Stats } from './pages/Stats'
+import { supabase } from './lib/supabase'
+import { getSession, subscribeToAuth } from './lib/auth'
+import { rememberInviteFromUrl } from './lib/libraries'
+
+const STATS_PATH = '/statistiky'
 
 function App() {
-  return <Library />
+  const [session, setSession] = useState<Session | null>(null)
+  const [authChecked, setAuthChecked] = useState(false)
+  const [path, setPath] = useState(window.location.pathname)
+
+  useEffect(() => {
+    // Keep an invite link's token while the user signs in
+    rememberInviteFromUrl()
+    getSession().then(current => {
+      setSession(current)
+      setAuthChecked(true)
+    })
+    return subscribeToAuth(setSession)
+  }, [])
+
+  // Switch between the library and the statistics on back/forward navigation
+  useEffect(() => {
+    const handlePopState = () => setPath(window.location.pathname)
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  const navigate = (to: string) => {
+    window.history.pushState({}, '', to)
+    setPath(to)
+  }
+
+  const renderPage = (userId?: string, userEmail?: string) => path === STATS_PATH
+    ? <Stats key={userId} onBack={() => navigate('/')} />
+    // Remount for another account so no state of the previous library is left over
+    : <Library key={userId} userEmail={userEmail} onShowStats={() => navigate(STATS_PATH)} />
+
+  // Without Supabase the library lives only in this browser, so there is no account
+  if (!supabase) {
+    return renderPage()
+  }
+
+  if (!authChecked) {
+    return <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900" />
+  }
+
+  if (!session) {
+    return <Login />
+  }
+
+  return renderPage(session.user.id, session.user.email)
 }
 
 export default App
@@ -1,20 +1,28 @@
 import { useState, useCallback } from 'react';
-import { lookupBook } from '../lib/bookLookup';
-import { normalizeISBN } from '../lib/isbn';
+import { lookupBook, needsReview, resolveMetadata } from '../lib/bookLookup';
+import { normalizeISBN, ISBNError } from '../lib/isbn';
 import type { BookMetadata } from '../types';
 import { BarcodeScanner } from './BarcodeScanner';
+import { LookupReview } from './LookupReview';
 
 interface AddBookFormProps {
   onAdd: (metadata: BookMetadata) => void;
   onManualAdd?: () => void;
+  onBulkImport?: () => void;
+  onCsvImport?: () => void;
+  onContinuousScan?: () => void;
 }
 
-export function AddBookForm({ onAdd, onManualAdd }: AddBookFormProps) {
+export function AddBookForm({ onAdd, onManualAdd, onBulkImport, onCsvImport, onContinuousScan }: AddBookFormProps) {
   const [isbn, setIsbn] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // EAN-5 add-on read with the last scanned barcode
+  const [scannedAddOn, setScannedAddOn] = useState<string | null>(null);
   const [useGoogleSearchOnly, setUseGoogleSearchOnly] = useState(false);
   const [showScanner, setShowScanner] = useState(false);
+  // Lookup result waiting for the user to pick between conflicting provider values
+  const [reviewMetadata, setReviewMetadata] = useState<BookMetadata | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -27,8 +35,10 @@ export function AddBookForm({ onAdd, onManualAdd }: AddBookFormProps) {
       // Test ISBN normalization first
       try {
         normalizeISBN(isbn.trim());
-      } catch {
-        const errorMsg = 'Neplatný formát ISBN. Zadejte 10 nebo 13 číslic (s nebo bez pomlček).';
+      } catch (isbnError) {
+        const errorMsg = isbnError instanceof ISBNError
+          ? isbnError.message
+          : 'Neplatný formát ISBN. Zadejte 10 nebo 13 číslic (s nebo bez pomlček).';
         setError(errorMsg);
         alert(errorMsg);
         setLoading(false);
@@ -39,8 +49,13 @@ export function AddBookForm({ onAdd, onManualAdd }: AddBookFormProps) {
       console.log('Lookup result:', metadata);
       
       if (metadata && metadata.title) {
-        onAdd(metadata);
-        setIsbn('');
+        if (needsReview(metadata)) {
+          setReviewMetadata(metadata);
+        } else {
+          onAdd(resolveMetadata(metadata, {}));
+          setIsbn('');
+          setScannedAddOn(null);
+        }
         setError(null);
       } else {
         const trimmedIsbn = isbn.trim();
@@ -63,10 +78,11 @@ export function AddBookForm({ onAdd, onManualAdd }: AddBookFormProps) {
     }
   };
 
-  const handleBarcodeScan = useCallback((scannedIsbn: string) => {
+  const handleBarcodeScan = useCallback((scannedIsbn: string, addOn?: string) => {
     // Clean the scanned ISBN (remove any non-digit characters except X)
     const cleaned = scannedIsbn.replace(/[^\dX]/g, '');
     setIsbn(cleaned);
+    setScannedAddOn(addOn ?? null);
     setError(null);
   }, []);
 
@@ -74,17 +90,29 @@ export function AddBookForm({ onAdd, onManualAdd }: AddBookFormProps) {
     setShowScanner(false);
   }, []);
 
+  const handleReviewConfirm = (resolved: BookMetadata) => {
+    setReviewMetadata(null);
+    onAdd(resolved);
+    setIsbn('');
+    setScannedAddOn(null);
+  };
+
   return (
     <>
       <form onSubmit={handleSubmit} className="mb-0">
         <div className="flex gap-2 sm:gap-3">
           <div className="flex-1 min-w-0 flex items-center gap-2 glass-dark border border-white/20 rounded-xl px-3 sm:px-4 py-2 focus-within:ring-2 focus-within:ring-purple-500/50 focus-within:border-purple-400/50 focus-within:glow-sm transition-all duration-300">
             <input
-              type="tel"
-              inputMode="numeric"
-              pattern="[0-9-]*"
+              // Text, not a numeric keypad: ISBN-10s can end with X (validateISBN checks the value on submit)
+              type="text"
+              inputMode="text"
+              autoCapitalize="characters"
+              autoComplete="off"
               value={isbn}
-              onChange={(e) => setIsbn(e.target.value)}
+              onChange={(e) => {
+                setIsbn(e.target.value);
+                setScannedAddOn(null);
+              }}
               placeholder="Zadejte ISBN"
               className="flex-1 min-w-0 px-2 py-2 border-0 focus:outline-none bg-transparent text-white placeholder-gray-400 text-sm sm:text-base"
               disabled={loading}
@@ -126,20 +154,54 @@ export function AddBookForm({ onAdd, onManualAdd }: AddBookFormProps) {
           Použít pouze Google Search
         </label>
       </div>
+      {scannedAddOn && (
+        <p className="mt-2 text-xs sm:text-sm text-gray-400">
+          Doplňkový kód (cena): <span className="font-mono text-purple-300">{scannedAddOn}</span>
+        </p>
+      )}
       {error && (
         <div className="mt-3 p-3 bg-red-500/20 border border-red-400/30 rounded-xl backdrop-blur-sm">
           <p className="text-sm text-red-300 font-medium">{error}</p>
         </div>
       )}
-      {onManualAdd && (
-        <div className="mt-3 mb-0 pb-0">
-          <button
-            type="button"
-            onClick={onManualAdd}
-            className="text-sm text-purple-300 hover:text-purple-200 underline transition-colors"
-          >
-            Přidat ručně
-          </button>
+      {(onManualAdd || onBulkImport || onCsvImport || onContinuousScan) && (
+        <div className="mt-3 mb-0 pb-0 flex flex-wrap gap-x-4 gap-y-2">
+          {onManualAdd && (
+            <button
+              type="button"
+              onClick={onManualAdd}
+              className="text-sm text-purple-300 hover:text-purple-200 underline transition-colors"
+            >
+              Přidat ručně
+            </button>
+          )}
+          {onBulkImport && (
+            <button
+              type="button"
+              onClick={onBulkImport}
+              className="text-sm text-purple-300 hover:text-purple-200 underline transition-colors"
+            >
+              Hromadný import
+            </button>
+          )}
+          {onCsvImport && (
+            <button
+              type="button"
+              onClick={onCsvImport}
+              className="text-sm text-purple-300 hover:text-purple-200 underline transition-colors"
+            >
+              Import z Goodreads
+            </button>
+          )}
+          {onContinuousScan && (
+            <button
+              type="button"
+              onClick={onContinuousScan}
+              className="text-sm text-purple-300 hover:text-purple-200 underline transition-colors"
+            >
+              Skenovat sérii
+            </button>
+          )}
         </div>
       )}
     </form>
@@ -149,6 +211,13 @@ export function AddBookForm({ onAdd, onManualAdd }: AddBookFormProps) {
         onClose={handleCloseScanner}
       />
     )}
+    {reviewMetadata && (
+      <LookupReview
+        metadata={reviewMetadata}
+        onConfirm={handleReviewConfirm}
+        onCancel={() => setReviewMetadata(null)}
+      />
+    )}
     </>
   );
 }
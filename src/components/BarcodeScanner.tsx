@@ -1,17 +1,70 @@
 import { useEffect, useRef, useState } from 'react';
 import { BrowserMultiFormatReader } from '@zxing/library';
 import { createPortal } from 'react-dom';
+import { validateISBN } from '../lib/isbn';
+import { decodeISBNFromFile } from '../lib/barcodeImage';
 
 interface BarcodeScannerProps {
-  onScan: (isbn: string) => void;
+  // addOn is the EAN-5 price code next to the barcode, when it was read (only from photos)
+  onScan: (isbn: string, addOn?: string) => void;
   onClose: () => void;
+  // Keep the camera open after a scan and report every new code (for scanning a whole shelf)
+  continuous?: boolean;
+  // Shown under the camera, e.g. the list of codes scanned so far
+  children?: React.ReactNode;
 }
 
-export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
+// In continuous mode the same code is ignored while it stays in view, and for this long after
+const REPEAT_SCAN_DEBOUNCE = 3000;
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Short beep and vibration so the user knows a code was read without looking at the screen
+ */
+function playScanFeedback(): void {
+  try {
+    const AudioContextClass = window.AudioContext
+      || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (AudioContextClass) {
+      audioContext = audioContext || new AudioContextClass();
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      oscillator.frequency.value = 1200;
+      gain.gain.value = 0.15;
+      oscillator.connect(gain);
+      gain.connect(audioContext.destination);
+      oscillator.start();
+      oscillator.stop(audioContext.currentTime + 0.1);
+    }
+  } catch (error) {
+    console.warn('Could not play scan sound:', error);
+  }
+  navigator.vibrate?.(80);
+}
+
+export function BarcodeScanner({ onScan, onClose, continuous = false, children }: BarcodeScannerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [error, setError] = useState<string | null>(null);
   const [scanning, setScanning] = useState(false);
-  const codeReaderRef = useRef<BrowserMultiFormatReader | null>(null);
+  // Last accepted code in continuous mode, for debouncing repeat reads
+  const lastScanRef = useRef<{ isbn13: string; time: number } | null>(null);
+  // Without getUserMedia (old browsers, plain HTTP) only the photo tab can work
+  const [mode, setMode] = useState<'camera' | 'image'>(
+    () => typeof navigator.mediaDevices?.getUserMedia === 'function' ? 'camera' : 'image'
+  );
+  // The camera keeps running behind the photo tab, so its reads are ignored there
+  const modeRef = useRef(mode);
+  modeRef.current = mode;
+  // The camera is started once; its decoder calls the latest handlers (e.g. after the parent's book list changed)
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+  const continuousRef = useRef(continuous);
+  continuousRef.current = continuous;
+  const [decodingImage, setDecodingImage] = useState(false);
+  const [imageMessage, setImageMessage] = useState<string | null>(null);
 
   // Prevent body scroll when modal is open
   useEffect(() => {
@@ -25,12 +78,43 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
     let isMounted = true;
     let codeReader: BrowserMultiFormatReader | null = null;
 
+    const handleDecoded = (text: string) => {
+      // Accept only valid ISBN-13/ISBN-10 or 979-0 ISMN codes (check digit verified),
+      // so grocery EANs and misreads don't end the scan
+      const scanned = text ? validateISBN(text) : null;
+      if (!scanned?.valid || modeRef.current !== 'camera') return;
+
+      if (continuousRef.current) {
+        const now = Date.now();
+        const last = lastScanRef.current;
+        if (last && last.isbn13 === scanned.isbn13 && now - last.time < REPEAT_SCAN_DEBOUNCE) {
+          // Still the same book in front of the camera
+          last.time = now;
+          return;
+        }
+        lastScanRef.current = { isbn13: scanned.isbn13, time: now };
+        console.log('Scanned identifier (continuous):', scanned.type, scanned.isbn13);
+        playScanFeedback();
+        onScanRef.current(text);
+        return;
+      }
+
+      console.log('Scanned identifier:', scanned.type, scanned.isbn13);
+      // Stop scanning
+      if (codeReader) {
+        codeReader.reset();
+      }
+      setScanning(false);
+      // Return the scanned ISBN
+      onScanRef.current(text);
+      onCloseRef.current();
+    };
+
     const startScanning = async () => {
       try {
         if (!isMounted || !videoRef.current) return;
 
         codeReader = new BrowserMultiFormatReader();
-        codeReaderRef.current = codeReader;
         setScanning(true);
         setError(null);
 
@@ -82,19 +166,7 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
                 if (!isMounted) return;
 
                 if (result) {
-                  const text = result.getText();
-                  // Check if it looks like an ISBN (EAN-13 or ISBN-10)
-                  // ISBN-13: 13 digits, ISBN-10: 10 digits (may end with X)
-                  if (text && (/^\d{13}$/.test(text) || /^\d{9}[0-9X]$/.test(text) || /^\d{10}$/.test(text))) {
-                    // Stop scanning
-                    if (codeReader) {
-                      codeReader.reset();
-                    }
-                    setScanning(false);
-                    // Return the scanned ISBN
-                    onScan(text);
-                    onClose();
-                  }
+                  handleDecoded(result.getText());
                 }
                 if (error && error.name !== 'NotFoundException') {
                   // NotFoundException is normal while scanning, ignore it
@@ -113,19 +185,7 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
                   if (!isMounted) return;
 
                   if (result) {
-                    const text = result.getText();
-                    // Check if it looks like an ISBN (EAN-13 or ISBN-10)
-                    // ISBN-13: 13 digits, ISBN-10: 10 digits (may end with X)
-                    if (text && (/^\d{13}$/.test(text) || /^\d{9}[0-9X]$/.test(text) || /^\d{10}$/.test(text))) {
-                      // Stop scanning
-                      if (codeReader) {
-                        codeReader.reset();
-                      }
-                      setScanning(false);
-                      // Return the scanned ISBN
-                      onScan(text);
-                      onClose();
-                    }
+                    handleDecoded(result.getText());
                   }
                   if (error && error.name !== 'NotFoundException') {
                     // NotFoundException is normal while scanning, ignore it
@@ -161,7 +221,8 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
 
     startScanning();
 
-    // Cleanup on unmount
+    // Cleanup on unmount. Closing only asks the parent (ContinuousScan may keep the scanner open),
+    // so the camera is stopped here and not when the close button is pressed
     return () => {
       isMounted = false;
       if (codeReader) {
@@ -178,14 +239,36 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
         videoRef.current.srcObject = null;
       }
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Empty dependency array - only run once on mount
 
-  const handleClose = () => {
-    if (codeReaderRef.current) {
-      codeReaderRef.current.reset();
+  const handleImageSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setDecodingImage(true);
+    setImageMessage(null);
+    try {
+      const decoded = await decodeISBNFromFile(file);
+      if (!decoded) {
+        setImageMessage('Na obrázku se nepodařilo najít čárový kód ISBN. Zkuste ostřejší fotografii zblízka.');
+        return;
+      }
+
+      if (continuous) {
+        playScanFeedback();
+        onScan(decoded.text, decoded.addOn);
+        setImageMessage(`Přidáno: ${decoded.isbn13}${decoded.addOn ? ` (doplňkový kód ${decoded.addOn})` : ''}`);
+        return;
+      }
+      onScan(decoded.text, decoded.addOn);
+      onClose();
+    } catch (imageError) {
+      console.error('Error decoding barcode image:', imageError);
+      setImageMessage('Obrázek se nepodařilo načíst.');
+    } finally {
+      setDecodingImage(false);
     }
-    onClose();
   };
 
   const modalContent = (
@@ -203,7 +286,7 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
     >
       <div 
         className="fixed inset-0 bg-black/90 backdrop-blur-sm transition-opacity" 
-        onClick={handleClose}
+        onClick={onClose}
         style={{
           position: 'fixed',
           top: 0,
@@ -225,9 +308,9 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
         onClick={(e) => e.stopPropagation()}
       >
         <div className="flex justify-between items-center p-4 sm:p-6 border-b border-white/10 shrink-0">
-          <h3 className="text-lg sm:text-xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent">Skenovat ISBN</h3>
+          <h3 className="text-lg sm:text-xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent">{continuous ? 'Skenovat sérii' : 'Skenovat ISBN'}</h3>
           <button
-            onClick={handleClose}
+            onClick={onClose}
             className="text-gray-400 hover:text-white text-3xl transition-colors hover:scale-110 active:scale-95 w-10 h-10 flex items-center justify-center rounded-xl bg-white/5 hover:bg-red-500/20"
             aria-label="Zavřít"
           >
@@ -235,7 +318,21 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
           </button>
         </div>
         <div className="p-4 sm:p-6 flex flex-col items-center" style={{ overflowY: 'auto', maxHeight: 'calc(90vh - 80px)' }}>
-          <div className="relative w-full max-w-sm shrink-0" style={{ minHeight: '300px' }}>
+          <div className="flex w-full max-w-sm mb-4 p-1 bg-white/5 border border-white/10 rounded-xl shrink-0">
+            {(['camera', 'image'] as const).map(tab => (
+              <button
+                key={tab}
+                type="button"
+                onClick={() => setMode(tab)}
+                className={`flex-1 px-3 py-2 text-sm rounded-lg transition-all ${
+                  mode === tab ? 'bg-gradient-to-r from-purple-600 to-pink-600 text-white' : 'text-gray-300 hover:text-white'
+                }`}
+              >
+                {tab === 'camera' ? 'Kamera' : 'Z fotografie'}
+              </button>
+            ))}
+          </div>
+          <div className={`relative w-full max-w-sm shrink-0 ${mode === 'camera' ? '' : 'hidden'}`} style={{ minHeight: '300px' }}>
             <video
               ref={videoRef}
               className="w-full rounded-2xl border border-white/10"
@@ -260,16 +357,44 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
               </div>
             )}
           </div>
-          {error && (
+          {mode === 'image' && (
+            <div className="w-full max-w-sm flex flex-col gap-3 shrink-0">
+              <p className="text-sm text-gray-300 text-center">
+                Vyfoťte čárový kód na zadní straně knihy nebo vyberte uložený obrázek
+              </p>
+              <label className={`px-4 py-3 text-sm text-center font-medium bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-xl hover:from-purple-500 hover:to-pink-500 transition-all duration-300 shadow-lg cursor-pointer ${decodingImage ? 'opacity-50 pointer-events-none' : ''}`}>
+                {decodingImage ? 'Čtení kódu...' : 'Vyfotit'}
+                <input type="file" accept="image/*" capture="environment" onChange={handleImageSelected} className="hidden" />
+              </label>
+              <label className={`px-4 py-3 text-sm text-center border border-white/20 rounded-xl text-gray-300 hover:bg-white/10 hover:text-white transition-all cursor-pointer ${decodingImage ? 'opacity-50 pointer-events-none' : ''}`}>
+                Vybrat soubor
+                <input type="file" accept="image/*" onChange={handleImageSelected} className="hidden" />
+              </label>
+              {imageMessage && (
+                <p className="text-sm text-gray-300 text-center">{imageMessage}</p>
+              )}
+            </div>
+          )}
+          {mode === 'camera' && error && (
             <div className="mt-4 p-3 bg-red-500/20 border border-red-400/30 rounded-xl w-full backdrop-blur-sm shrink-0">
               <p className="text-sm text-red-300">{error}</p>
+              <button
+                type="button"
+                onClick={() => setMode('image')}
+                className="mt-2 text-sm text-purple-300 hover:text-purple-200 underline transition-colors"
+              >
+                Načíst kód z fotografie
+              </button>
             </div>
           )}
-          {scanning && !error && (
+          {mode === 'camera' && scanning && !error && (
             <p className="mt-4 text-sm text-gray-300 text-center shrink-0">
-              Namiřte kameru na čárový kód ISBN
+              {continuous
+                ? 'Postupně namiřte kameru na čárové kódy knih, kamera zůstane zapnutá'
+                : 'Namiřte kameru na čárový kód ISBN nebo ISMN'}
             </p>
           )}
+          {children}
         </div>
       </div>
     </div>
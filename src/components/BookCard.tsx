@@ -1,5 +1,9 @@
 import { useState, useEffect } from 'react';
 import type { Book } from '../types';
+import { hyphenateISBN, getIdentifierLabel, getIdentifierType, isPlaceholderISBN } from '../lib/isbn';
+import { withViewParams } from '../lib/sorting';
+import { formatLoanDate, getActiveLoan, isOverdue } from '../lib/loans';
+import { READING_STATUS_LABELS, formatRating, getReadingProgress } from '../lib/reading';
 
 interface BookCardProps {
   book: Book;
@@ -35,6 +39,16 @@ function getTagColor(tag: string): string {
 export function BookCard({ book, onEdit, isImageExpanded = false, onImageExpand, onImageClose }: BookCardProps) {
   const [imageError, setImageError] = useState(false);
   const hasImageUrl = !!(book.imageUrl || book.coverUrl);
+  const activeLoan = getActiveLoan(book);
+  const overdue = !!activeLoan && isOverdue(activeLoan);
+
+  // Compact reading state over the cover: progress while reading, otherwise stars or the status
+  const progress = getReadingProgress(book);
+  const readingLabel = book.readingStatus === 'reading'
+    ? `${READING_STATUS_LABELS.reading}${progress !== undefined ? ` ${progress} %` : ''}`
+    : book.rating
+      ? formatRating(book.rating)
+      : book.readingStatus && READING_STATUS_LABELS[book.readingStatus];
 
   // Reset error state when image URL changes
   useEffect(() => {
@@ -46,7 +60,7 @@ export function BookCard({ book, onEdit, isImageExpanded = false, onImageExpand,
     if (isImageExpanded) return;
     onEdit(book);
     // Update URL when clicking card
-    window.history.pushState({}, '', `/${book.isbn13}`);
+    window.history.pushState({}, '', withViewParams(`/${book.isbn13}`));
   };
 
   const handleImageClick = (e: React.MouseEvent) => {
@@ -91,6 +105,7 @@ export function BookCard({ book, onEdit, isImageExpanded = false, onImageExpand,
                   className="w-full h-full object-contain"
                   style={{ padding: '2px' }}
                   loading="lazy"
+                  decoding="async"
                   onLoad={() => {
                     setImageError(false);
                   }}
@@ -102,6 +117,22 @@ export function BookCard({ book, onEdit, isImageExpanded = false, onImageExpand,
               ) : (
                 <span className="text-gray-400 text-xs z-10 text-center px-1">Bez obálky</span>
               )}
+              {readingLabel && (
+                <span
+                  className={`absolute top-0 inset-x-0 z-20 px-1.5 py-0.5 text-[10px] sm:text-xs font-medium text-center truncate bg-black/70 backdrop-blur-sm ${book.rating && book.readingStatus !== 'reading' ? 'text-amber-400 tracking-wider' : 'text-white'}`}
+                  title={book.readingStatus ? READING_STATUS_LABELS[book.readingStatus] : undefined}
+                >
+                  {readingLabel}
+                </span>
+              )}
+              {activeLoan && (
+                <span
+                  className={`absolute bottom-0 inset-x-0 z-20 px-1.5 py-0.5 text-[10px] sm:text-xs font-medium text-white text-center truncate backdrop-blur-sm ${overdue ? 'bg-red-600/90' : 'bg-amber-600/90'}`}
+                  title={activeLoan.dueAt ? `Vrátit do ${formatLoanDate(activeLoan.dueAt)}` : undefined}
+                >
+                  {overdue ? 'Po termínu' : 'Půjčeno'}: {activeLoan.borrower}
+                </span>
+              )}
             </div>
           </div>
           <div className="flex-1 pt-4 pl-4 pb-4 pr-4 flex flex-col min-w-0 overflow-hidden h-full">
@@ -115,6 +146,11 @@ export function BookCard({ book, onEdit, isImageExpanded = false, onImageExpand,
                     {book.authors.join(', ')}
                   </p>
                 )}
+                {book.isbn13 && !isPlaceholderISBN(book.isbn13) && (
+                  <p className="text-xs text-gray-400 font-mono mb-1 line-clamp-1 leading-tight">
+                    {getIdentifierLabel(book.identifierType || getIdentifierType(book.isbn13))} {hyphenateISBN(book.isbn13)}
+                  </p>
+                )}
                 {/* Show year only if there are no tags */}
                 {book.publishedYear && (!book.tags || book.tags.length === 0) && (
                   <p className="text-sm sm:text-base text-purple-300 font-bold leading-tight mt-1 sm:mt-0">{book.publishedYear}</p>
@@ -0,0 +1,266 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Book, BookMetadata } from '../types';
+import { parseBulkInput, lookupBulkRows } from '../lib/bulkImport';
+import type { BulkImportRow, BulkImportStatus } from '../lib/bulkImport';
+import { hyphenateISBN } from '../lib/isbn';
+
+interface BulkImportProps {
+  existingBooks: Book[];
+  onImport: (books: BookMetadata[], tags: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BulkImportStatus, string> = {
+  'pending': 'Čeká',
+  'looking-up': 'Vyhledávání...',
+  'found': 'Nalezeno',
+  'not-found': 'Nenalezeno',
+  'duplicate': 'Už v knihovně',
+  'invalid': 'Neplatné',
+};
+
+const STATUS_CLASSES: Record<BulkImportStatus, string> = {
+  'pending': 'text-gray-400',
+  'looking-up': 'text-purple-300',
+  'found': 'text-green-300',
+  'not-found': 'text-red-300',
+  'duplicate': 'text-yellow-300',
+  'invalid': 'text-red-400',
+};
+
+/**
+ * Colored lookup status of an import row
+ */
+export function ImportStatus({ status }: { status: BulkImportStatus }) {
+  return <span className={`whitespace-nowrap ${STATUS_CLASSES[status]}`}>{STATUS_LABELS[status]}</span>;
+}
+
+export function BulkImport({ existingBooks, onImport, onClose }: BulkImportProps) {
+  const [input, setInput] = useState('');
+  const [rows, setRows] = useState<BulkImportRow[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [tagInput, setTagInput] = useState('');
+  const [running, setRunning] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop the lookup queue when the dialog closes
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setInput(input.trim() ? `${input}\n${text}` : text);
+    e.target.value = '';
+  };
+
+  const handleStart = async () => {
+    const parsed = parseBulkInput(input, existingBooks);
+    if (parsed.length === 0) {
+      alert('V textu nebylo nalezeno žádné ISBN.');
+      return;
+    }
+
+    setRows(parsed);
+    setSelected(new Set());
+    setRunning(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    await lookupBulkRows(parsed, (index, row) => {
+      setRows(current => current.map((r, i) => i === index ? row : r));
+      // Found books are selected for saving by default
+      if (row.status === 'found') {
+        setSelected(current => new Set(current).add(index));
+      }
+    }, { signal: controller.signal });
+
+    if (!controller.signal.aborted) {
+      setRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    setRunning(false);
+  };
+
+  const toggleRow = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setSelected(next);
+  };
+
+  const handleSave = async () => {
+    const books = rows
+      .filter((row, index) => selected.has(index) && row.metadata)
+      .map(row => row.metadata!);
+    if (books.length === 0) return;
+
+    const tags = tagInput.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+    setSaving(true);
+    try {
+      await onImport(books, tags);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const finished = rows.filter(row => row.status !== 'pending' && row.status !== 'looking-up').length;
+  const counts = rows.reduce((acc, row) => {
+    acc[row.status] = (acc[row.status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<BulkImportStatus, number>>);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-2 sm:p-4 animate-in fade-in duration-300">
+      <div className="glass-dark rounded-2xl sm:rounded-3xl max-w-3xl w-full max-h-[85vh] sm:max-h-[90vh] flex flex-col border border-white/20 shadow-2xl">
+        <div className="flex justify-between items-center p-3 sm:p-6 border-b border-white/10 flex-shrink-0">
+          <h2 className="text-lg sm:text-2xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent">Hromadný import</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors hover:scale-110 active:scale-95 w-10 h-10 flex items-center justify-center rounded-xl bg-white/5 hover:bg-red-500/20"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-3 sm:p-6 overflow-y-auto flex-1 space-y-4">
+          {rows.length === 0 ? (
+            <>
+              <p className="text-xs sm:text-sm text-gray-400">Vložte seznam ISBN (každé na samostatný řádek nebo oddělené čárkou) nebo nahrajte textový či CSV soubor.</p>
+              <textarea
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                rows={10}
+                placeholder={'9788025626955\n978-80-257-4767-4'}
+                className="w-full px-3 py-2 sm:px-4 sm:py-3 text-sm font-mono bg-white/5 border border-white/20 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-400/50 text-white placeholder-gray-500 transition-all"
+                style={{ fontSize: '16px' }}
+              />
+              <label className="inline-block px-4 py-2 text-sm border border-white/20 rounded-xl text-gray-300 hover:bg-white/10 hover:text-white cursor-pointer transition-all">
+                Nahrát soubor
+                <input type="file" accept=".txt,.csv,text/plain,text/csv" onChange={handleFileChange} className="hidden" />
+              </label>
+            </>
+          ) : (
+            <>
+              <div>
+                <div className="flex justify-between text-xs sm:text-sm text-gray-300 mb-1">
+                  <span>Vyhledáno {finished} / {rows.length}</span>
+                  <span className="text-gray-400">
+                    {counts.found || 0} nalezeno · {counts['not-found'] || 0} nenalezeno · {counts.duplicate || 0} duplicit · {counts.invalid || 0} neplatných
+                  </span>
+                </div>
+                <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-purple-600 to-pink-600 transition-all duration-300"
+                    style={{ width: `${(finished / rows.length) * 100}%` }}
+                  />
+                </div>
+              </div>
+
+              <table className="w-full text-xs sm:text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-white/10">
+                    <th className="py-2 w-8"></th>
+                    <th className="py-2 pr-2">ISBN</th>
+                    <th className="py-2 pr-2">Název</th>
+                    <th className="py-2">Stav</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => (
+                    <tr key={`${row.input}-${index}`} className="border-b border-white/5">
+                      <td className="py-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(index)}
+                          onChange={() => toggleRow(index)}
+                          disabled={row.status !== 'found'}
+                          className="w-4 h-4 text-purple-600 border-white/20 rounded focus:ring-purple-500 bg-white/5 disabled:opacity-30"
+                        />
+                      </td>
+                      <td className="py-2 pr-2 font-mono text-purple-300 whitespace-nowrap">
+                        {row.isbn13 ? hyphenateISBN(row.isbn13) : row.input}
+                      </td>
+                      <td className="py-2 pr-2 text-gray-200">
+                        {row.metadata ? (
+                          <>
+                            {row.metadata.title}
+                            {row.metadata.authors && <span className="text-gray-400"> — {row.metadata.authors.join(', ')}</span>}
+                          </>
+                        ) : (
+                          <span className="text-gray-500">{row.error || ''}</span>
+                        )}
+                      </td>
+                      <td className="py-2"><ImportStatus status={row.status} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div>
+                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Tagy pro všechny importované knihy (oddělené čárkou)</label>
+                <input
+                  type="text"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  placeholder="např. obývák, import"
+                  className="w-full px-3 py-2 sm:px-4 sm:py-3 text-sm bg-white/5 border border-white/20 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-400/50 text-white placeholder-gray-400 transition-all"
+                  style={{ fontSize: '16px' }}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-2 sm:gap-3 justify-end p-3 sm:p-6 border-t border-white/10 flex-shrink-0">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium border border-white/20 rounded-lg sm:rounded-xl hover:bg-white/10 text-gray-300 hover:text-white transition-all duration-300"
+          >
+            Zavřít
+          </button>
+          {rows.length === 0 ? (
+            <button
+              type="button"
+              onClick={handleStart}
+              disabled={!input.trim()}
+              className="px-3 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg sm:rounded-xl hover:from-purple-500 hover:to-pink-500 transition-all duration-300 shadow-lg hover:shadow-purple-500/50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Vyhledat
+            </button>
+          ) : running ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="px-3 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium bg-red-600/80 text-white rounded-lg sm:rounded-xl hover:bg-red-600 transition-all duration-300"
+            >
+              Zastavit
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={selected.size === 0 || saving}
+              className="px-3 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg sm:rounded-xl hover:from-purple-500 hover:to-pink-500 transition-all duration-300 shadow-lg hover:shadow-purple-500/50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Ukládání...' : `Uložit vybrané (${selected.size})`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { Book, BookMetadata } from '../types';
+import { parseBulkInput, lookupBulkRow } from '../lib/bulkImport';
+import type { BulkImportRow } from '../lib/bulkImport';
+import { hyphenateISBN } from '../lib/isbn';
+import { BarcodeScanner } from './BarcodeScanner';
+import { ImportStatus } from './BulkImport';
+
+interface ContinuousScanProps {
+  existingBooks: Book[];
+  onImport: (books: BookMetadata[], tags: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Scan a shelf book by book: the camera stays open, each new code is queued and looked up,
+ * and the found books are saved together at the end
+ */
+export function ContinuousScan({ existingBooks, onImport, onClose }: ContinuousScanProps) {
+  // Newest scan first
+  const [rows, setRows] = useState<BulkImportRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const handleScan = useCallback((text: string) => {
+    const [row] = parseBulkInput(text, existingBooks);
+    if (!row || !row.isbn13) return;
+    setRows(current => current.some(r => r.isbn13 === row.isbn13) ? current : [row, ...current]);
+  }, [existingBooks]);
+
+  // Look up queued codes one at a time, oldest first
+  useEffect(() => {
+    if (rows.some(row => row.status === 'looking-up')) return;
+    const next = [...rows].reverse().find(row => row.status === 'pending');
+    if (!next) return;
+
+    setRows(current => current.map(row => row.isbn13 === next.isbn13 ? { ...row, status: 'looking-up' } : row));
+    lookupBulkRow(next).then(done => {
+      if (!isMountedRef.current) return;
+      setRows(current => current.map(row => row.isbn13 === done.isbn13 ? done : row));
+    });
+  }, [rows]);
+
+  const handleRemove = (isbn13: string) => {
+    setRows(rows.filter(row => row.isbn13 !== isbn13));
+  };
+
+  const handleClose = () => {
+    if (rows.some(row => row.status === 'found') && !confirm('Zahodit naskenované knihy, které ještě nejsou uložené?')) {
+      return;
+    }
+    onClose();
+  };
+
+  const found = rows.filter(row => row.status === 'found' && row.metadata);
+
+  const handleSave = async () => {
+    if (found.length === 0) return;
+    setSaving(true);
+    try {
+      // Save in scan order
+      await onImport(found.map(row => row.metadata!).reverse(), []);
+      onClose();
+    } finally {
+      if (isMountedRef.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  return (
+    <BarcodeScanner continuous onScan={handleScan} onClose={handleClose}>
+      <div className="mt-4 w-full shrink-0">
+        {rows.length > 0 && (
+          <ul className="space-y-1 mb-4 max-h-48 overflow-y-auto">
+            {rows.map(row => (
+              <li key={row.isbn13} className="flex items-center gap-2 text-xs sm:text-sm bg-white/5 border border-white/10 rounded-lg px-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-200 truncate">{row.metadata?.title || hyphenateISBN(row.isbn13!)}</p>
+                  {row.metadata && <p className="font-mono text-[10px] text-gray-400">{hyphenateISBN(row.isbn13!)}</p>}
+                </div>
+                <ImportStatus status={row.status} />
+                <button
+                  type="button"
+                  onClick={() => handleRemove(row.isbn13!)}
+                  className="text-gray-400 hover:text-white w-6 h-6 flex items-center justify-center rounded-lg hover:bg-red-500/20"
+                  aria-label="Odebrat"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={found.length === 0 || saving}
+          className="w-full px-4 py-2.5 text-sm font-medium bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-xl hover:from-purple-500 hover:to-pink-500 transition-all duration-300 shadow-lg hover:shadow-purple-500/50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Ukládání...' : `Uložit nalezené (${found.length})`}
+        </button>
+      </div>
+    </BarcodeScanner>
+  );
+}
@@ -0,0 +1,138 @@
+import type { Book, BookCopy, CopyCondition } from '../types';
+import { CONDITION_LABELS, createCopy, formatLocation } from '../lib/copies';
+
+interface CopiesEditorProps {
+  copies: BookCopy[];
+  allBooks: Book[]; // Offers rooms and bookcases already in use
+  onChange: (copies: BookCopy[]) => void;
+  readOnly?: boolean;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 text-sm bg-white/5 border border-white/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-400/50 text-white placeholder-gray-400 transition-all';
+
+/**
+ * Physical copies of a book: where each one is kept, its condition and how it was acquired
+ */
+export function CopiesEditor({ copies, allBooks, onChange, readOnly = false }: CopiesEditorProps) {
+  const usedCopies = allBooks.flatMap(b => b.copies || []);
+  const rooms = Array.from(new Set(usedCopies.map(copy => copy.room).filter(Boolean))).sort();
+  const bookcases = Array.from(new Set(usedCopies.map(copy => copy.bookcase).filter(Boolean))).sort();
+
+  const updateCopy = (id: string, changes: Partial<BookCopy>) => {
+    onChange(copies.map(copy => copy.id === id ? { ...copy, ...changes } : copy));
+  };
+
+  const removeCopy = (id: string) => {
+    onChange(copies.filter(copy => copy.id !== id));
+  };
+
+  return (
+    <div className="space-y-2 sm:space-y-3">
+      {copies.length === 0 && (
+        <p className="text-xs text-gray-400">U knihy zatím není uložen žádný výtisk ani jeho umístění.</p>
+      )}
+      {copies.map((copy, index) => (
+        <div key={copy.id} className="p-3 bg-white/5 border border-white/10 rounded-lg sm:rounded-xl space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs font-medium text-gray-300 truncate">
+              {index + 1}. výtisk{formatLocation(copy) && ` · ${formatLocation(copy)}`}
+            </span>
+            {!readOnly && (
+              <button
+                type="button"
+                onClick={() => removeCopy(copy.id)}
+                className="text-xs text-gray-400 hover:text-red-300 transition-colors flex-shrink-0"
+              >
+                Odebrat
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="text"
+              value={copy.room || ''}
+              onChange={(e) => updateCopy(copy.id, { room: e.target.value })}
+              placeholder="Místnost"
+              list="copy-rooms"
+              className={INPUT_CLASS}
+              style={{ fontSize: '16px' }}
+            />
+            <input
+              type="text"
+              value={copy.bookcase || ''}
+              onChange={(e) => updateCopy(copy.id, { bookcase: e.target.value })}
+              placeholder="Knihovna"
+              list="copy-bookcases"
+              className={INPUT_CLASS}
+              style={{ fontSize: '16px' }}
+            />
+            <input
+              type="text"
+              value={copy.shelf || ''}
+              onChange={(e) => updateCopy(copy.id, { shelf: e.target.value })}
+              placeholder="Police"
+              className={INPUT_CLASS}
+              style={{ fontSize: '16px' }}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <select
+              value={copy.condition || ''}
+              onChange={(e) => updateCopy(copy.id, { condition: (e.target.value || undefined) as CopyCondition | undefined })}
+              className={INPUT_CLASS}
+              style={{ fontSize: '16px' }}
+              title="Stav"
+            >
+              <option value="" className="bg-slate-800">Stav</option>
+              {(Object.entries(CONDITION_LABELS) as [CopyCondition, string][]).map(([value, label]) => (
+                <option key={value} value={value} className="bg-slate-800">{label}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={copy.acquiredAt || ''}
+              onChange={(e) => updateCopy(copy.id, { acquiredAt: e.target.value || undefined })}
+              className={INPUT_CLASS}
+              style={{ fontSize: '16px' }}
+              title="Datum pořízení"
+            />
+            <input
+              type="number"
+              min="0"
+              step="any"
+              inputMode="decimal"
+              value={copy.price ?? ''}
+              onChange={(e) => updateCopy(copy.id, { price: e.target.value ? parseFloat(e.target.value) : undefined })}
+              placeholder="Cena (Kč)"
+              className={INPUT_CLASS}
+              style={{ fontSize: '16px' }}
+            />
+          </div>
+          <input
+            type="text"
+            value={copy.notes || ''}
+            onChange={(e) => updateCopy(copy.id, { notes: e.target.value })}
+            placeholder="Poznámka (např. s věnováním, půjčená od…)"
+            className={INPUT_CLASS}
+            style={{ fontSize: '16px' }}
+          />
+        </div>
+      ))}
+      {!readOnly && (
+        <button
+          type="button"
+          onClick={() => onChange([...copies, createCopy()])}
+          className="w-full px-3 py-2 text-sm text-purple-300 hover:text-purple-200 border border-dashed border-white/20 hover:border-purple-400/30 hover:bg-purple-500/10 rounded-lg sm:rounded-xl transition-all"
+        >
+          + Přidat výtisk
+        </button>
+      )}
+      <datalist id="copy-rooms">
+        {rooms.map(room => <option key={room} value={room} />)}
+      </datalist>
+      <datalist id="copy-bookcases">
+        {bookcases.map(bookcase => <option key={bookcase} value={bookcase} />)}
+      </datalist>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Book } from '../types';
+import { IMPORT_SOURCE_LABELS, enrichCsvImportRows, parseCsvImport } from '../lib/csvImport';
+import type { CsvImportResult, CsvImportRow, CsvImportStatus, ImportedBook } from '../lib/csvImport';
+import { hyphenateISBN } from '../lib/isbn';
+import { READING_STATUS_LABELS, formatRating } from '../lib/reading';
+
+interface CsvImportProps {
+  existingBooks: Book[];
+  onImport: (books: ImportedBook[], tags: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<CsvImportStatus, string> = {
+  'pending': 'Připraveno',
+  'looking-up': 'Doplňování...',
+  'ready': 'Připraveno',
+  'duplicate': 'Už v knihovně',
+  'invalid': 'Neplatné',
+};
+
+const STATUS_CLASSES: Record<CsvImportStatus, string> = {
+  'pending': 'text-green-300',
+  'looking-up': 'text-purple-300',
+  'ready': 'text-green-300',
+  'duplicate': 'text-yellow-300',
+  'invalid': 'text-red-400',
+};
+
+function isImportable(row: CsvImportRow): boolean {
+  return row.status === 'pending' || row.status === 'ready';
+}
+
+/**
+ * Import from Goodreads, LibraryThing or StoryGraph: upload the CSV export, review what will be added, then save
+ */
+export function CsvImport({ existingBooks, onImport, onClose }: CsvImportProps) {
+  const [result, setResult] = useState<CsvImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [tagInput, setTagInput] = useState('');
+  const [running, setRunning] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop the lookup queue when the dialog closes
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const rows = result?.rows || [];
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseCsvImport(await file.text(), existingBooks);
+      setResult(parsed);
+      setSelected(new Set(parsed.rows.flatMap((row, index) => isImportable(row) ? [index] : [])));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleEnrich = async () => {
+    if (!result) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setError(null);
+
+    try {
+      await enrichCsvImportRows(rows, (index, row) => {
+        setResult(current => current && {
+          ...current,
+          rows: current.rows.map((r, i) => (i === index ? row : r)),
+        });
+      }, { signal: controller.signal });
+    } catch (err) {
+      console.error('CSV import lookups failed:', err);
+      setError('Doplňování z katalogů se nezdařilo: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const toggleRow = (index: number) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const books = rows.filter((row, index) => selected.has(index) && isImportable(row)).map(row => row.book);
+    if (books.length === 0) return;
+
+    const tags = tagInput.split(',').map(tag => tag.trim()).filter(Boolean);
+    setSaving(true);
+    try {
+      await onImport(books, tags);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const pending = rows.filter(row => row.status === 'pending' || row.status === 'looking-up').length;
+  const withIsbn = rows.filter(row => isImportable(row) && row.book.isbn13).length;
+  const counts = rows.reduce((acc, row) => {
+    acc[row.status] = (acc[row.status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<CsvImportStatus, number>>);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-2 sm:p-4 animate-in fade-in duration-300">
+      <div className="glass-dark rounded-2xl sm:rounded-3xl max-w-4xl w-full max-h-[85vh] sm:max-h-[90vh] flex flex-col border border-white/20 shadow-2xl">
+        <div className="flex justify-between items-center p-3 sm:p-6 border-b border-white/10 flex-shrink-0">
+          <h2 className="text-lg sm:text-2xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent">
+            Import z {result ? IMPORT_SOURCE_LABELS[result.source] : 'Goodreads a dalších'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors hover:scale-110 active:scale-95 w-10 h-10 flex items-center justify-center rounded-xl bg-white/5 hover:bg-red-500/20"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-3 sm:p-6 overflow-y-auto flex-1 space-y-4">
+          {!result ? (
+            <>
+              <p className="text-xs sm:text-sm text-gray-400">
+                Nahrajte CSV export z Goodreads (My Books → Import and export), LibraryThing (Export → CSV) nebo StoryGraph (Manage Account → Export).
+                Police se převedou na stav čtení a tagy, hodnocení a recenze zůstanou zachované. Před uložením uvidíte náhled.
+              </p>
+              <label className="inline-block px-4 py-2 text-sm border border-white/20 rounded-xl text-gray-300 hover:bg-white/10 hover:text-white cursor-pointer transition-all">
+                Nahrát soubor
+                <input type="file" accept=".csv,.tsv,.txt,text/csv,text/plain" onChange={handleFileChange} className="hidden" />
+              </label>
+              {error && <p className="text-sm text-red-300">{error}</p>}
+            </>
+          ) : (
+            <>
+              <p className="text-xs sm:text-sm text-gray-400">
+                {rows.length} knih · {counts.duplicate || 0} už v knihovně · {counts.invalid || 0} neplatných
+                {withIsbn > 0 && ' · u knih s ISBN lze chybějící údaje (obálku, popis, jazyk...) doplnit z katalogů'}
+              </p>
+              {error && <p className="text-sm text-red-300">{error}</p>}
+
+              <table className="w-full text-xs sm:text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-white/10">
+                    <th className="py-2 w-8"></th>
+                    <th className="py-2 pr-2">Kniha</th>
+                    <th className="py-2 pr-2 hidden sm:table-cell">Čtení</th>
+                    <th className="py-2 pr-2 hidden sm:table-cell">Tagy</th>
+                    <th className="py-2">Stav</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => (
+                    <tr key={index} className="border-b border-white/5 align-top">
+                      <td className="py-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(index)}
+                          onChange={() => toggleRow(index)}
+                          disabled={!isImportable(row)}
+                          className="w-4 h-4 text-purple-600 border-white/20 rounded focus:ring-purple-500 bg-white/5 disabled:opacity-30"
+                        />
+                      </td>
+                      <td className="py-2 pr-2 text-gray-200">
+                        {row.book.title || <span className="text-gray-500">{row.error}</span>}
+                        {row.book.authors?.length ? <span className="text-gray-400"> — {row.book.authors.join(', ')}</span> : null}
+                        {row.book.isbn13 && (
+                          <span className="block font-mono text-[11px] text-purple-300">{hyphenateISBN(row.book.isbn13)}</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2 text-gray-300 whitespace-nowrap hidden sm:table-cell">
+                        {row.book.readingStatus && READING_STATUS_LABELS[row.book.readingStatus]}
+                        {row.book.rating && <span className="block text-yellow-300">{formatRating(row.book.rating)}</span>}
+                      </td>
+                      <td className="py-2 pr-2 text-gray-400 hidden sm:table-cell">{row.book.tags?.join(', ')}</td>
+                      <td className="py-2">
+                        <span className={`whitespace-nowrap ${STATUS_CLASSES[row.status]}`}>{STATUS_LABELS[row.status]}</span>
+                        {row.enriched && <span className="block text-[11px] text-gray-400">doplněno</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div>
+                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Tagy pro všechny importované knihy (oddělené čárkou)</label>
+                <input
+                  type="text"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  placeholder={`např. ${IMPORT_SOURCE_LABELS[result.source].toLowerCase()}`}
+                  className="w-full px-3 py-2 sm:px-4 sm:py-3 text-sm bg-white/5 border border-white/20 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-400/50 text-white placeholder-gray-400 transition-all"
+                  style={{ fontSize: '16px' }}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-2 sm:gap-3 justify-end p-3 sm:p-6 border-t border-white/10 flex-shrink-0">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium border border-white/20 rounded-lg sm:rounded-xl hover:bg-white/10 text-gray-300 hover:text-white transition-all duration-300"
+          >
+            Zavřít
+          </button>
+          {result && (running ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="px-3 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium bg-red-600/80 text-white rounded-lg sm:rounded-xl hover:bg-red-600 transition-all duration-300"
+            >
+              Zastavit ({pending})
+            </button>
+          ) : pending > 0 && (
+            <button
+              type="button"
+              onClick={handleEnrich}
+              className="px-3 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium border border-purple-400/40 rounded-lg sm:rounded-xl hover:bg-purple-500/20 text-purple-200 transition-all duration-300"
+            >
+              Doplnit z katalogů ({pending})
+            </button>
+          ))}
+          {result && (
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={selected.size === 0 || running || saving}
+              className="px-3 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg sm:rounded-xl hover:from-purple-500 hover:to-pink-500 transition-all duration-300 shadow-lg hover:shadow-purple-500/50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Ukládání...' : `Importovat vybrané (${selected.size})`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
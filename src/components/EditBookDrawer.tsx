@@ -1,7 +1,15 @@
 import { useState, useEffect } from 'react';
-import type { Book } from '../types';
-import { normalizeISBN, isbn13To10 } from '../lib/isbn';
+import type { Book, BookCopy, BookMetadata, BookProvenance, FieldProvenance, Loan, MetadataField } from '../types';
+import { parseISBN, hyphenateISBN, getIdentifierType, isPlaceholderISBN, ISBNError } from '../lib/isbn';
+import type { IdentifierType } from '../types';
 import { ImageUploadCrop } from './ImageUploadCrop';
+import { lookupBook, resolveMetadata } from '../lib/bookLookup';
+import { cleanCopies } from '../lib/copies';
+import { CopiesEditor } from './CopiesEditor';
+import { LoanEditor } from './LoanEditor';
+import { ReadingEditor } from './ReadingEditor';
+import { cleanReadingFields, getReadingFields } from '../lib/reading';
+import type { ReadingFields } from '../lib/reading';
 
 interface EditBookDrawerProps {
   book: Book | null;
@@ -9,24 +17,66 @@ interface EditBookDrawerProps {
   onClose: () => void;
   onSave: (book: Book) => void;
   onDelete?: (id: string) => void;
+  readOnly?: boolean; // Viewer of a shared library: show the book without editing
 }
 
-export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete }: EditBookDrawerProps) {
+/**
+ * Small badge showing which lookup source supplied a field
+ */
+function SourceBadge({ source }: { source?: FieldProvenance }) {
+  if (!source) return null;
+  const fetchedAt = new Date(source.fetchedAt).toLocaleString('cs-CZ');
+  return (
+    <span
+      className="ml-2 px-1.5 py-0.5 text-[10px] font-normal bg-white/10 border border-white/20 rounded text-gray-400 align-middle"
+      title={`Načteno z: ${source.providerName} (${fetchedAt})`}
+    >
+      {source.providerName}
+    </span>
+  );
+}
+
+/**
+ * Keep provenance only for fields the user didn't change, so edited values aren't attributed to a source
+ */
+function keepUnchangedProvenance(original: Book, updated: Book): BookProvenance | undefined {
+  if (!original.provenance) return undefined;
+  const provenance: BookProvenance = {};
+  for (const [field, source] of Object.entries(original.provenance) as [MetadataField, FieldProvenance][]) {
+    if (JSON.stringify(original[field]) === JSON.stringify(updated[field])) {
+      provenance[field] = source;
+    }
+  }
+  return Object.keys(provenance).length > 0 ? provenance : undefined;
+}
+
+export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete, readOnly = false }: EditBookDrawerProps) {
   const [currentTags, setCurrentTags] = useState<string[]>(book?.tags || []);
+  const [currentCopies, setCurrentCopies] = useState<BookCopy[]>(book?.copies || []);
+  const [currentLoans, setCurrentLoans] = useState<Loan[]>(book?.loans || []);
+  const [reading, setReading] = useState<ReadingFields>(() => getReadingFields(book));
   const [tagInput, setTagInput] = useState('');
   const [showImageUpload, setShowImageUpload] = useState(false);
+  // Fresh lookup result from "Obnovit ze zdrojů", applied on save
+  const [refreshed, setRefreshed] = useState<BookMetadata | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
 
   const [formData, setFormData] = useState({
     title: book?.title || '',
     authors: book?.authors?.join(', ') || '',
     publisher: book?.publisher || '',
     publishedYear: book?.publishedYear?.toString() || '',
+    edition: book?.edition || '',
+    language: book?.language || '',
     description: book?.description || '',
     imageUrl: book?.imageUrl || book?.coverUrl || '',
     isbn13: book?.isbn13 || '',
     isbn10: book?.isbn10 || '',
   });
 
+  // Stored books may predate identifierType, so fall back to classifying the number
+  const bookIdentifierType = book?.identifierType || (book?.isbn13 ? getIdentifierType(book.isbn13) : 'isbn');
+
   // Extract all unique tags from all books
   const allAvailableTags = Array.from(
     new Set(
@@ -36,8 +86,14 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
     )
   ).sort().filter(tag => !currentTags.includes(tag)); // Exclude tags already in current book
 
+  // Catalogue subject headings (e.g. from the national library) offered as tags
+  const subjectSuggestions = (book?.subjects || [])
+    .map(subject => subject.trim().toLowerCase())
+    .filter(subject => subject && !currentTags.includes(subject) && !allAvailableTags.includes(subject));
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (readOnly) return;
     
     // Validate title (mandatory)
     if (!formData.title.trim()) {
@@ -50,23 +106,20 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
       // Normalize ISBN if provided
       let normalizedIsbn13 = '';
       let normalizedIsbn10: string | undefined = undefined;
+      let identifierType: IdentifierType | undefined = undefined;
       
-      if (formData.isbn13.trim()) {
-        try {
-          normalizedIsbn13 = normalizeISBN(formData.isbn13.trim());
-          // Try to generate ISBN-10 from ISBN-13
-          normalizedIsbn10 = isbn13To10(normalizedIsbn13) || undefined;
-        } catch (error) {
-          alert('Neplatný formát ISBN. Zadejte 10 nebo 13 číslic (s nebo bez pomlček).');
-          return;
-        }
-      } else if (formData.isbn10.trim()) {
+      const isbnInput = formData.isbn13.trim() || formData.isbn10.trim();
+      if (isbnInput) {
         try {
-          // If only ISBN-10 is provided, convert it to ISBN-13
-          normalizedIsbn13 = normalizeISBN(formData.isbn10.trim());
-          normalizedIsbn10 = formData.isbn10.trim().replace(/\D/g, '');
+          // Keeps the ISBN-10 (including an 'X' check character) when it can be derived
+          const parsed = parseISBN(isbnInput);
+          normalizedIsbn13 = parsed.isbn13;
+          normalizedIsbn10 = parsed.isbn10;
+          identifierType = parsed.type;
         } catch (error) {
-          alert('Neplatný formát ISBN. Zadejte 10 nebo 13 číslic (s nebo bez pomlček).');
+          alert(error instanceof ISBNError
+            ? error.message
+            : 'Neplatný formát ISBN. Zadejte 10 nebo 13 číslic (s nebo bez pomlček).');
           return;
         }
       }
@@ -76,14 +129,20 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
         id: '', // Will be generated in Library component
         isbn13: normalizedIsbn13, // Use entered ISBN or empty (will be generated if empty)
         isbn10: normalizedIsbn10,
+        identifierType,
         title: formData.title.trim(),
         authors: formData.authors ? formData.authors.split(',').map(a => a.trim()).filter(Boolean) : undefined,
         publisher: formData.publisher.trim() || undefined,
         publishedYear: formData.publishedYear ? parseInt(formData.publishedYear) : undefined,
+        edition: formData.edition.trim() || undefined,
+        language: formData.language.trim() || undefined,
         description: formData.description.trim() || undefined,
         imageUrl: imageUrlValue,
         coverUrl: imageUrlValue ? undefined : book?.coverUrl, // Preserve coverUrl if imageUrl is not set
         tags: currentTags.length > 0 ? currentTags : undefined,
+        copies: cleanCopies(currentCopies),
+        loans: currentLoans.length > 0 ? currentLoans : undefined,
+        ...cleanReadingFields(reading),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
@@ -92,21 +151,34 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
       return;
     }
 
-    // Existing book - update it
+    // Existing book - update it (on top of refreshed catalogue data, if any)
+    const base: Book = refreshed ? {
+      ...book,
+      subjects: refreshed.subjects,
+      statementOfResponsibility: refreshed.statementOfResponsibility,
+      coverUrl: refreshed.coverUrl || book.coverUrl,
+      provenance: refreshed.provenance,
+    } : book;
     const imageUrlValue = formData.imageUrl.trim() || undefined;
     const updated: Book = {
-      ...book,
+      ...base,
       title: formData.title.trim(),
       authors: formData.authors ? formData.authors.split(',').map(a => a.trim()).filter(Boolean) : undefined,
       publisher: formData.publisher.trim() || undefined,
       publishedYear: formData.publishedYear ? parseInt(formData.publishedYear) : undefined,
+      edition: formData.edition.trim() || undefined,
+      language: formData.language.trim() || undefined,
       description: formData.description.trim() || undefined,
       imageUrl: imageUrlValue,
       // If imageUrl is set, clear coverUrl. Otherwise, preserve existing coverUrl
-      coverUrl: imageUrlValue ? undefined : (book.coverUrl || undefined),
+      coverUrl: imageUrlValue ? undefined : (base.coverUrl || undefined),
       tags: currentTags.length > 0 ? currentTags : undefined,
+      copies: cleanCopies(currentCopies),
+      loans: currentLoans.length > 0 ? currentLoans : undefined,
+      ...cleanReadingFields(reading),
       updatedAt: new Date().toISOString(),
     };
+    updated.provenance = keepUnchangedProvenance(refreshed ? { ...base, ...refreshed } : book, updated);
     onSave(updated);
     onClose();
   };
@@ -118,15 +190,56 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
       authors: book?.authors?.join(', ') || '',
       publisher: book?.publisher || '',
       publishedYear: book?.publishedYear?.toString() || '',
+      edition: book?.edition || '',
+      language: book?.language || '',
       description: book?.description || '',
       imageUrl: book?.imageUrl || book?.coverUrl || '',
       isbn13: book?.isbn13 || '',
       isbn10: book?.isbn10 || '',
     });
     setCurrentTags(book?.tags || []);
+    setCurrentCopies(book?.copies || []);
+    setCurrentLoans(book?.loans || []);
+    setReading(getReadingFields(book));
     setTagInput('');
+    setRefreshed(null);
   }, [book]);
 
+  // Look the book up again, bypassing the lookup cache, and put the results into the form
+  const handleRefreshFromSources = async () => {
+    if (!book?.isbn13 || isPlaceholderISBN(book.isbn13)) return;
+    setRefreshing(true);
+    try {
+      const metadata = await lookupBook(book.isbn13, false, { refresh: true });
+      if (!metadata) {
+        alert('Knihu se ve zdrojích nepodařilo najít.');
+        return;
+      }
+      const resolved = resolveMetadata(metadata, {});
+      setRefreshed(resolved);
+      setFormData({
+        ...formData,
+        title: resolved.title,
+        authors: resolved.authors?.join(', ') || formData.authors,
+        publisher: resolved.publisher || formData.publisher,
+        publishedYear: resolved.publishedYear?.toString() || formData.publishedYear,
+        edition: resolved.edition || formData.edition,
+        language: resolved.language || formData.language,
+        description: resolved.description || formData.description,
+        // A user-uploaded image stays; otherwise show the refreshed cover
+        imageUrl: book.imageUrl || resolved.coverUrl || formData.imageUrl,
+      });
+    } catch (error) {
+      console.error('Error refreshing book from sources:', error);
+      alert('Obnovení ze zdrojů se nezdařilo.');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  // Provenance of the values currently in the form
+  const provenance = refreshed ? refreshed.provenance : book?.provenance;
+
   // Handle adding tag from input
   const handleAddTag = (tag: string) => {
     const normalizedTag = tag.trim().toLowerCase();
@@ -197,9 +310,10 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
         </div>
         <div className="p-3 sm:p-6 overflow-y-auto flex-1">
           <form onSubmit={handleSubmit} className="space-y-2 sm:space-y-4">
+            <fieldset disabled={readOnly} className="min-w-0">
             <div className="grid grid-cols-2 gap-2 sm:gap-4">
               <div className="col-span-2">
-                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Název <span className="text-red-400">*</span></label>
+                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Název <span className="text-red-400">*</span><SourceBadge source={provenance?.title} /></label>
                 <input
                   type="text"
                   value={formData.title}
@@ -211,7 +325,7 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
                 />
               </div>
               <div>
-                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Autoři (oddělené čárkou)</label>
+                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Autoři (oddělené čárkou)<SourceBadge source={provenance?.authors} /></label>
                 <input
                   type="text"
                   value={formData.authors}
@@ -219,9 +333,14 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
                   className="w-full px-3 py-2 sm:px-4 sm:py-3 text-sm bg-white/5 border border-white/20 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-400/50 text-white placeholder-gray-400 transition-all"
                   style={{ fontSize: '16px' }}
                 />
+                {book?.statementOfResponsibility && (
+                  <p className="mt-1 text-xs text-gray-400 line-clamp-2" title="Údaj o odpovědnosti z katalogu">
+                    {book.statementOfResponsibility}
+                  </p>
+                )}
               </div>
               <div>
-                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Nakladatel</label>
+                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Nakladatel<SourceBadge source={provenance?.publisher} /></label>
                 <input
                   type="text"
                   value={formData.publisher}
@@ -231,7 +350,7 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
                 />
               </div>
               <div>
-                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Rok vydání</label>
+                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Rok vydání<SourceBadge source={provenance?.publishedYear} /></label>
                 <input
                   type="number"
                   value={formData.publishedYear}
@@ -240,8 +359,30 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
                   style={{ fontSize: '16px' }}
                 />
               </div>
+              <div>
+                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Vydání<SourceBadge source={provenance?.edition} /></label>
+                <input
+                  type="text"
+                  value={formData.edition}
+                  onChange={(e) => setFormData({ ...formData, edition: e.target.value })}
+                  placeholder="např. 2. vyd."
+                  className="w-full px-3 py-2 sm:px-4 sm:py-3 text-sm bg-white/5 border border-white/20 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-400/50 text-white placeholder-gray-400 transition-all"
+                  style={{ fontSize: '16px' }}
+                />
+              </div>
+              <div>
+                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Jazyk<SourceBadge source={provenance?.language} /></label>
+                <input
+                  type="text"
+                  value={formData.language}
+                  onChange={(e) => setFormData({ ...formData, language: e.target.value })}
+                  placeholder="např. cze"
+                  className="w-full px-3 py-2 sm:px-4 sm:py-3 text-sm bg-white/5 border border-white/20 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-400/50 text-white placeholder-gray-400 transition-all"
+                  style={{ fontSize: '16px' }}
+                />
+              </div>
               <div className="col-span-2">
-                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">URL obrázku</label>
+                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">URL obrázku{!book?.imageUrl && <SourceBadge source={provenance?.coverUrl} />}</label>
                 <div className="flex gap-2">
                   <input
                     type="url"
@@ -251,6 +392,7 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
                     className="flex-1 px-3 py-2 sm:px-4 sm:py-3 text-sm bg-white/5 border border-white/20 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-400/50 text-white placeholder-gray-400 transition-all"
                     style={{ fontSize: '16px' }}
                   />
+                  {!readOnly && (
                   <button
                     type="button"
                     onClick={() => setShowImageUpload(true)}
@@ -262,6 +404,7 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
                     </svg>
                   </button>
+                  )}
                 </div>
               </div>
               <div className="col-span-2">
@@ -276,6 +419,7 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
                         className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-purple-500/20 text-purple-300 border border-purple-400/30 rounded-lg text-xs font-medium flex-shrink-0 backdrop-blur-sm"
                       >
                         {tag}
+                        {!readOnly && (
                         <button
                           type="button"
                           onClick={() => handleRemoveTag(tag)}
@@ -284,8 +428,10 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
                         >
                           ×
                         </button>
+                        )}
                       </span>
                     ))}
+                    {!readOnly && (
                     <input
                       type="text"
                       value={tagInput}
@@ -295,9 +441,28 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
                       className="flex-1 min-w-[120px] px-2 py-1 text-sm border-0 focus:outline-none bg-transparent text-white placeholder-gray-400"
                       style={{ fontSize: '16px' }}
                     />
+                    )}
                   </div>
+                  {/* Subject headings from the catalogue record */}
+                  {!readOnly && subjectSuggestions.length > 0 && (
+                    <div className="px-3 pb-3 pt-2 border-t border-white/10">
+                      <span className="text-xs text-gray-400 block mb-2">Předmětová hesla z katalogu:</span>
+                      <div className="flex flex-wrap gap-2">
+                        {subjectSuggestions.map(subject => (
+                          <button
+                            key={subject}
+                            type="button"
+                            onClick={() => handleClickAvailableTag(subject)}
+                            className="px-3 py-1.5 text-xs bg-white/5 text-gray-300 border border-dashed border-white/20 rounded-lg hover:bg-purple-500/20 hover:text-purple-300 hover:border-purple-400/30 transition-all duration-300 backdrop-blur-sm"
+                          >
+                            + {subject}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   {/* Available tags integrated below input */}
-                  {allAvailableTags.length > 0 && (
+                  {!readOnly && allAvailableTags.length > 0 && (
                     <div className="px-3 pb-3 pt-2 border-t border-white/10">
                       <div className="flex flex-wrap gap-2">
                         {allAvailableTags.map(tag => (
@@ -316,7 +481,33 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
                 </div>
               </div>
               <div className="col-span-2">
-                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Popis</label>
+                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Čtení</label>
+                <ReadingEditor
+                  value={reading}
+                  onChange={setReading}
+                  readOnly={readOnly}
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Výtisky a umístění</label>
+                <CopiesEditor
+                  copies={currentCopies}
+                  allBooks={allBooks}
+                  onChange={setCurrentCopies}
+                  readOnly={readOnly}
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Půjčování</label>
+                <LoanEditor
+                  loans={currentLoans}
+                  allBooks={allBooks}
+                  onChange={setCurrentLoans}
+                  readOnly={readOnly}
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">Popis<SourceBadge source={provenance?.description} /></label>
                 <textarea
                   value={formData.description}
                   onChange={(e) => setFormData({ ...formData, description: e.target.value })}
@@ -328,11 +519,13 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
               {/* ISBN fields - editable for new books, read-only for existing books */}
               {(!book || !book.id) ? (
                 <div className="col-span-2 border-t border-white/10 pt-2 sm:pt-4">
-                  <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">ISBN-13</label>
+                  <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">ISBN-13 / ISMN</label>
                   <input
-                    type="tel"
-                    inputMode="numeric"
-                    pattern="[0-9-]*"
+                    // Text, not a numeric keypad: ISBN-10s can end with X
+                    type="text"
+                    inputMode="text"
+                    autoCapitalize="characters"
+                    autoComplete="off"
                     value={formData.isbn13}
                     onChange={(e) => setFormData({ ...formData, isbn13: e.target.value })}
                     placeholder="978-80-257-4767-4 nebo 9788025747674"
@@ -340,29 +533,30 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
                     style={{ fontSize: '16px' }}
                   />
                 </div>
-              ) : (
+              ) : isPlaceholderISBN(book.isbn13) ? null : (
                 <div className="col-span-2 border-t border-white/10 pt-2 sm:pt-4">
-                  <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">ISBN</label>
+                  <label className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">{bookIdentifierType === 'ismn' ? 'ISMN' : 'ISBN'}</label>
                   <div className="grid grid-cols-2 gap-3 sm:gap-4">
                     <div className="glass-dark p-3 rounded-xl border border-white/10">
-                      <span className="text-xs text-gray-400 block mb-1">ISBN-13:</span>
-                      <p className="font-mono text-sm text-purple-300">{book.isbn13}</p>
+                      <span className="text-xs text-gray-400 block mb-1">{bookIdentifierType === 'ismn' ? 'ISMN:' : 'ISBN-13:'}</span>
+                      <p className="font-mono text-sm text-purple-300">{hyphenateISBN(book.isbn13)}</p>
                     </div>
                     {book.isbn10 && (
                       <div className="glass-dark p-3 rounded-xl border border-white/10">
                         <span className="text-xs text-gray-400 block mb-1">ISBN-10:</span>
-                        <p className="font-mono text-sm text-purple-300">{book.isbn10}</p>
+                        <p className="font-mono text-sm text-purple-300">{hyphenateISBN(book.isbn10)}</p>
                       </div>
                     )}
                   </div>
                 </div>
               )}
             </div>
+            </fieldset>
           </form>
         </div>
         <div className="flex gap-2 sm:gap-4 justify-between p-3 sm:p-6 border-t border-white/10 flex-shrink-0">
-          <div>
-            {onDelete && book && book.id && (
+          <div className="flex gap-2 sm:gap-3">
+            {onDelete && !readOnly && book && book.id && (
               <button
                 type="button"
                 onClick={(e) => {
@@ -378,6 +572,17 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
                 Smazat
               </button>
             )}
+            {!readOnly && book && book.id && book.isbn13 && !isPlaceholderISBN(book.isbn13) && (
+              <button
+                type="button"
+                onClick={handleRefreshFromSources}
+                disabled={refreshing}
+                className="px-3 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium border border-white/20 rounded-lg sm:rounded-xl hover:bg-white/10 text-gray-300 hover:text-white transition-all duration-300 disabled:opacity-50"
+                title="Znovu načíst údaje z katalogů (bez mezipaměti)"
+              >
+                {refreshing ? 'Načítání...' : 'Obnovit ze zdrojů'}
+              </button>
+            )}
           </div>
           <div className="flex gap-2 sm:gap-3">
             <button
@@ -385,8 +590,9 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
               onClick={onClose}
               className="px-3 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium border border-white/20 rounded-lg sm:rounded-xl hover:bg-white/10 text-gray-300 hover:text-white transition-all duration-300"
             >
-              Zrušit
+              {readOnly ? 'Zavřít' : 'Zrušit'}
             </button>
+            {!readOnly && (
             <button
               type="submit"
               onClick={handleSubmit}
@@ -394,6 +600,7 @@ export function EditBookDrawer({ book, allBooks = [], onClose, onSave, onDelete
             >
               Uložit
             </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import type { Book } from '../types';
+import { EXPORT_FORMATS, downloadExport } from '../lib/export';
+import type { ExportFormatId } from '../lib/export';
+import { CSV_COLUMNS, DEFAULT_CSV_COLUMNS } from '../lib/csvExport';
+import type { CsvColumnKey } from '../lib/csvExport';
+
+interface ExportDialogProps {
+  allBooks: Book[];
+  // Books currently shown by the search and filters
+  filteredBooks: Book[];
+  onClose: () => void;
+}
+
+export function ExportDialog({ allBooks, filteredBooks, onClose }: ExportDialogProps) {
+  const [formatId, setFormatId] = useState<ExportFormatId>('csv');
+  const [onlyFiltered, setOnlyFiltered] = useState(filteredBooks.length < allBooks.length);
+  const [columns, setColumns] = useState<CsvColumnKey[]>(DEFAULT_CSV_COLUMNS);
+
+  const format = EXPORT_FORMATS.find(f => f.id === formatId)!;
+  const books = onlyFiltered ? filteredBooks : allBooks;
+
+  const toggleColumn = (key: CsvColumnKey) => {
+    // Keep the columns in the order they are listed
+    setColumns(current => current.includes(key)
+      ? current.filter(column => column !== key)
+      : CSV_COLUMNS.map(column => column.key).filter(column => column === key || current.includes(column)));
+  };
+
+  const handleExport = () => {
+    downloadExport(books, format, { csvColumns: columns });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-2 sm:p-4 animate-in fade-in duration-300">
+      <div className="glass-dark rounded-2xl sm:rounded-3xl max-w-xl w-full max-h-[85vh] sm:max-h-[90vh] flex flex-col border border-white/20 shadow-2xl">
+        <div className="flex justify-between items-center p-3 sm:p-6 border-b border-white/10 flex-shrink-0">
+          <h2 className="text-lg sm:text-2xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent">Export knihovny</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors hover:scale-110 active:scale-95 w-10 h-10 flex items-center justify-center rounded-xl bg-white/5 hover:bg-red-500/20"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-3 sm:p-6 overflow-y-auto flex-1 space-y-4">
+          <div className="space-y-2">
+            {EXPORT_FORMATS.map(f => (
+              <label
+                key={f.id}
+                className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-all ${f.id === formatId ? 'border-purple-400/60 bg-purple-500/10' : 'border-white/10 hover:bg-white/5'}`}
+              >
+                <input
+                  type="radio"
+                  name="export-format"
+                  checked={f.id === formatId}
+                  onChange={() => setFormatId(f.id)}
+                  className="mt-1 w-4 h-4 text-purple-600 border-white/20 focus:ring-purple-500 bg-white/5"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-white">{f.label}</span>
+                  <span className="block text-xs text-gray-400">{f.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {formatId === 'csv' && (
+            <div>
+              <p className="text-xs sm:text-sm font-medium mb-2 text-gray-300">Sloupce</p>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-3 gap-y-1.5">
+                {CSV_COLUMNS.map(column => (
+                  <label key={column.key} className="flex items-center gap-2 text-xs sm:text-sm text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={columns.includes(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                      className="w-4 h-4 text-purple-600 border-white/20 rounded focus:ring-purple-500 bg-white/5"
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {filteredBooks.length < allBooks.length && (
+            <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={onlyFiltered}
+                onChange={(e) => setOnlyFiltered(e.target.checked)}
+                className="w-4 h-4 text-purple-600 border-white/20 rounded focus:ring-purple-500 bg-white/5"
+              />
+              Jen knihy odpovídající vyhledávání a filtrům ({filteredBooks.length} z {allBooks.length})
+            </label>
+          )}
+        </div>
+
+        <div className="flex gap-2 sm:gap-3 justify-end p-3 sm:p-6 border-t border-white/10 flex-shrink-0">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium border border-white/20 rounded-lg sm:rounded-xl hover:bg-white/10 text-gray-300 hover:text-white transition-all duration-300"
+          >
+            Zrušit
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={books.length === 0 || (formatId === 'csv' && columns.length === 0)}
+            className="px-3 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg sm:rounded-xl hover:from-purple-500 hover:to-pink-500 transition-all duration-300 shadow-lg hover:shadow-purple-500/50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Stáhnout {format.label}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import type { LibraryRole, LibrarySummary } from '../types';
+import { ROLE_LABELS } from '../lib/libraries';
+
+interface LibrarySwitcherProps {
+  libraries: LibrarySummary[];
+  activeLibraryId: string | null;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => Promise<void>;
+  onInvite: (role: Exclude<LibraryRole, 'owner'>) => Promise<void>;
+}
+
+/**
+ * Library name as the page title, opening a menu to switch libraries, create one or invite members
+ */
+export function LibrarySwitcher({ libraries, activeLibraryId, onSwitch, onCreate, onInvite }: LibrarySwitcherProps) {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const active = libraries.find(library => library.id === activeLibraryId);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      setOpen(false);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => {
+    const name = prompt('Název nové knihovny:')?.trim();
+    if (!name) return;
+    run(() => onCreate(name));
+  };
+
+  return (
+    <div className="relative min-w-0">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 min-w-0 text-left"
+        title="Přepnout knihovnu"
+      >
+        <h1 className="text-3xl sm:text-4xl lg:text-5xl font-modern text-white text-glow truncate">
+          {active?.name || 'Moje knihovna'}
+        </h1>
+        <svg className={`w-5 h-5 sm:w-6 sm:h-6 text-gray-400 flex-shrink-0 transition-transform ${open ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {active && active.role !== 'owner' && (
+        <p className="text-xs text-gray-400 mt-1">{ROLE_LABELS[active.role]}{active.role === 'viewer' && ' · jen pro čtení'}</p>
+      )}
+
+      {open && (
+        <>
+          {/* Closes the menu on a click outside */}
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute left-0 top-full mt-2 z-50 w-72 max-w-[calc(100vw-3rem)] glass-dark border border-white/20 rounded-2xl shadow-2xl p-2">
+            <ul className="max-h-64 overflow-y-auto">
+              {libraries.map(library => (
+                <li key={library.id}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setOpen(false);
+                      if (library.id !== activeLibraryId) onSwitch(library.id);
+                    }}
+                    className={`w-full flex items-center justify-between gap-2 px-3 py-2 text-sm rounded-xl transition-all ${library.id === activeLibraryId ? 'bg-purple-500/20 text-white' : 'text-gray-300 hover:bg-white/10 hover:text-white'}`}
+                  >
+                    <span className="truncate">{library.name}</span>
+                    <span className="text-xs text-gray-400 flex-shrink-0">{ROLE_LABELS[library.role]}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="border-t border-white/10 mt-2 pt-2 space-y-1">
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={busy}
+                className="w-full px-3 py-2 text-sm text-left text-purple-300 hover:text-purple-200 hover:bg-white/10 rounded-xl transition-all disabled:opacity-50"
+              >
+                + Nová knihovna
+              </button>
+              {active?.role === 'owner' && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => run(() => onInvite('editor'))}
+                    disabled={busy}
+                    className="w-full px-3 py-2 text-sm text-left text-gray-300 hover:text-white hover:bg-white/10 rounded-xl transition-all disabled:opacity-50"
+                  >
+                    Pozvat editora
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => run(() => onInvite('viewer'))}
+                    disabled={busy}
+                    className="w-full px-3 py-2 text-sm text-left text-gray-300 hover:text-white hover:bg-white/10 rounded-xl transition-all disabled:opacity-50"
+                  >
+                    Pozvat čtenáře
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
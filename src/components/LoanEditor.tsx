@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import type { Book, Loan } from '../types';
+import { formatLoanDate, isOverdue, lend, markReturned, todayISO } from '../lib/loans';
+
+interface LoanEditorProps {
+  loans: Loan[];
+  allBooks: Book[]; // Offers names of earlier borrowers
+  onChange: (loans: Loan[]) => void;
+  readOnly?: boolean;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 text-sm bg-white/5 border border-white/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-400/50 text-white placeholder-gray-400 transition-all';
+
+/**
+ * Lend the book to someone, mark it returned and show who had it before
+ */
+export function LoanEditor({ loans, allBooks, onChange, readOnly = false }: LoanEditorProps) {
+  const [borrower, setBorrower] = useState('');
+  const [lentAt, setLentAt] = useState(todayISO);
+  const [dueAt, setDueAt] = useState('');
+
+  const activeLoan = loans.find(loan => !loan.returnedAt);
+  const history = loans.filter(loan => loan.returnedAt).reverse();
+  const borrowers = Array.from(
+    new Set(allBooks.flatMap(b => b.loans || []).map(loan => loan.borrower))
+  ).sort((a, b) => a.localeCompare(b, 'cs'));
+
+  const handleLend = () => {
+    const name = borrower.trim();
+    if (!name) {
+      alert('Zadejte, komu knihu půjčujete.');
+      return;
+    }
+    if (dueAt && dueAt < lentAt) {
+      alert('Datum vrácení nemůže být dřív než datum půjčení.');
+      return;
+    }
+    onChange(lend(loans, name, lentAt, dueAt));
+    setBorrower('');
+    setLentAt(todayISO());
+    setDueAt('');
+  };
+
+  return (
+    <div className="space-y-2 sm:space-y-3">
+      {activeLoan ? (
+        <div className={`p-3 rounded-lg sm:rounded-xl border flex items-center justify-between gap-3 ${isOverdue(activeLoan) ? 'bg-red-500/10 border-red-400/30' : 'bg-amber-500/10 border-amber-400/30'}`}>
+          <div className="min-w-0 text-sm">
+            <p className="text-white font-medium truncate">Půjčeno: {activeLoan.borrower}</p>
+            <p className="text-xs text-gray-300">
+              od {formatLoanDate(activeLoan.lentAt)}
+              {activeLoan.dueAt && ` · vrátit do ${formatLoanDate(activeLoan.dueAt)}`}
+              {isOverdue(activeLoan) && <span className="text-red-300 font-medium"> · po termínu</span>}
+            </p>
+          </div>
+          {!readOnly && (
+            <button
+              type="button"
+              onClick={() => onChange(markReturned(loans, activeLoan.id))}
+              className="px-3 py-2 text-xs sm:text-sm font-medium bg-emerald-600/80 text-white rounded-lg hover:bg-emerald-600 transition-all flex-shrink-0"
+            >
+              Vráceno
+            </button>
+          )}
+        </div>
+      ) : readOnly ? (
+        <p className="text-xs text-gray-400">Kniha je doma.</p>
+      ) : (
+        <div className="p-3 bg-white/5 border border-white/10 rounded-lg sm:rounded-xl space-y-2">
+          <input
+            type="text"
+            value={borrower}
+            onChange={(e) => setBorrower(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter would submit the whole book form
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleLend();
+              }
+            }}
+            placeholder="Komu (jméno)"
+            list="loan-borrowers"
+            className={INPUT_CLASS}
+            style={{ fontSize: '16px' }}
+          />
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+            <label className="text-xs text-gray-400">
+              Půjčeno
+              <input
+                type="date"
+                value={lentAt}
+                onChange={(e) => setLentAt(e.target.value || todayISO())}
+                className={`${INPUT_CLASS} mt-1`}
+                style={{ fontSize: '16px' }}
+              />
+            </label>
+            <label className="text-xs text-gray-400">
+              Vrátit do
+              <input
+                type="date"
+                value={dueAt}
+                min={lentAt}
+                onChange={(e) => setDueAt(e.target.value)}
+                className={`${INPUT_CLASS} mt-1`}
+                style={{ fontSize: '16px' }}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={handleLend}
+              className="px-3 py-2 text-sm font-medium bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg hover:from-purple-500 hover:to-pink-500 transition-all"
+            >
+              Půjčit
+            </button>
+          </div>
+          <datalist id="loan-borrowers">
+            {borrowers.map(name => <option key={name} value={name} />)}
+          </datalist>
+        </div>
+      )}
+      {history.length > 0 && (
+        <div>
+          <span className="text-xs text-gray-400 block mb-1">Dříve půjčeno:</span>
+          <ul className="space-y-1">
+            {history.map(loan => (
+              <li key={loan.id} className="text-xs text-gray-300 flex justify-between gap-2">
+                <span className="truncate">{loan.borrower}</span>
+                <span className="text-gray-400 flex-shrink-0">
+                  {formatLoanDate(loan.lentAt)} – {formatLoanDate(loan.returnedAt!)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
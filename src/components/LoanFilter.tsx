@@ -0,0 +1,45 @@
+import type { Book } from '../types';
+import { getActiveLoan, isOverdue } from '../lib/loans';
+import type { LoanFilterValue } from '../lib/loans';
+
+interface LoanFilterProps {
+  books: Book[];
+  selected: LoanFilterValue | null;
+  onSelect: (filter: LoanFilterValue | null) => void;
+}
+
+export function LoanFilter({ books, selected, onSelect }: LoanFilterProps) {
+  const activeLoans = books.map(getActiveLoan).filter(loan => !!loan);
+  const overdueCount = activeLoans.filter(loan => isOverdue(loan)).length;
+
+  // Nothing to filter until a book is lent (keep the button while its filter is on)
+  if (activeLoans.length === 0 && !selected) {
+    return null;
+  }
+
+  const options: { value: LoanFilterValue; label: string; count: number; colorClass: string }[] = [
+    { value: 'on-loan', label: 'Půjčené', count: activeLoans.length, colorClass: 'bg-amber-500/20 text-amber-300 border border-amber-400/30' },
+    { value: 'overdue', label: 'Po termínu', count: overdueCount, colorClass: 'bg-red-500/20 text-red-300 border border-red-400/30' },
+  ];
+
+  return (
+    <div className="mt-1.5 sm:mt-2 flex flex-wrap gap-1.5 sm:gap-2">
+      {options.filter(option => option.count > 0 || option.value === selected).map(option => {
+        const isSelected = selected === option.value;
+        return (
+          <button
+            key={option.value}
+            onClick={() => onSelect(isSelected ? null : option.value)}
+            className={`px-2 py-1 sm:px-4 sm:py-2 rounded-lg sm:rounded-xl text-xs sm:text-sm font-medium transition-all duration-300 backdrop-blur-sm ${option.colorClass} ${
+              isSelected
+                ? 'ring-2 ring-purple-400/50 shadow-lg shadow-purple-500/30 scale-105 border-2'
+                : 'hover:shadow-md hover:scale-105 hover:border-opacity-50'
+            }`}
+          >
+            {option.label} ({option.count})
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import type { Book } from '../types';
+import { getBookFilterLocations } from '../lib/copies';
+
+interface LocationFilterProps {
+  books: Book[];
+  selectedLocations: string[];
+  onLocationToggle: (location: string) => void;
+}
+
+export function LocationFilter({ books, selectedLocations, onLocationToggle }: LocationFilterProps) {
+  // Rooms and bookcases where at least one copy is kept
+  const allLocations = Array.from(
+    new Set(books.flatMap(getBookFilterLocations))
+  ).sort((a, b) => a.localeCompare(b, 'cs'));
+
+  if (allLocations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-1.5 sm:mt-2 flex flex-wrap gap-1.5 sm:gap-2">
+      {allLocations.map(location => {
+        const isSelected = selectedLocations.includes(location);
+        return (
+          <button
+            key={location}
+            onClick={() => onLocationToggle(location)}
+            className={`inline-flex items-center gap-1 px-2 py-1 sm:px-4 sm:py-2 rounded-lg sm:rounded-xl text-xs sm:text-sm font-medium transition-all duration-300 backdrop-blur-sm bg-slate-500/20 text-slate-200 border border-slate-400/30 ${
+              isSelected
+                ? 'ring-2 ring-purple-400/50 shadow-lg shadow-purple-500/30 scale-105 border-2'
+                : 'hover:shadow-md hover:scale-105 hover:border-opacity-50'
+            }`}
+            title="Filtrovat podle umístění"
+          >
+            <svg className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a2 2 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+            {location}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import type { BookMetadata, MetadataCandidate } from '../types';
+import { resolveMetadata, REVIEW_FIELDS } from '../lib/bookLookup';
+import type { ReviewField } from '../lib/bookLookup';
+
+const FIELD_LABELS: Record<ReviewField, string> = {
+  title: 'Název',
+  authors: 'Autoři',
+  publishedYear: 'Rok vydání',
+  description: 'Popis',
+  coverUrl: 'Obálka',
+};
+
+type ReviewValue = BookMetadata[ReviewField];
+
+function getCandidates(metadata: BookMetadata, field: ReviewField): MetadataCandidate<NonNullable<ReviewValue>>[] {
+  return metadata.candidates?.[field] || [];
+}
+
+// Text shown in the custom input for a value
+function toText(field: ReviewField, value: ReviewValue): string {
+  if (value === undefined) return '';
+  if (field === 'authors') return (value as string[]).join(', ');
+  return String(value);
+}
+
+// Parse what the user typed back into the field's type
+function fromText(field: ReviewField, text: string): ReviewValue {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  if (field === 'authors') return trimmed.split(',').map(a => a.trim()).filter(Boolean);
+  if (field === 'publishedYear') {
+    const year = parseInt(trimmed);
+    return isNaN(year) ? undefined : year;
+  }
+  return trimmed;
+}
+
+interface LookupReviewProps {
+  metadata: BookMetadata;
+  onConfirm: (metadata: BookMetadata) => void;
+  onCancel: () => void;
+}
+
+export function LookupReview({ metadata, onConfirm, onCancel }: LookupReviewProps) {
+  // Index of the picked candidate, or 'custom' for a typed value
+  const [selection, setSelection] = useState<Record<ReviewField, number | 'custom'>>(() => {
+    const initial = {} as Record<ReviewField, number | 'custom'>;
+    for (const field of REVIEW_FIELDS) {
+      initial[field] = getCandidates(metadata, field).length > 0 ? 0 : 'custom';
+    }
+    return initial;
+  });
+  const [customText, setCustomText] = useState<Record<ReviewField, string>>(() => {
+    const initial = {} as Record<ReviewField, string>;
+    for (const field of REVIEW_FIELDS) {
+      initial[field] = toText(field, metadata[field]);
+    }
+    return initial;
+  });
+
+  const handleConfirm = () => {
+    const choices: Partial<Pick<BookMetadata, ReviewField>> = {};
+    for (const field of REVIEW_FIELDS) {
+      const picked = selection[field];
+      const value = picked === 'custom'
+        ? fromText(field, customText[field])
+        : getCandidates(metadata, field)[picked].value;
+      (choices as Record<string, unknown>)[field] = value;
+    }
+
+    if (!choices.title) {
+      alert('Název knihy je povinný.');
+      return;
+    }
+
+    onConfirm(resolveMetadata(metadata, choices));
+  };
+
+  const renderCandidateValue = (field: ReviewField, value: NonNullable<ReviewValue>) => {
+    if (field === 'coverUrl') {
+      return (
+        <img
+          src={value as string}
+          alt="Obálka"
+          className="h-24 w-auto rounded-lg border border-white/20 object-contain bg-white/5"
+        />
+      );
+    }
+    if (field === 'description') {
+      return <span className="text-sm text-gray-200 line-clamp-4 whitespace-pre-line">{value as string}</span>;
+    }
+    return <span className="text-sm text-gray-200">{toText(field, value)}</span>;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-2 sm:p-4 animate-in fade-in duration-300">
+      <div className="glass-dark rounded-2xl sm:rounded-3xl max-w-2xl w-full max-h-[85vh] sm:max-h-[90vh] flex flex-col border border-white/20 shadow-2xl">
+        <div className="p-3 sm:p-6 border-b border-white/10 flex-shrink-0">
+          <h2 className="text-lg sm:text-2xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent">Zkontrolovat údaje</h2>
+          <p className="mt-1 text-xs sm:text-sm text-gray-400">Zdroje se v některých údajích liší. Vyberte správnou hodnotu nebo zadejte vlastní.</p>
+        </div>
+        <div className="overflow-y-auto flex-1 p-3 sm:p-6 space-y-4 sm:space-y-6">
+          {REVIEW_FIELDS.map(field => {
+            const candidates = getCandidates(metadata, field);
+            const isTextArea = field === 'description';
+            return (
+              <fieldset key={field}>
+                <legend className="block text-xs sm:text-sm font-medium mb-1 sm:mb-2 text-gray-300">
+                  {FIELD_LABELS[field]}
+                  {field === 'title' && <span className="text-red-400"> *</span>}
+                </legend>
+                <div className="space-y-2">
+                  {candidates.map((candidate, index) => (
+                    <label
+                      key={candidate.providerId}
+                      className={`flex items-start gap-3 p-2 sm:p-3 rounded-lg sm:rounded-xl border cursor-pointer transition-all ${
+                        selection[field] === index
+                          ? 'bg-purple-500/20 border-purple-400/50'
+                          : 'bg-white/5 border-white/10 hover:bg-white/10'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name={`review-${field}`}
+                        checked={selection[field] === index}
+                        onChange={() => setSelection({ ...selection, [field]: index })}
+                        className="mt-1 text-purple-600 focus:ring-purple-500"
+                      />
+                      <div className="flex-1 min-w-0 flex flex-col gap-1">
+                        {renderCandidateValue(field, candidate.value)}
+                        <span className="text-[10px] text-gray-400">{candidate.providerName}</span>
+                      </div>
+                    </label>
+                  ))}
+                  <label
+                    className={`flex items-start gap-3 p-2 sm:p-3 rounded-lg sm:rounded-xl border cursor-pointer transition-all ${
+                      selection[field] === 'custom'
+                        ? 'bg-purple-500/20 border-purple-400/50'
+                        : 'bg-white/5 border-white/10 hover:bg-white/10'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name={`review-${field}`}
+                      checked={selection[field] === 'custom'}
+                      onChange={() => setSelection({ ...selection, [field]: 'custom' })}
+                      className="mt-1 text-purple-600 focus:ring-purple-500"
+                    />
+                    {isTextArea ? (
+                      <textarea
+                        value={customText[field]}
+                        onChange={(e) => setCustomText({ ...customText, [field]: e.target.value })}
+                        onFocus={() => setSelection({ ...selection, [field]: 'custom' })}
+                        placeholder="Vlastní hodnota"
+                        rows={3}
+                        className="flex-1 min-w-0 px-3 py-2 text-sm bg-white/5 border border-white/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500/50 text-white placeholder-gray-400"
+                        style={{ fontSize: '16px' }}
+                      />
+                    ) : (
+                      <input
+                        type={field === 'publishedYear' ? 'number' : field === 'coverUrl' ? 'url' : 'text'}
+                        value={customText[field]}
+                        onChange={(e) => setCustomText({ ...customText, [field]: e.target.value })}
+                        onFocus={() => setSelection({ ...selection, [field]: 'custom' })}
+                        placeholder={field === 'authors' ? 'Vlastní hodnota (oddělené čárkou)' : 'Vlastní hodnota'}
+                        className="flex-1 min-w-0 px-3 py-2 text-sm bg-white/5 border border-white/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500/50 text-white placeholder-gray-400"
+                        style={{ fontSize: '16px' }}
+                      />
+                    )}
+                  </label>
+                </div>
+              </fieldset>
+            );
+          })}
+        </div>
+        <div className="p-3 sm:p-6 border-t border-white/10 flex gap-2 sm:gap-3 flex-shrink-0">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-4 py-2.5 text-sm bg-white/5 border border-white/20 text-gray-300 rounded-xl hover:bg-white/10 transition-all"
+          >
+            Zrušit
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            className="flex-1 px-4 py-2.5 text-sm bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-xl hover:from-purple-500 hover:to-pink-500 transition-all duration-300 shadow-lg hover:shadow-purple-500/50 font-medium"
+          >
+            Přidat knihu
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import type { ReadingStatus } from '../types';
+import { MAX_RATING, READING_STATUS_LABELS, getReadingProgress, withReadingStatus } from '../lib/reading';
+import type { ReadingFields } from '../lib/reading';
+
+interface ReadingEditorProps {
+  value: ReadingFields;
+  onChange: (value: ReadingFields) => void;
+  readOnly?: boolean;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 text-sm bg-white/5 border border-white/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-400/50 text-white placeholder-gray-400 transition-all';
+
+function parsePage(value: string): number | undefined {
+  return value ? parseInt(value) : undefined;
+}
+
+/**
+ * Reading status, dates, progress, star rating and a private review
+ */
+export function ReadingEditor({ value, onChange, readOnly = false }: ReadingEditorProps) {
+  const progress = getReadingProgress(value);
+
+  return (
+    <div className="space-y-2 sm:space-y-3">
+      <div className="flex flex-wrap gap-1.5 sm:gap-2">
+        {(Object.entries(READING_STATUS_LABELS) as [ReadingStatus, string][]).map(([status, label]) => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => onChange(withReadingStatus(value, value.readingStatus === status ? undefined : status))}
+            className={`px-3 py-1.5 text-xs sm:text-sm rounded-lg border transition-all ${
+              value.readingStatus === status
+                ? 'bg-purple-500/30 text-white border-purple-400/50'
+                : 'bg-white/5 text-gray-300 border-white/10 hover:bg-white/10 hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-400">
+          Začátek čtení
+          <input
+            type="date"
+            value={value.startedAt || ''}
+            onChange={(e) => onChange({ ...value, startedAt: e.target.value || undefined })}
+            className={`${INPUT_CLASS} mt-1`}
+            style={{ fontSize: '16px' }}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Dočteno
+          <input
+            type="date"
+            value={value.finishedAt || ''}
+            min={value.startedAt}
+            onChange={(e) => onChange({ ...value, finishedAt: e.target.value || undefined })}
+            className={`${INPUT_CLASS} mt-1`}
+            style={{ fontSize: '16px' }}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Aktuální strana
+          <input
+            type="number"
+            min="0"
+            max={value.pageCount}
+            inputMode="numeric"
+            value={value.currentPage ?? ''}
+            onChange={(e) => onChange({ ...value, currentPage: parsePage(e.target.value) })}
+            className={`${INPUT_CLASS} mt-1`}
+            style={{ fontSize: '16px' }}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Počet stran
+          <input
+            type="number"
+            min="1"
+            inputMode="numeric"
+            value={value.pageCount ?? ''}
+            onChange={(e) => onChange({ ...value, pageCount: parsePage(e.target.value) })}
+            className={`${INPUT_CLASS} mt-1`}
+            style={{ fontSize: '16px' }}
+          />
+        </label>
+      </div>
+
+      {progress !== undefined && (
+        <div className="flex items-center gap-2">
+          <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-gradient-to-r from-purple-500 to-pink-500" style={{ width: `${progress}%` }} />
+          </div>
+          <span className="text-xs text-gray-300 w-10 text-right">{progress} %</span>
+        </div>
+      )}
+
+      <div className="flex items-center gap-1" role="radiogroup" aria-label="Hodnocení">
+        {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(star => (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={value.rating === star}
+            // Clicking the current rating again clears it
+            onClick={() => onChange({ ...value, rating: value.rating === star ? undefined : star })}
+            className={`text-2xl leading-none transition-all hover:scale-110 ${value.rating && star <= value.rating ? 'text-amber-400' : 'text-gray-600 hover:text-amber-300'}`}
+            title={`${star} z ${MAX_RATING}`}
+          >
+            ★
+          </button>
+        ))}
+        {!value.rating && <span className="ml-2 text-xs text-gray-400">{readOnly ? 'Bez hodnocení' : 'Ohodnoťte knihu'}</span>}
+      </div>
+
+      <textarea
+        value={value.review || ''}
+        onChange={(e) => onChange({ ...value, review: e.target.value })}
+        rows={2}
+        placeholder="Soukromá recenze"
+        className={`${INPUT_CLASS} resize-none`}
+        style={{ fontSize: '16px' }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import type { Book, ReadingStatus } from '../types';
+import { READING_STATUS_LABELS } from '../lib/reading';
+
+interface ReadingFilterProps {
+  books: Book[];
+  selected: ReadingStatus | null;
+  onSelect: (status: ReadingStatus | null) => void;
+}
+
+export function ReadingFilter({ books, selected, onSelect }: ReadingFilterProps) {
+  // Only statuses some book has (plus the selected one, so it can be turned off)
+  const statuses = (Object.keys(READING_STATUS_LABELS) as ReadingStatus[])
+    .map(status => ({ status, count: books.filter(book => book.readingStatus === status).length }))
+    .filter(({ status, count }) => count > 0 || status === selected);
+
+  if (statuses.length === 0) {
+    return <div />;
+  }
+
+  return (
+    <div className="mt-1.5 sm:mt-2 flex flex-wrap gap-1.5 sm:gap-2">
+      {statuses.map(({ status, count }) => {
+        const isSelected = selected === status;
+        return (
+          <button
+            key={status}
+            onClick={() => onSelect(isSelected ? null : status)}
+            className={`px-2 py-1 sm:px-4 sm:py-2 rounded-lg sm:rounded-xl text-xs sm:text-sm font-medium transition-all duration-300 backdrop-blur-sm bg-white/10 text-gray-200 border border-white/20 ${
+              isSelected
+                ? 'ring-2 ring-purple-400/50 shadow-lg shadow-purple-500/30 scale-105 border-2'
+                : 'hover:shadow-md hover:scale-105 hover:border-opacity-50'
+            }`}
+          >
+            {READING_STATUS_LABELS[status]} ({count})
+          </button>
+        );
+      })}
+    </div>
+  );
+}
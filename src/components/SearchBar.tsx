@@ -62,7 +62,8 @@ export function SearchBar({ onSearch }: SearchBarProps) {
               type="text"
               value={query}
               onChange={(e) => setQuery(e.target.value)}
-              placeholder="Vyhledat knihu nebo ISBN"
+              placeholder="Vyhledat knihu, ISBN nebo umístění"
+              title="Hledá v názvu, autorech, tazích, nakladateli, popisu a umístění, bez ohledu na diakritiku a drobné překlepy. Hledání lze zúžit: autor:capek, tag:detektivka, nakladatel:argo, rok:>1990, rok:1990-1999, isbn:978802"
               className="w-full px-2 bg-transparent border-0 focus:outline-none text-white placeholder-gray-400 text-sm sm:text-base"
               style={{
                 fontSize: '16px',
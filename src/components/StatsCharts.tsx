@@ -0,0 +1,95 @@
+import type { ChartPoint } from '../lib/stats';
+
+interface ChartProps {
+  points: ChartPoint[];
+}
+
+/**
+ * Vertical bars, e.g. books read per month; labels under the bars, values above
+ */
+export function ColumnChart({ points }: ChartProps) {
+  const max = Math.max(1, ...points.map(point => point.value));
+  return (
+    <div className="flex items-end gap-1 sm:gap-2 h-40">
+      {points.map(point => (
+        <div key={point.label} className="flex-1 min-w-0 h-full flex flex-col items-center justify-end gap-1">
+          <span className="text-[10px] sm:text-xs text-gray-300">{point.value > 0 ? point.value : ''}</span>
+          <div
+            className="w-full rounded-t-md bg-gradient-to-t from-purple-600 to-pink-500 transition-all duration-500"
+            style={{ height: `${(point.value / max) * 100}%`, minHeight: point.value > 0 ? '4px' : '1px' }}
+            title={`${point.label}: ${point.value}`}
+          />
+          <span className="text-[10px] sm:text-xs text-gray-400 truncate max-w-full">{point.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Horizontal bars with labels, for rankings such as top authors
+ */
+export function BarList({ points }: ChartProps) {
+  const max = Math.max(1, ...points.map(point => point.value));
+  return (
+    <ul className="space-y-1.5">
+      {points.map(point => (
+        <li key={point.label} className="text-xs sm:text-sm">
+          <div className="flex justify-between gap-2 mb-0.5">
+            <span className="text-gray-200 truncate">{point.label}</span>
+            <span className="text-gray-400 flex-shrink-0">{point.value}</span>
+          </div>
+          <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-purple-500 to-pink-500 rounded-full"
+              style={{ width: `${(point.value / max) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+/**
+ * Filled line of a growing total, e.g. books in the collection over time
+ */
+export function GrowthChart({ points }: ChartProps) {
+  if (points.length === 0) return null;
+  const max = Math.max(1, ...points.map(point => point.value));
+  // A single month is drawn as a flat line across the chart
+  const step = points.length > 1 ? WIDTH / (points.length - 1) : WIDTH;
+  const coordinates = (points.length > 1 ? points : [points[0], points[0]]).map((point, i) =>
+    `${(i * step).toFixed(1)},${(HEIGHT - (point.value / max) * HEIGHT).toFixed(1)}`
+  );
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-40">
+        <defs>
+          <linearGradient id="growth-fill" x1="0" y1="0" x2="0" y2="1">
+            <stop offset="0%" stopColor="rgb(168 85 247)" stopOpacity="0.5" />
+            <stop offset="100%" stopColor="rgb(168 85 247)" stopOpacity="0" />
+          </linearGradient>
+        </defs>
+        <polygon points={`0,${HEIGHT} ${coordinates.join(' ')} ${WIDTH},${HEIGHT}`} fill="url(#growth-fill)" />
+        <polyline
+          points={coordinates.join(' ')}
+          fill="none"
+          stroke="rgb(236 72 153)"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-[10px] sm:text-xs text-gray-400 mt-1">
+        <span>{first.label} ({first.value})</span>
+        <span>{last.label} ({last.value})</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import type { Book } from '../types';
+import { resolveConflict, syncNow } from '../lib/sync';
+import type { ConflictChoice, SyncStatus } from '../lib/sync';
+import type { OutboxEntry } from '../lib/localDb';
+
+interface SyncIndicatorProps {
+  status: SyncStatus;
+}
+
+// Fields compared when showing what differs between the two versions of a book
+const COMPARED_FIELDS: { key: keyof Book; label: string }[] = [
+  { key: 'title', label: 'Název' },
+  { key: 'authors', label: 'Autoři' },
+  { key: 'publisher', label: 'Nakladatel' },
+  { key: 'publishedYear', label: 'Rok vydání' },
+  { key: 'description', label: 'Popis' },
+  { key: 'tags', label: 'Tagy' },
+  { key: 'imageUrl', label: 'Obrázek' },
+];
+
+// "1 změna čeká", "3 změny čekají", "5 změn čeká"
+function pendingLabel(count: number): string {
+  if (count === 1) return '1 změna čeká';
+  if (count < 5) return `${count} změny čekají`;
+  return `${count} změn čeká`;
+}
+
+function conflictLabel(count: number): string {
+  return `${count} ${count === 1 ? 'konflikt' : count < 5 ? 'konflikty' : 'konfliktů'}`;
+}
+
+function formatTime(iso: string | undefined): string {
+  return iso ? new Date(iso).toLocaleString('cs-CZ') : '';
+}
+
+function differingFields(local: Book | undefined, remote: Book | null): string[] {
+  if (!local || !remote) return [];
+  return COMPARED_FIELDS
+    .filter(({ key }) => JSON.stringify(local[key] ?? null) !== JSON.stringify(remote[key] ?? null))
+    .map(({ label }) => label);
+}
+
+function ConflictItem({ entry }: { entry: OutboxEntry }) {
+  const [resolving, setResolving] = useState(false);
+  const remote = entry.conflict?.remote ?? null;
+  const title = entry.book?.title || remote?.title || entry.bookId;
+  const fields = differingFields(entry.book, remote);
+
+  const handleResolve = async (keep: ConflictChoice) => {
+    setResolving(true);
+    try {
+      await resolveConflict(entry.bookId, keep);
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      alert('Konflikt se nepodařilo vyřešit: ' + (error instanceof Error ? error.message : String(error)));
+      setResolving(false);
+    }
+  };
+
+  return (
+    <li className="bg-white/5 border border-white/10 rounded-xl p-3 sm:p-4">
+      <p className="text-sm sm:text-base font-semibold text-white">{title}</p>
+      <div className="grid grid-cols-2 gap-2 mt-2 text-xs text-gray-400">
+        <div>
+          <p className="text-gray-300">Toto zařízení</p>
+          <p>{entry.op === 'delete' ? 'Smazáno' : `Upraveno ${formatTime(entry.book?.updatedAt)}`}</p>
+        </div>
+        <div>
+          <p className="text-gray-300">Server</p>
+          <p>{remote ? `Upraveno ${formatTime(remote.updatedAt)}` : 'Smazáno'}</p>
+        </div>
+      </div>
+      {fields.length > 0 && (
+        <p className="mt-2 text-xs text-amber-300">Liší se: {fields.join(', ')}</p>
+      )}
+      <div className="flex gap-2 mt-3">
+        <button
+          type="button"
+          onClick={() => handleResolve('local')}
+          disabled={resolving}
+          className="flex-1 px-3 py-2 text-xs sm:text-sm font-medium bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg hover:from-purple-500 hover:to-pink-500 transition-all duration-300 disabled:opacity-50"
+        >
+          Ponechat moji verzi
+        </button>
+        <button
+          type="button"
+          onClick={() => handleResolve('remote')}
+          disabled={resolving}
+          className="flex-1 px-3 py-2 text-xs sm:text-sm font-medium border border-white/20 rounded-lg hover:bg-white/10 text-gray-300 hover:text-white transition-all duration-300 disabled:opacity-50"
+        >
+          Ponechat verzi ze serveru
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Compact sync state for the Library header; conflicts open a dialog to resolve them
+ */
+export function SyncIndicator({ status }: SyncIndicatorProps) {
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  // Nothing to sync with without Supabase
+  if (status.state === 'local') return null;
+
+  let label: string;
+  let className: string;
+  switch (status.state) {
+    case 'offline':
+      label = status.pending > 0 ? `Offline · ${pendingLabel(status.pending)}` : 'Offline';
+      className = 'bg-gray-500/20 text-gray-300 border-gray-400/30';
+      break;
+    case 'syncing':
+      label = 'Synchronizace...';
+      className = 'bg-purple-500/20 text-purple-300 border-purple-400/30';
+      break;
+    case 'error':
+      label = status.pending > 0 ? pendingLabel(status.pending) : 'Chyba synchronizace';
+      className = 'bg-amber-500/20 text-amber-300 border-amber-400/30';
+      break;
+    case 'pending':
+      label = pendingLabel(status.pending);
+      className = 'bg-amber-500/20 text-amber-300 border-amber-400/30';
+      break;
+    default:
+      label = 'Synchronizováno';
+      className = 'bg-emerald-500/10 text-emerald-300/80 border-emerald-400/20';
+  }
+
+  const title = status.lastError
+    ? `Poslední chyba: ${status.lastError}`
+    : status.lastSyncedAt ? `Naposledy synchronizováno ${formatTime(status.lastSyncedAt)}` : undefined;
+
+  return (
+    <div className="flex items-center gap-1.5 sm:gap-2 min-w-0">
+      <button
+        type="button"
+        onClick={() => void syncNow()}
+        disabled={status.state === 'syncing' || status.state === 'offline'}
+        title={title}
+        className={`px-2 py-1 sm:px-3 text-[10px] sm:text-xs font-medium rounded-full border whitespace-nowrap truncate transition-all disabled:cursor-default ${className}`}
+      >
+        {label}
+      </button>
+      {status.conflicts.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowConflicts(true)}
+          className="px-2 py-1 sm:px-3 text-[10px] sm:text-xs font-medium rounded-full border whitespace-nowrap bg-red-500/20 text-red-300 border-red-400/30 hover:bg-red-500/30 transition-all"
+        >
+          {conflictLabel(status.conflicts.length)}
+        </button>
+      )}
+
+      {showConflicts && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-2 sm:p-4 animate-in fade-in duration-300">
+          <div className="glass-dark rounded-2xl sm:rounded-3xl max-w-2xl w-full max-h-[85vh] sm:max-h-[90vh] flex flex-col border border-white/20 shadow-2xl">
+            <div className="flex justify-between items-center p-3 sm:p-6 border-b border-white/10 flex-shrink-0">
+              <h2 className="text-lg sm:text-2xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent">Konflikty synchronizace</h2>
+              <button
+                onClick={() => setShowConflicts(false)}
+                className="text-gray-400 hover:text-white transition-colors hover:scale-110 active:scale-95 w-10 h-10 flex items-center justify-center rounded-xl bg-white/5 hover:bg-red-500/20"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="p-3 sm:p-6 overflow-y-auto flex-1 space-y-4">
+              <p className="text-xs sm:text-sm text-gray-400">
+                Tyto knihy byly mezitím změněny i na jiném zařízení. Vyberte, která verze se má zachovat.
+              </p>
+              {status.conflicts.length === 0 ? (
+                <p className="text-sm text-gray-300">Všechny konflikty jsou vyřešené.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {status.conflicts.map(entry => (
+                    <ConflictItem key={entry.bookId} entry={entry} />
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { GROUP_LABELS, SORT_LABELS } from '../lib/sorting';
+import type { BookGroupKey, BookSortKey } from '../lib/sorting';
+
+interface ViewSelectProps {
+  sort: BookSortKey;
+  group: BookGroupKey;
+  // Search results are ordered by relevance, so the sort order doesn't apply
+  searching?: boolean;
+  onSortChange: (sort: BookSortKey) => void;
+  onGroupChange: (group: BookGroupKey) => void;
+}
+
+const SELECT_CLASS = 'px-2 py-1 sm:py-1.5 bg-white/5 border border-white/20 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50';
+
+/**
+ * Order and grouping of the books in the Library
+ */
+export function ViewSelect({ sort, group, searching, onSortChange, onGroupChange }: ViewSelectProps) {
+  return (
+    <div className="mt-1.5 sm:mt-2 flex flex-wrap items-center justify-end gap-x-3 gap-y-1.5 text-xs sm:text-sm text-gray-400 flex-shrink-0">
+      <label className="flex items-center gap-1.5">
+        Řadit:
+        {searching ? (
+          <select value="relevance" disabled className={`${SELECT_CLASS} disabled:opacity-60`} title="Výsledky vyhledávání jsou seřazené podle relevance">
+            <option value="relevance" className="bg-slate-800">Relevance</option>
+          </select>
+        ) : (
+          <select value={sort} onChange={(e) => onSortChange(e.target.value as BookSortKey)} className={SELECT_CLASS}>
+            {(Object.entries(SORT_LABELS) as [BookSortKey, string][]).map(([key, label]) => (
+              <option key={key} value={key} className="bg-slate-800">{label}</option>
+            ))}
+          </select>
+        )}
+      </label>
+      <label className="flex items-center gap-1.5">
+        Seskupit:
+        <select value={group} onChange={(e) => onGroupChange(e.target.value as BookGroupKey)} className={SELECT_CLASS}>
+          {(Object.entries(GROUP_LABELS) as [BookGroupKey, string][]).map(([key, label]) => (
+            <option key={key} value={key} className="bg-slate-800">{label}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import type { Book } from '../types';
+import { BookCard } from './BookCard';
+import { subscribeToViewport } from '../lib/viewport';
+
+interface VirtualBookGridProps {
+  books: Book[];
+  onEdit: (book: Book) => void;
+  expandedImageBookId: string | null;
+  onImageExpand: (id: string) => void;
+  onImageClose: () => void;
+}
+
+// Height of a card (see BookCard) and of one with its cover expanded, until the row is measured
+const CARD_HEIGHT = 152;
+const EXPANDED_CARD_HEIGHT = 300;
+// Rows kept mounted above and below the viewport, so fast scrolling doesn't show empty space
+const OVERSCAN_PX = 600;
+
+interface GridLayout {
+  columns: number;
+  // Space between rows: gap-4, sm:gap-6
+  gap: number;
+}
+
+// Same breakpoints as the sm: and lg: classes of the grid
+function getGridLayout(): GridLayout {
+  const large = window.matchMedia('(min-width: 1024px)').matches;
+  const small = window.matchMedia('(min-width: 640px)').matches;
+  return { columns: large ? 3 : small ? 2 : 1, gap: small ? 24 : 16 };
+}
+
+/**
+ * Book grid that only mounts the rows near the viewport. Rows are laid out against the window's scroll,
+ * so the page keeps scrolling as before and sticky headers above the grid keep working.
+ */
+export function VirtualBookGrid({ books, onEdit, expandedImageBookId, onImageExpand, onImageClose }: VirtualBookGridProps) {
+  const [layout, setLayout] = useState<GridLayout>(getGridLayout);
+  const [range, setRange] = useState({ start: 0, end: Math.ceil(window.innerHeight / CARD_HEIGHT) });
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Measured row heights by the id of the row's first book; rows not mounted yet use the estimate
+  const heightsRef = useRef(new Map<string, number>());
+  const [, setMeasuredVersion] = useState(0);
+
+  const rows: Book[][] = [];
+  for (let i = 0; i < books.length; i += layout.columns) {
+    rows.push(books.slice(i, i + layout.columns));
+  }
+  const rowKey = (row: Book[]) => `${layout.columns}:${row[0].id}`;
+
+  // Top of each row within the grid, and the grid's total height at the end
+  const offsets = [0];
+  for (const row of rows) {
+    const estimate = row.some(book => book.id === expandedImageBookId) ? EXPANDED_CARD_HEIGHT : CARD_HEIGHT;
+    offsets.push(offsets[offsets.length - 1] + (heightsRef.current.get(rowKey(row)) ?? estimate) + layout.gap);
+  }
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+
+  // Pick the rows overlapping the viewport from where the grid currently is on screen.
+  // Reading the position on every update also covers the header shrinking when scrolled.
+  const updateRange = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    const top = -container.getBoundingClientRect().top - OVERSCAN_PX;
+    const bottom = top + window.innerHeight + 2 * OVERSCAN_PX;
+    const rowOffsets = offsetsRef.current;
+    const count = rowOffsets.length - 1;
+    let start = 0;
+    while (start < count - 1 && rowOffsets[start + 1] <= top) start++;
+    let end = start;
+    while (end < count - 1 && rowOffsets[end + 1] < bottom) end++;
+    setRange(current => (current.start === start && current.end === end ? current : { start, end }));
+  };
+
+  // Every group of the library is a grid of its own; they share one scroll and resize listener
+  useEffect(() => subscribeToViewport(({ resized }) => {
+    if (resized) {
+      setLayout(current => {
+        const next = getGridLayout();
+        return next.columns === current.columns && next.gap === current.gap ? current : next;
+      });
+    }
+    updateRange();
+  }), []);
+
+  // Row heights or the list changed: the visible rows may be different ones now
+  useLayoutEffect(updateRange);
+
+  const start = Math.min(range.start, Math.max(rows.length - 1, 0));
+  const end = Math.min(range.end, rows.length - 1);
+  const total = offsets[rows.length];
+  // Rows are keyed, so the observed elements only change when different rows are mounted
+  const mountedRowKeys = rows.slice(start, end + 1).map(rowKey).join(' ');
+
+  // Remember the real height of mounted rows (longer titles, tags, an expanded cover)
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => {
+      let changed = false;
+      for (const entry of entries) {
+        const element = entry.target as HTMLElement;
+        const key = element.dataset.rowKey!;
+        if (heightsRef.current.get(key) !== element.offsetHeight) {
+          heightsRef.current.set(key, element.offsetHeight);
+          changed = true;
+        }
+      }
+      if (changed) setMeasuredVersion(version => version + 1);
+    });
+    container.querySelectorAll<HTMLElement>('[data-row-key]').forEach(row => observer.observe(row));
+    return () => observer.disconnect();
+  }, [mountedRowKeys]);
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        paddingTop: offsets[start],
+        // The gap after the last row isn't part of the grid
+        paddingBottom: Math.max(total - offsets[end + 1], layout.gap) - layout.gap,
+      }}
+    >
+      {rows.slice(start, end + 1).map((row, index) => (
+        <div
+          key={rowKey(row)}
+          data-row-key={rowKey(row)}
+          className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6"
+          style={{ marginBottom: start + index < rows.length - 1 ? layout.gap : 0 }}
+        >
+          {row.map(book => (
+            <BookCard
+              key={book.id}
+              book={book}
+              onEdit={onEdit}
+              isImageExpanded={expandedImageBookId === book.id}
+              onImageExpand={() => onImageExpand(book.id)}
+              onImageClose={onImageClose}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+function requireSupabase() {
+  if (!supabase) throw new Error('Supabase is not configured');
+  return supabase;
+}
+
+/**
+ * The signed-in user's session, or null. Supabase restores it from localStorage on start
+ * and picks it up from the URL after a magic link.
+ */
+export async function getSession(): Promise<Session | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase.auth.getSession();
+  if (error) {
+    console.error('Error reading auth session:', error);
+  }
+  return data.session;
+}
+
+export async function getCurrentUserId(): Promise<string | null> {
+  return (await getSession())?.user.id ?? null;
+}
+
+/**
+ * Id of the signed-in user; throws when nobody is signed in
+ */
+export async function requireUserId(): Promise<string> {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error('Not signed in');
+  return userId;
+}
+
+/**
+ * Get notified when the user signs in or out (or the session is refreshed).
+ * Returns the unsubscribe function.
+ */
+export function subscribeToAuth(listener: (session: Session | null) => void): () => void {
+  if (!supabase) return () => {};
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => listener(session));
+  return () => data.subscription.unsubscribe();
+}
+
+/**
+ * Email a sign-in link; the account is created on first use
+ */
+export async function sendMagicLink(email: string): Promise<void> {
+  const { error } = await requireSupabase().auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin },
+  });
+  if (error) throw new Error(error.message);
+}
+
+export async function signInWithPassword(email: string, password: string): Promise<void> {
+  const { error } = await requireSupabase().auth.signInWithPassword({ email, password });
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Create an account with a password. Returns false when the email address
+ * has to be confirmed before signing in.
+ */
+export async function signUpWithPassword(email: string, password: string): Promise<boolean> {
+  const { data, error } = await requireSupabase().auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo: window.location.origin },
+  });
+  if (error) throw new Error(error.message);
+  return !!data.session;
+}
+
+export async function signOut(): Promise<void> {
+  const { error } = await requireSupabase().auth.signOut();
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,53 @@
+// @vitest-environment node
+import { readFileSync } from 'node:fs';
+import { PNG } from 'pngjs';
+import { describe, expect, it } from 'vitest';
+import { decodeISBNFromPixels } from './barcodeImage';
+import type { ImagePixels } from './barcodeImage';
+
+// Rendered EAN-13 barcodes with paper-like noise; the add-on variants carry an EAN-5 price code
+function loadFixture(name: string): ImagePixels {
+  const png = PNG.sync.read(readFileSync(new URL(`./fixtures/barcodes/${name}`, import.meta.url)));
+  return { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height };
+}
+
+describe('decodeISBNFromPixels', () => {
+  it('decodes an ISBN barcode without an add-on', () => {
+    expect(decodeISBNFromPixels(loadFixture('ean13.png'))).toEqual({
+      type: 'isbn',
+      isbn13: '9788025747674',
+      isbn10: '8025747670',
+      text: '9788025747674',
+      addOn: undefined,
+    });
+  });
+
+  it('reads the EAN-5 add-on', () => {
+    const decoded = decodeISBNFromPixels(loadFixture('ean13-addon.png'));
+    expect(decoded?.isbn13).toBe('9788025747674');
+    expect(decoded?.addOn).toBe('51299');
+  });
+
+  it('finds a barcode rotated by 90°', () => {
+    const decoded = decodeISBNFromPixels(loadFixture('ean13-addon-rotated.png'));
+    expect(decoded?.isbn13).toBe('9788025747674');
+    expect(decoded?.addOn).toBe('90000');
+  });
+
+  it('reads the add-on of an upside-down barcode', () => {
+    const decoded = decodeISBNFromPixels(loadFixture('ean13-addon-upside-down.png'));
+    expect(decoded?.isbn13).toBe('9788025747674');
+    expect(decoded?.addOn).toBe('51299');
+  });
+
+  it('ignores EAN-13 codes that are not ISBNs', () => {
+    expect(decodeISBNFromPixels(loadFixture('ean13-not-isbn.png'))).toBeNull();
+  });
+
+  it('returns null for an image without a barcode', () => {
+    const width = 120;
+    const height = 80;
+    const blank = { data: new Uint8ClampedArray(width * height * 4).fill(255), width, height };
+    expect(decodeISBNFromPixels(blank)).toBeNull();
+  });
+});
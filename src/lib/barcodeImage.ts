@@ -0,0 +1,218 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  BitArray,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  RGBLuminanceSource,
+} from '@zxing/library';
+import { validateISBN } from './isbn';
+import type { ParsedISBN } from './isbn';
+
+/**
+ * RGBA pixels, the same shape as the browser's ImageData (so fixtures can be plain objects)
+ */
+export interface ImagePixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface DecodedISBN extends ParsedISBN {
+  // Text of the barcode as read
+  text: string;
+  // EAN-5 add-on printed right of the main code (usually the price, e.g. "90000" for none)
+  addOn?: string;
+}
+
+// Photos are scaled down to this width before decoding; smaller sizes are tried if that fails
+const DECODE_WIDTHS = [1600, 800];
+
+const hints = new Map<DecodeHintType, unknown>([
+  [DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.EAN_13]],
+  [DecodeHintType.TRY_HARDER, true],
+]);
+
+// Bar/space widths (in modules) of each digit in L (odd parity) encoding, starting with a space;
+// G (even parity) digits are the same widths reversed
+const L_DIGIT_WIDTHS = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2],
+];
+const G_DIGIT_WIDTHS = L_DIGIT_WIDTHS.map(widths => [...widths].reverse());
+
+// EAN-5 parity of the five digits, indexed by the add-on checksum
+const ADD_ON_PARITY = ['GGLLL', 'GLGLL', 'GLLGL', 'GLLLG', 'LGGLL', 'LLGGL', 'LLLGG', 'LGLGL', 'LGLLG', 'LLGLG'];
+
+// Start guard (bar, space, double bar), then 5 digits of 4 runs separated by a space and a bar
+const ADD_ON_RUNS = 3 + 5 * 4 + 4 * 2;
+const ADD_ON_MODULES = 4 + 5 * 7 + 4 * 2;
+
+// Highest average deviation from the ideal widths (in modules) still accepted as a digit
+const MAX_DIGIT_VARIANCE = 0.4;
+
+/**
+ * Widths of the alternating bar/space runs starting at `start` (which should be a bar)
+ */
+function readRuns(row: BitArray, start: number, count: number): number[] | null {
+  const runs: number[] = [];
+  let x = start;
+  let isBar = true;
+  while (runs.length < count) {
+    const next = isBar ? row.getNextUnset(x) : row.getNextSet(x);
+    if (next >= row.getSize()) return null;
+    runs.push(next - x);
+    x = next;
+    isBar = !isBar;
+  }
+  return runs;
+}
+
+function matchDigit(runs: number[], moduleWidth: number): { digit: number; parity: 'L' | 'G' } | null {
+  let best: { digit: number; parity: 'L' | 'G' } | null = null;
+  let bestVariance = MAX_DIGIT_VARIANCE;
+  for (const [parity, patterns] of [['L', L_DIGIT_WIDTHS], ['G', G_DIGIT_WIDTHS]] as const) {
+    for (let digit = 0; digit < 10; digit++) {
+      const widths = patterns[digit];
+      const variance = widths.reduce((sum, width, i) => sum + Math.abs(runs[i] / moduleWidth - width), 0) / 4;
+      if (variance <= bestVariance) {
+        best = { digit, parity };
+        bestVariance = variance;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Read the EAN-5 add-on following the main barcode on a row. zxing detects the add-on
+ * but loses its digits, so it is decoded here.
+ * @param mainEnd - x coordinate inside the main barcode's end guard
+ */
+export function decodeAddOn(row: BitArray, mainEnd: number): string | null {
+  // Skip the rest of the end guard and the quiet zone
+  const guardEnd = row.getNextUnset(row.getNextSet(mainEnd));
+  const start = row.getNextSet(guardEnd);
+  const runs = readRuns(row, start, ADD_ON_RUNS);
+  if (!runs) return null;
+
+  const moduleWidth = runs.reduce((sum, run) => sum + run, 0) / ADD_ON_MODULES;
+  // The quiet zone before the add-on is 7-12 modules; much wider means the runs belong to something else
+  if ((start - guardEnd) / moduleWidth > 20) return null;
+
+  let digits = '';
+  let parity = '';
+  for (let i = 0; i < 5; i++) {
+    const offset = 3 + i * 6;
+    const match = matchDigit(runs.slice(offset, offset + 4), moduleWidth);
+    if (!match) return null;
+    digits += match.digit;
+    parity += match.parity;
+  }
+
+  const checksum = ((+digits[0] + +digits[2] + +digits[4]) * 3 + (+digits[1] + +digits[3]) * 9) % 10;
+  return ADD_ON_PARITY[checksum] === parity ? digits : null;
+}
+
+/**
+ * Grayscale with the usual luma weights
+ */
+function toLuminance({ data, width, height }: ImagePixels): Uint8ClampedArray {
+  const luminance = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    const offset = i * 4;
+    luminance[i] = (data[offset] * 299 + data[offset + 1] * 587 + data[offset + 2] * 114) / 1000;
+  }
+  return luminance;
+}
+
+// Rotate 90° clockwise, for barcodes photographed on a book lying sideways
+function rotateLuminance(luminance: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray {
+  const rotated = new Uint8ClampedArray(luminance.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      rotated[x * height + (height - 1 - y)] = luminance[y * width + x];
+    }
+  }
+  return rotated;
+}
+
+function decodeLuminance(luminance: Uint8ClampedArray, width: number, height: number): DecodedISBN | null {
+  const reader = new MultiFormatReader();
+  try {
+    const bitmap = new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(luminance, width, height)));
+    const result = reader.decode(bitmap, hints);
+    const text = result.getText();
+    const parsed = validateISBN(text);
+    // EAN-13 barcodes that aren't books (groceries, etc.) are ignored
+    if (!parsed.valid) return null;
+
+    // The first two result points are the middle of the start and end guards on the decoded row
+    const [left, right] = result.getResultPoints();
+    const row = bitmap.getBlackRow(Math.round(left.getY()), new BitArray(width));
+    let mainEnd = Math.round(right.getX());
+    if (mainEnd < left.getX()) {
+      // Read right to left (upside-down photo), so the add-on is on the left
+      row.reverse();
+      mainEnd = width - 1 - mainEnd;
+    }
+
+    const { type, isbn13, isbn10 } = parsed;
+    return { type, isbn13, isbn10, text, addOn: decodeAddOn(row, mainEnd) ?? undefined };
+  } catch {
+    // NotFoundException, ChecksumException or FormatException: no readable barcode
+    return null;
+  }
+}
+
+/**
+ * Find an ISBN/ISMN barcode (EAN-13, with an optional EAN-5 add-on) in an image.
+ * Pure function of the pixels, so it works with decoded fixture images outside the browser.
+ */
+export function decodeISBNFromPixels(pixels: ImagePixels): DecodedISBN | null {
+  const { width, height } = pixels;
+  const luminance = toLuminance(pixels);
+  return decodeLuminance(luminance, width, height)
+    ?? decodeLuminance(rotateLuminance(luminance, width, height), height, width);
+}
+
+async function loadImage(file: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Decode an ISBN barcode from an uploaded or captured photo
+ */
+export async function decodeISBNFromFile(file: Blob): Promise<DecodedISBN | null> {
+  const image = await loadImage(file);
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  for (const maxWidth of DECODE_WIDTHS) {
+    const scale = Math.min(1, maxWidth / image.naturalWidth);
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const decoded = decodeISBNFromPixels(context.getImageData(0, 0, canvas.width, canvas.height));
+    if (decoded) {
+      console.log('Decoded barcode from image:', decoded.text, 'add-on:', decoded.addOn, 'at width', canvas.width);
+      return decoded;
+    }
+    // Already tried at full size
+    if (scale === 1) break;
+  }
+  return null;
+}
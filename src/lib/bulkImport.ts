@@ -0,0 +1,104 @@
+import type { Book, BookMetadata } from '../types';
+import { compactISBN, parseISBN } from './isbn';
+import { lookupBook, resolveMetadata } from './bookLookup';
+
+export type BulkImportStatus = 'pending' | 'looking-up' | 'found' | 'not-found' | 'duplicate' | 'invalid';
+
+export interface BulkImportRow {
+  // Text as it appeared in the pasted list or file
+  input: string;
+  // Normalized ISBN-13, missing for invalid rows
+  isbn13?: string;
+  status: BulkImportStatus;
+  metadata?: BookMetadata;
+  // Validation message for invalid rows
+  error?: string;
+}
+
+// Separators between ISBNs in pasted text and text/CSV files
+const TOKEN_SEPARATOR = /[\s,;|]+/;
+
+/**
+ * Split pasted text or a text/CSV file into rows, one per distinct ISBN.
+ * Spreadsheet quoting like ="9788025626955" is stripped, tokens without digits (e.g. CSV headers) are skipped,
+ * repeats within the list are dropped and ISBNs already in the library are marked as duplicates.
+ */
+export function parseBulkInput(text: string, existingBooks: Book[]): BulkImportRow[] {
+  const existing = new Set(existingBooks.map(book => compactISBN(book.isbn13)));
+  const seen = new Set<string>();
+  const rows: BulkImportRow[] = [];
+
+  for (const rawToken of text.split(TOKEN_SEPARATOR)) {
+    const token = rawToken.replace(/^=?["']*|["']*$/g, '').trim();
+    if (!/\d/.test(token)) continue;
+
+    try {
+      const { isbn13 } = parseISBN(token);
+      if (seen.has(isbn13)) continue;
+      seen.add(isbn13);
+      rows.push({ input: token, isbn13, status: existing.has(isbn13) ? 'duplicate' : 'pending' });
+    } catch (error) {
+      rows.push({ input: token, status: 'invalid', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Look up one row; lookup errors count as not found
+ */
+export async function lookupBulkRow(row: BulkImportRow): Promise<BulkImportRow> {
+  try {
+    const metadata = await lookupBook(row.isbn13!);
+    return metadata
+      ? { ...row, status: 'found', metadata: resolveMetadata(metadata, {}) }
+      : { ...row, status: 'not-found' };
+  } catch (error) {
+    console.error('Bulk lookup failed for', row.isbn13, error);
+    return { ...row, status: 'not-found' };
+  }
+}
+
+export interface LookupQueueOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Run `lookup` on the pending rows a few at a time, reporting each row as it starts and finishes.
+ * Stops starting new lookups once the signal is aborted.
+ */
+export async function runLookupQueue<Row extends { status: string }>(
+  rows: Row[],
+  lookup: (row: Row) => Promise<Row>,
+  onRowUpdate: (index: number, row: Row) => void,
+  options: LookupQueueOptions = {},
+): Promise<void> {
+  const { concurrency = 2, signal } = options;
+  const pending = rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => row.status === 'pending');
+  let next = 0;
+
+  const worker = async () => {
+    while (next < pending.length && !signal?.aborted) {
+      const { row, index } = pending[next++];
+      onRowUpdate(index, { ...row, status: 'looking-up' });
+      onRowUpdate(index, await lookup(row));
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+}
+
+/**
+ * Look up pending rows a few at a time, reporting each finished row
+ */
+export function lookupBulkRows(
+  rows: BulkImportRow[],
+  onRowUpdate: (index: number, row: BulkImportRow) => void,
+  options: LookupQueueOptions = {},
+): Promise<void> {
+  return runLookupQueue(rows, lookupBulkRow, onRowUpdate, options);
+}
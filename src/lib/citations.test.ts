@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { Book } from '../types';
+import { booksToBibtex, booksToCslJson, booksToRis, invertName, splitName } from './citations';
+
+const book: Book = {
+  id: 'b1',
+  isbn13: '9788000012345',
+  title: 'Válka s mloky',
+  authors: ['Karel Čapek'],
+  publisher: 'Albatros',
+  publishedYear: 2019,
+  edition: 'Vydání třetí',
+  language: 'cze',
+  subjects: ['satirické romány'],
+  tags: ['klasika'],
+  description: 'Satirický román\no mlocích.',
+  imageUrl: 'https://example.com/cover.jpg',
+  createdAt: '2024-03-01T10:00:00.000Z',
+  updatedAt: '2024-03-01T10:00:00.000Z',
+};
+
+describe('splitName', () => {
+  it('splits natural and inverted names', () => {
+    expect(splitName('Karel Čapek')).toEqual({ family: 'Čapek', given: 'Karel' });
+    expect(splitName('Čapek, Karel')).toEqual({ family: 'Čapek', given: 'Karel' });
+    expect(splitName('Homér')).toEqual({ family: 'Homér' });
+    expect(invertName('Terry Pratchett')).toBe('Pratchett, Terry');
+  });
+});
+
+describe('booksToBibtex', () => {
+  it('writes a @book entry', () => {
+    expect(booksToBibtex([book])).toBe(
+      '@book{capek2019valka,\n' +
+      '  title = {Válka s mloky},\n' +
+      '  author = {Čapek, Karel},\n' +
+      '  publisher = {Albatros},\n' +
+      '  year = {2019},\n' +
+      '  edition = {Vydání třetí},\n' +
+      '  isbn = {9788000012345},\n' +
+      '  language = {cze},\n' +
+      '  abstract = {Satirický román\no mlocích.},\n' +
+      '  keywords = {klasika, satirické romány}\n' +
+      '}\n',
+    );
+  });
+
+  it('escapes special characters and keeps citation keys unique', () => {
+    const other = { ...book, id: 'b2', title: 'Válka 50 % & 100 $', description: undefined, subjects: [], tags: [] };
+    const bibtex = booksToBibtex([book, other]);
+    expect(bibtex).toContain('@book{capek2019valka,');
+    expect(bibtex).toContain('@book{capek2019valkaa,');
+    expect(bibtex).toContain('title = {Válka 50 \\% \\& 100 \\$}');
+  });
+});
+
+describe('booksToRis', () => {
+  it('writes a BOOK record without the cover image', () => {
+    expect(booksToRis([book]).split('\r\n')).toEqual([
+      'TY  - BOOK',
+      'TI  - Válka s mloky',
+      'AU  - Čapek, Karel',
+      'PB  - Albatros',
+      'PY  - 2019',
+      'ET  - Vydání třetí',
+      'SN  - 9788000012345',
+      'LA  - cze',
+      'AB  - Satirický román o mlocích.',
+      'KW  - klasika',
+      'KW  - satirické romány',
+      'ER  - ',
+      '',
+    ]);
+  });
+});
+
+describe('booksToCslJson', () => {
+  it('writes CSL-JSON items with split names and BCP 47 languages', () => {
+    expect(JSON.parse(booksToCslJson([book]))).toEqual([{
+      id: '9788000012345',
+      type: 'book',
+      title: 'Válka s mloky',
+      author: [{ family: 'Čapek', given: 'Karel' }],
+      publisher: 'Albatros',
+      issued: { 'date-parts': [[2019]] },
+      edition: 'Vydání třetí',
+      ISBN: '9788000012345',
+      language: 'cs',
+      abstract: 'Satirický román\no mlocích.',
+      keyword: 'klasika, satirické romány',
+    }]);
+  });
+
+  it('leaves out fields the book has no value for', () => {
+    const [item] = JSON.parse(booksToCslJson([{ ...book, authors: [], publishedYear: undefined, tags: [], subjects: [] }]));
+    expect(item).not.toHaveProperty('author');
+    expect(item).not.toHaveProperty('issued');
+    expect(item).not.toHaveProperty('keyword');
+  });
+
+  it('leaves a placeholder ISBN out of every format', () => {
+    const placeholder = { ...book, isbn13: '2001234567893' };
+    expect(booksToBibtex([placeholder])).not.toContain('isbn');
+    expect(booksToRis([placeholder])).not.toContain('SN  -');
+    const [item] = JSON.parse(booksToCslJson([placeholder]));
+    expect(item.id).toBe('b1');
+    expect(item).not.toHaveProperty('ISBN');
+  });
+});
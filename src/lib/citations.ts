@@ -0,0 +1,164 @@
+import type { Book } from '../types';
+import { realISBN } from './isbn';
+import { getSurname } from './sorting';
+
+/**
+ * An author name split for citation formats; names that can't be split keep only the family part
+ */
+export interface PersonName {
+  family: string;
+  given?: string;
+}
+
+/**
+ * "Karel Čapek" or "Čapek, Karel" -> { family: 'Čapek', given: 'Karel' }
+ */
+export function splitName(author: string): PersonName {
+  const name = author.trim();
+  const family = getSurname(name);
+  const given = name.includes(',')
+    ? name.slice(name.indexOf(',') + 1).trim()
+    : name.slice(0, name.length - family.length).trim();
+  return given ? { family, given } : { family };
+}
+
+/**
+ * "Čapek, Karel", the inverted form BibTeX, RIS and MARC expect
+ */
+export function invertName(author: string): string {
+  const { family, given } = splitName(author);
+  return given ? `${family}, ${given}` : family;
+}
+
+// ISO 639-2 (MARC) codes of common languages -> BCP 47 tags used by CSL
+const LANGUAGE_TAGS: Record<string, string> = {
+  cze: 'cs',
+  slo: 'sk',
+  eng: 'en',
+  ger: 'de',
+  fre: 'fr',
+  pol: 'pl',
+  rus: 'ru',
+  spa: 'es',
+  ita: 'it',
+};
+
+function languageTag(language: string): string {
+  return LANGUAGE_TAGS[language] || language;
+}
+
+function keywords(book: Book): string[] {
+  return Array.from(new Set([...(book.tags || []), ...(book.subjects || [])]));
+}
+
+function escapeBibtex(value: string): string {
+  return value
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/([{}&%$#_])/g, '\\$1')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}');
+}
+
+/**
+ * Citation key like "capek1936valka": surname, year and first title word, ASCII only
+ */
+function citationKey(book: Book): string {
+  const ascii = (value: string) => value.normalize('NFD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+  const surname = book.authors?.[0] ? ascii(getSurname(book.authors[0])) : '';
+  const word = (book.title || '').split(/\s+/).map(ascii).find(part => part.length > 2) || '';
+  return `${surname}${book.publishedYear || ''}${word}` || realISBN(book.isbn13) || book.id;
+}
+
+/**
+ * BibTeX @book entries with unique citation keys
+ */
+export function booksToBibtex(books: Book[]): string {
+  const usedKeys = new Map<string, number>();
+
+  return books.map(book => {
+    // Repeated keys get a, b, c... like citation managers do
+    let key = citationKey(book);
+    const count = usedKeys.get(key) || 0;
+    usedKeys.set(key, count + 1);
+    if (count > 0) key += String.fromCharCode(96 + count);
+
+    const fields: Array<[string, string | number | undefined]> = [
+      ['title', book.title],
+      ['author', book.authors?.map(invertName).join(' and ')],
+      ['publisher', book.publisher],
+      ['year', book.publishedYear],
+      ['edition', book.edition],
+      ['isbn', realISBN(book.isbn13)],
+      ['language', book.language],
+      ['abstract', book.description],
+      ['keywords', keywords(book).join(', ')],
+    ];
+    const lines = fields
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([name, value]) => `  ${name} = {${escapeBibtex(String(value))}}`);
+    return `@book{${key},\n${lines.join(',\n')}\n}\n`;
+  }).join('\n');
+}
+
+/**
+ * RIS records (TY BOOK ... ER), as read by EndNote, Zotero and Mendeley
+ */
+export function booksToRis(books: Book[]): string {
+  return books.map(book => {
+    const lines: Array<[string, string | number | undefined]> = [
+      ['TY', 'BOOK'],
+      ['TI', book.title],
+      ...(book.authors || []).map((author): [string, string] => ['AU', invertName(author)]),
+      ['PB', book.publisher],
+      ['PY', book.publishedYear],
+      ['ET', book.edition],
+      ['SN', realISBN(book.isbn13)],
+      ['LA', book.language],
+      ['AB', book.description?.replace(/\s*\n\s*/g, ' ')],
+      ...keywords(book).map((keyword): [string, string] => ['KW', keyword]),
+    ];
+    return lines
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([tag, value]) => `${tag}  - ${value}`)
+      .concat('ER  - ', '')
+      .join('\r\n');
+  }).join('\r\n');
+}
+
+/**
+ * A book as a CSL-JSON item (the format Zotero and citeproc read)
+ */
+export interface CslItem {
+  id: string;
+  type: 'book';
+  title: string;
+  author?: PersonName[];
+  publisher?: string;
+  issued?: { 'date-parts': number[][] };
+  edition?: string;
+  ISBN?: string;
+  language?: string;
+  abstract?: string;
+  keyword?: string;
+}
+
+export function bookToCslItem(book: Book): CslItem {
+  const keywordList = keywords(book);
+  return {
+    id: realISBN(book.isbn13) || book.id,
+    type: 'book',
+    title: book.title,
+    author: book.authors?.length ? book.authors.map(splitName) : undefined,
+    publisher: book.publisher,
+    issued: book.publishedYear ? { 'date-parts': [[book.publishedYear]] } : undefined,
+    edition: book.edition,
+    ISBN: realISBN(book.isbn13),
+    language: book.language ? languageTag(book.language) : undefined,
+    abstract: book.description,
+    keyword: keywordList.length > 0 ? keywordList.join(', ') : undefined,
+  };
+}
+
+export function booksToCslJson(books: Book[]): string {
+  return JSON.stringify(books.map(bookToCslItem), null, 2) + '\n';
+}
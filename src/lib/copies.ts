@@ -0,0 +1,69 @@
+import type { Book, BookCopy, CopyCondition } from '../types';
+
+export const CONDITION_LABELS: Record<CopyCondition, string> = {
+  'new': 'Nová',
+  'like-new': 'Jako nová',
+  'good': 'Dobrý stav',
+  'worn': 'Opotřebovaná',
+  'damaged': 'Poškozená',
+};
+
+export function createCopy(): BookCopy {
+  return { id: crypto.randomUUID() };
+}
+
+/**
+ * Copies with at least one filled-in detail; empty rows left in the editor are dropped
+ */
+export function cleanCopies(copies: BookCopy[]): BookCopy[] | undefined {
+  const cleaned = copies
+    .map(copy => ({
+      id: copy.id,
+      room: copy.room?.trim() || undefined,
+      bookcase: copy.bookcase?.trim() || undefined,
+      shelf: copy.shelf?.trim() || undefined,
+      condition: copy.condition,
+      acquiredAt: copy.acquiredAt || undefined,
+      price: copy.price !== undefined && !isNaN(copy.price) ? copy.price : undefined,
+      notes: copy.notes?.trim() || undefined,
+    }))
+    .filter(copy => Object.entries(copy).some(([key, value]) => key !== 'id' && value !== undefined));
+  return cleaned.length > 0 ? cleaned : undefined;
+}
+
+/**
+ * Where the copy stands, e.g. "Obývák › Knihovna u okna › police 3"
+ */
+export function formatLocation(copy: BookCopy): string {
+  return [copy.room, copy.bookcase, copy.shelf && `police ${copy.shelf}`]
+    .filter(Boolean)
+    .join(' › ');
+}
+
+/**
+ * Location the Library filter groups by: room and bookcase, without the shelf
+ */
+export function getFilterLocation(copy: BookCopy): string | undefined {
+  return [copy.room, copy.bookcase].filter(Boolean).join(' › ') || undefined;
+}
+
+export function getBookFilterLocations(book: Book): string[] {
+  const locations = (book.copies || []).map(getFilterLocation).filter((location): location is string => !!location);
+  return Array.from(new Set(locations));
+}
+
+/**
+ * Locations and notes of the book's copies, searched to answer "where is it?"
+ */
+export function getCopySearchValues(book: Book): string[] {
+  return (book.copies || [])
+    .flatMap(copy => [copy.room, copy.bookcase, copy.shelf, copy.notes])
+    .filter((value): value is string => !!value);
+}
+
+/**
+ * Whether a copy of the book is kept at one of the selected filter locations (any book when none is selected)
+ */
+export function isAtLocations(book: Book, locations: string[]): boolean {
+  return locations.length === 0 || getBookFilterLocations(book).some(location => locations.includes(location));
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { Book } from '../types';
+import { booksToCsv } from './csvExport';
+
+const book: Book = {
+  id: 'b1',
+  isbn13: '9788000012345',
+  title: 'Válka s mloky',
+  authors: ['Karel Čapek'],
+  publisher: 'Albatros',
+  publishedYear: 2019,
+  tags: ['klasika', 'sci-fi'],
+  copies: [{ id: 'c1', room: 'Obývák', bookcase: 'Knihovna', shelf: '2' }],
+  readingStatus: 'read',
+  createdAt: '2024-03-01T10:00:00.000Z',
+  updatedAt: '2024-03-01T10:00:00.000Z',
+};
+
+describe('booksToCsv', () => {
+  it('writes the default columns with a header row', () => {
+    expect(booksToCsv([book])).toBe(
+      'ISBN-13,Název,Autoři,Nakladatel,Rok vydání,Tagy\r\n' +
+      '9788000012345,Válka s mloky,Karel Čapek,Albatros,2019,klasika; sci-fi\r\n',
+    );
+  });
+
+  it('writes the chosen columns in their order', () => {
+    expect(booksToCsv([book], ['readingStatus', 'locations', 'title'])).toBe(
+      'Stav čtení,Umístění,Název\r\n' +
+      'Přečteno,Obývák › Knihovna › police 2,Válka s mloky\r\n',
+    );
+  });
+
+  it('quotes cells with separators, quotes and line breaks', () => {
+    const quoted = { ...book, title: 'Muž, který "sázel" stromy', description: 'První řádek\nDruhý řádek' };
+    expect(booksToCsv([quoted], ['title', 'description'])).toBe(
+      'Název,Popis\r\n' +
+      '"Muž, který ""sázel"" stromy","První řádek\nDruhý řádek"\r\n',
+    );
+  });
+
+  it('keeps cells that look like formulas plain text', () => {
+    const rows = ['=HYPERLINK("http://example.com")', '+420 123', '-1', '@SUM(A1)'].map(title => ({ ...book, title }));
+    expect(booksToCsv(rows, ['title']).split('\r\n').slice(1, -1)).toEqual([
+      '"\'=HYPERLINK(""http://example.com"")"',
+      "'+420 123",
+      "'-1",
+      "'@SUM(A1)",
+    ]);
+  });
+
+  it('leaves missing values empty', () => {
+    expect(booksToCsv([{ ...book, publisher: undefined, tags: undefined }])).toBe(
+      'ISBN-13,Název,Autoři,Nakladatel,Rok vydání,Tagy\r\n' +
+      '9788000012345,Válka s mloky,Karel Čapek,,2019,\r\n',
+    );
+  });
+
+  it('leaves a placeholder ISBN out', () => {
+    expect(booksToCsv([{ ...book, isbn13: '2001234567893' }], ['isbn13', 'title'])).toBe(
+      'ISBN-13,Název\r\n' +
+      ',Válka s mloky\r\n',
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import type { Book } from '../types';
+import { formatLocation } from './copies';
+import { realISBN } from './isbn';
+import { READING_STATUS_LABELS } from './reading';
+
+export type CsvColumnKey =
+  | 'isbn13'
+  | 'isbn10'
+  | 'title'
+  | 'authors'
+  | 'publisher'
+  | 'publishedYear'
+  | 'edition'
+  | 'language'
+  | 'subjects'
+  | 'tags'
+  | 'description'
+  | 'locations'
+  | 'readingStatus'
+  | 'finishedAt'
+  | 'rating'
+  | 'imageUrl'
+  | 'createdAt';
+
+export interface CsvColumn {
+  key: CsvColumnKey;
+  label: string;
+  value: (book: Book) => string | number | undefined;
+}
+
+// Several values in one cell (authors, tags, ...) are joined with this
+const LIST_SEPARATOR = '; ';
+
+export const CSV_COLUMNS: CsvColumn[] = [
+  { key: 'isbn13', label: 'ISBN-13', value: book => realISBN(book.isbn13) },
+  { key: 'isbn10', label: 'ISBN-10', value: book => book.isbn10 },
+  { key: 'title', label: 'Název', value: book => book.title },
+  { key: 'authors', label: 'Autoři', value: book => book.authors?.join(LIST_SEPARATOR) },
+  { key: 'publisher', label: 'Nakladatel', value: book => book.publisher },
+  { key: 'publishedYear', label: 'Rok vydání', value: book => book.publishedYear },
+  { key: 'edition', label: 'Vydání', value: book => book.edition },
+  { key: 'language', label: 'Jazyk', value: book => book.language },
+  { key: 'subjects', label: 'Témata', value: book => book.subjects?.join(LIST_SEPARATOR) },
+  { key: 'tags', label: 'Tagy', value: book => book.tags?.join(LIST_SEPARATOR) },
+  { key: 'description', label: 'Popis', value: book => book.description },
+  {
+    key: 'locations',
+    label: 'Umístění',
+    value: book => book.copies?.map(formatLocation).filter(Boolean).join(LIST_SEPARATOR),
+  },
+  { key: 'readingStatus', label: 'Stav čtení', value: book => book.readingStatus && READING_STATUS_LABELS[book.readingStatus] },
+  { key: 'finishedAt', label: 'Dočteno', value: book => book.finishedAt },
+  { key: 'rating', label: 'Hodnocení', value: book => book.rating },
+  { key: 'imageUrl', label: 'Obálka', value: book => book.imageUrl || book.coverUrl },
+  { key: 'createdAt', label: 'Přidáno', value: book => book.createdAt },
+];
+
+export const DEFAULT_CSV_COLUMNS: CsvColumnKey[] = ['isbn13', 'title', 'authors', 'publisher', 'publishedYear', 'tags'];
+
+/**
+ * Quote a cell when it contains a separator, quote or line break (RFC 4180)
+ */
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Excel and LibreOffice run a cell starting with = + - @ (or a tab/CR before one) as a formula;
+ * a leading apostrophe keeps an imported title or note plain text
+ */
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Books as CSV with a header row; `columns` picks which columns and in what order
+ */
+export function booksToCsv(books: Book[], columns: CsvColumnKey[] = DEFAULT_CSV_COLUMNS): string {
+  const selected = columns
+    .map(key => CSV_COLUMNS.find(column => column.key === key))
+    .filter((column): column is CsvColumn => !!column);
+
+  const lines = [
+    selected.map(column => escapeCsvValue(column.label)).join(','),
+    ...books.map(book => selected.map(column => escapeCsvValue(neutralizeFormula(String(column.value(book) ?? '')))).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
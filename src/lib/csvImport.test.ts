@@ -0,0 +1,196 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Book, BookMetadata } from '../types';
+import { cleanIsbnCell, enrichCsvImportRow, parseCsv, parseCsvImport } from './csvImport';
+import { lookupBook } from './bookLookup';
+
+vi.mock('./bookLookup', () => ({
+  lookupBook: vi.fn(),
+  resolveMetadata: (metadata: BookMetadata) => metadata,
+}));
+
+describe('parseCsv', () => {
+  it('reads quoted cells with separators, quotes and line breaks', () => {
+    const text = '﻿Title,Review\r\n"Muž, který ""sázel"" stromy","První řádek\nDruhý řádek"\r\nBez recenze,\r\n';
+    expect(parseCsv(text)).toEqual([
+      ['Title', 'Review'],
+      ['Muž, který "sázel" stromy', 'První řádek\nDruhý řádek'],
+      ['Bez recenze', ''],
+    ]);
+  });
+
+  it('detects tab-separated files and skips blank lines', () => {
+    expect(parseCsv('Title\tISBN\n\nVálka s mloky\t8025747670')).toEqual([
+      ['Title', 'ISBN'],
+      ['Válka s mloky', '8025747670'],
+    ]);
+  });
+});
+
+describe('cleanIsbnCell', () => {
+  it('reads the Goodreads ="…" form', () => {
+    expect(cleanIsbnCell('="9788025747674"')).toEqual({ isbn13: '9788025747674', isbn10: '8025747670' });
+    expect(cleanIsbnCell('="8025747670"')).toEqual({ isbn13: '9788025747674', isbn10: '8025747670' });
+  });
+
+  it('takes the first valid ISBN of a list', () => {
+    expect(cleanIsbnCell('[0306406153], 0306406152')).toEqual({ isbn13: '9780306406157', isbn10: '0306406152' });
+  });
+
+  it('ignores empty cells and ids that are not ISBNs', () => {
+    expect(cleanIsbnCell('=""')).toBeUndefined();
+    expect(cleanIsbnCell('sg-12345')).toBeUndefined();
+    expect(cleanIsbnCell(undefined)).toBeUndefined();
+  });
+});
+
+const GOODREADS_HEADER = 'Book Id,Title,Author,Additional Authors,ISBN,ISBN13,My Rating,Publisher,Number of Pages,' +
+  'Year Published,Original Publication Year,Date Read,Date Added,Bookshelves,Exclusive Shelf,My Review,Owned Copies';
+
+describe('parseCsvImport', () => {
+  it('maps a Goodreads export', () => {
+    const text = [
+      GOODREADS_HEADER,
+      '1,Válka s mloky,Karel Čapek,,="8025747670",="9788025747674",4,Albatros,264,2019,1936,2020/05/12,2020/01/03,' +
+        '"favorites, read",read,Skvělá<br/>kniha,1',
+      '2,Good Omens,Terry Pratchett,Neil Gaiman,="",="",0,,,,1990,,2021/02/01,"to-read, humor",to-read,,0',
+    ].join('\n');
+    const { source, rows } = parseCsvImport(text, []);
+    expect(source).toBe('goodreads');
+    expect(rows[0]).toEqual({
+      status: 'pending',
+      book: {
+        isbn13: '9788025747674',
+        isbn10: '8025747670',
+        title: 'Válka s mloky',
+        authors: ['Karel Čapek'],
+        publisher: 'Albatros',
+        publishedYear: 2019,
+        pageCount: 264,
+        tags: ['favorites'],
+        readingStatus: 'read',
+        finishedAt: '2020-05-12',
+        rating: 4,
+        review: 'Skvělá\nkniha',
+        copies: [{ id: expect.any(String) }],
+        createdAt: '2020-01-03T00:00:00.000Z',
+      },
+    });
+    // Without an ISBN there is nothing to look up
+    expect(rows[1].status).toBe('ready');
+    expect(rows[1].book).toMatchObject({
+      isbn13: '',
+      authors: ['Terry Pratchett', 'Neil Gaiman'],
+      publishedYear: 1990,
+      tags: ['humor'],
+      readingStatus: 'to-read',
+      rating: undefined,
+      copies: undefined,
+    });
+  });
+
+  it('maps a LibraryThing export', () => {
+    const text = [
+      'Book Id\tTitle\tPrimary Author\tSecondary Author\tSecondary Author Roles\tPublication\tDate\tISBNs\tTags\tCollections\t' +
+        'Rating\tReview\tEntry Date\tDate Started\tDate Read\tPage Count\tCopies',
+      '7\tDobrá znamení\tPratchett, Terry\tGaiman, Neil\t\tTalpress (2008), Edition: 3, 400 pages\t2008\t[0306406152]\t' +
+        'humor, fantasy\tYour library, Currently reading\t5\t\t2021-03-04\t2021-03-05\t\t400\t2',
+    ].join('\n');
+    const { source, rows } = parseCsvImport(text, []);
+    expect(source).toBe('librarything');
+    expect(rows[0].book).toMatchObject({
+      isbn13: '9780306406157',
+      isbn10: '0306406152',
+      title: 'Dobrá znamení',
+      authors: ['Terry Pratchett', 'Neil Gaiman'],
+      publisher: 'Talpress',
+      publishedYear: 2008,
+      pageCount: 400,
+      tags: ['humor', 'fantasy'],
+      readingStatus: 'reading',
+      startedAt: '2021-03-05',
+      rating: 5,
+      createdAt: '2021-03-04T00:00:00.000Z',
+    });
+    expect(rows[0].book.copies).toHaveLength(2);
+  });
+
+  it('maps a StoryGraph export', () => {
+    const text = [
+      'Title,Authors,Contributors,ISBN/UID,Format,Read Status,Date Added,Last Date Read,Dates Read,Read Count,' +
+        'Moods,Pace,Character- or Plot-Driven?,Star Rating,Review,Content Warnings,Content Warning Description,Tags,Owned?',
+      'Krakatit,Karel Čapek,,9788025747674,paperback,read,2022/07/01,2022/08/15,,1,,,,3.5,Dobré,,,"klasika, sci-fi",Yes',
+    ].join('\n');
+    const { source, rows } = parseCsvImport(text, []);
+    expect(source).toBe('storygraph');
+    expect(rows[0].book).toMatchObject({
+      isbn13: '9788025747674',
+      title: 'Krakatit',
+      authors: ['Karel Čapek'],
+      tags: ['klasika', 'sci-fi'],
+      readingStatus: 'read',
+      finishedAt: '2022-08-15',
+      rating: 4,
+      review: 'Dobré',
+      createdAt: '2022-07-01T00:00:00.000Z',
+    });
+    expect(rows[0].book.copies).toHaveLength(1);
+  });
+
+  it('marks duplicates by ISBN or by title and author, and rows without a title as invalid', () => {
+    const existing = [
+      { id: 'b1', isbn13: '9788025747674', title: 'Válka s mloky', authors: ['Karel Čapek'] },
+      { id: 'b2', isbn13: '9780000000002', title: 'Bílá nemoc', authors: ['Karel Čapek'] },
+    ] as Book[];
+    const text = [
+      'Title,Authors,ISBN/UID,Read Status',
+      'Válka s mloky (jiné vydání),Karel Čapek,9788025747674,read',
+      'BÍLÁ  NEMOC,Čapek,,to-read',
+      ',Neznámý autor,9780306406157,read',
+      'Matka,Karel Čapek,,read',
+      'Matka,Karel Čapek,,read',
+    ].join('\n');
+    const { rows } = parseCsvImport(text, existing);
+    expect(rows.map(row => row.status)).toEqual(['duplicate', 'duplicate', 'invalid', 'ready', 'duplicate']);
+    expect(rows[2].error).toBe('Chybí název');
+  });
+
+  it('rejects files from other services', () => {
+    expect(() => parseCsvImport('Název,Autor\nKrakatit,Čapek', [])).toThrow('Soubor se nepodařilo rozpoznat');
+  });
+});
+
+describe('enrichCsvImportRow', () => {
+  const row = {
+    status: 'pending' as const,
+    book: { isbn13: '9788025747674', title: 'Krakatit', authors: ['Karel Čapek'], publisher: 'Albatros' },
+  };
+
+  it('fills in missing catalog fields but keeps what the export says', async () => {
+    vi.mocked(lookupBook).mockResolvedValueOnce({
+      isbn13: '9788025747674',
+      identifierType: 'isbn',
+      title: 'Krakatit: román',
+      authors: ['Čapek, Karel'],
+      publisher: 'Jiný nakladatel',
+      publishedYear: 2016,
+    });
+    expect(await enrichCsvImportRow(row)).toEqual({
+      status: 'ready',
+      enriched: true,
+      book: { ...row.book, identifierType: 'isbn', publishedYear: 2016 },
+    });
+  });
+
+  it("doesn't report a row as enriched when only the identifier type was added", async () => {
+    vi.mocked(lookupBook).mockResolvedValueOnce({ isbn13: '9788025747674', identifierType: 'isbn', title: 'Krakatit' });
+    const result = await enrichCsvImportRow(row);
+    expect(result.enriched).toBe(false);
+    expect(result.book.identifierType).toBe('isbn');
+  });
+
+  it('leaves the row as it was when the lookup fails', async () => {
+    vi.mocked(lookupBook).mockRejectedValueOnce(new Error('offline'));
+    vi.spyOn(console, 'error').mockImplementationOnce(() => {});
+    expect(await enrichCsvImportRow(row)).toEqual({ ...row, status: 'ready' });
+  });
+});
@@ -0,0 +1,380 @@
+import type { Book, BookCopy, ReadingStatus } from '../types';
+import { compactISBN, parseISBN } from './isbn';
+import { lookupBook, resolveMetadata } from './bookLookup';
+import { runLookupQueue } from './bulkImport';
+import type { LookupQueueOptions } from './bulkImport';
+import { createCopy } from './copies';
+import { MAX_RATING } from './reading';
+import { getSurname } from './sorting';
+import { splitName } from './citations';
+import { foldText } from './search';
+
+export type CsvImportSource = 'goodreads' | 'librarything' | 'storygraph';
+
+export const IMPORT_SOURCE_LABELS: Record<CsvImportSource, string> = {
+  goodreads: 'Goodreads',
+  librarything: 'LibraryThing',
+  storygraph: 'StoryGraph',
+};
+
+/**
+ * Book fields read from an export; the id is added when saving, createdAt only when the export has a date added
+ */
+export type ImportedBook = Omit<Book, 'id' | 'createdAt' | 'updatedAt'> & { createdAt?: string };
+
+export type CsvImportStatus = 'pending' | 'looking-up' | 'ready' | 'duplicate' | 'invalid';
+
+export interface CsvImportRow {
+  book: ImportedBook;
+  // pending rows have an ISBN to look up; ready rows can be imported as they are
+  status: CsvImportStatus;
+  // The lookup filled in fields the export didn't have
+  enriched?: boolean;
+  error?: string;
+}
+
+export interface CsvImportResult {
+  source: CsvImportSource;
+  rows: CsvImportRow[];
+}
+
+/**
+ * Split CSV (or tab-separated) text into rows of cells; quoted cells may contain separators, quotes and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = firstLine.split('\t').length > firstLine.split(',').length ? '\t' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+/**
+ * Tell which service produced the export from its header row
+ */
+export function detectImportSource(headers: string[]): CsvImportSource | null {
+  if (headers.includes('Exclusive Shelf') || headers.includes('Bookshelves')) return 'goodreads';
+  if (headers.includes('ISBN/UID') || headers.includes('Read Status')) return 'storygraph';
+  if (headers.includes('Primary Author') || headers.includes('Collections')) return 'librarything';
+  return null;
+}
+
+type CsvRecord = Record<string, string>;
+
+function list(value: string | undefined, separator = ','): string[] {
+  return (value || '').split(separator).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * ISBN from a cell like ="9788025626955", [0143039431] or a comma-separated list; undefined when none is valid
+ */
+export function cleanIsbnCell(value: string | undefined): { isbn13: string; isbn10?: string } | undefined {
+  for (const candidate of (value || '').split(/[,;\s]+/)) {
+    const token = candidate.replace(/^=?["'[]*|["'\]]*$/g, '');
+    if (!/\d/.test(token)) continue;
+    try {
+      const { isbn13, isbn10 } = parseISBN(token);
+      return { isbn13, isbn10 };
+    } catch {
+      // Not an ISBN (StoryGraph uses its own ids for books without one)
+    }
+  }
+  return undefined;
+}
+
+/**
+ * "2019/05/12" or "2019-05-12" -> "2019-05-12"
+ */
+function parseDate(value: string | undefined): string | undefined {
+  const match = (value || '').match(/(\d{4})[/-](\d{1,2})[/-](\d{1,2})/);
+  if (!match) return undefined;
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+}
+
+/**
+ * Date a book was added to the other service, as the timestamp createdAt expects
+ */
+function parseAddedAt(value: string | undefined): string | undefined {
+  const date = parseDate(value);
+  return date ? `${date}T00:00:00.000Z` : undefined;
+}
+
+function parseYear(value: string | undefined): number | undefined {
+  const match = (value || '').match(/\d{4}/);
+  return match ? parseInt(match[0]) : undefined;
+}
+
+function parsePositive(value: string | undefined): number | undefined {
+  const number = parseInt(value || '');
+  return number > 0 ? number : undefined;
+}
+
+/**
+ * Half stars are rounded; 0 means not rated
+ */
+function parseRating(value: string | undefined): number | undefined {
+  const rating = Math.round(parseFloat(value || ''));
+  return rating > 0 ? Math.min(rating, MAX_RATING) : undefined;
+}
+
+/**
+ * Goodreads reviews keep their <br/> line breaks and simple HTML
+ */
+function htmlToText(value: string | undefined): string | undefined {
+  const text = (value || '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+  return text || undefined;
+}
+
+/**
+ * "Čapek, Karel" -> "Karel Čapek", the way authors are stored
+ */
+function uninvertName(name: string): string {
+  if (!name.includes(',')) return name.trim();
+  const { family, given } = splitName(name);
+  return given ? `${given} ${family}` : family;
+}
+
+function ownedCopies(count: number): BookCopy[] | undefined {
+  return count > 0 ? Array.from({ length: count }, createCopy) : undefined;
+}
+
+// Shelves and collections that set the reading status instead of becoming tags
+const STATUS_SHELVES: Record<string, ReadingStatus> = {
+  'to-read': 'to-read',
+  'currently-reading': 'reading',
+  'read': 'read',
+  'did-not-finish': 'abandoned',
+  'dnf': 'abandoned',
+  'paused': 'abandoned',
+  'to read': 'to-read',
+  'currently reading': 'reading',
+  'read but unowned': 'read',
+};
+
+function statusOf(shelf: string): ReadingStatus | undefined {
+  return STATUS_SHELVES[shelf.toLowerCase()];
+}
+
+function fromGoodreads(record: CsvRecord): ImportedBook {
+  const exclusiveShelf = record['Exclusive Shelf'] || '';
+  const shelves = list(record['Bookshelves']);
+  const readingStatus = statusOf(exclusiveShelf);
+  const tags = shelves.filter(shelf => shelf !== exclusiveShelf && !statusOf(shelf));
+  // A custom exclusive shelf (e.g. "favorites") has no status, so it's kept as a tag
+  if (exclusiveShelf && !readingStatus && !tags.includes(exclusiveShelf)) tags.unshift(exclusiveShelf);
+
+  return {
+    ...(cleanIsbnCell(record['ISBN13']) || cleanIsbnCell(record['ISBN']) || { isbn13: '' }),
+    title: record['Title']?.trim() || '',
+    authors: [record['Author']?.trim(), ...list(record['Additional Authors'])].filter((name): name is string => !!name),
+    publisher: record['Publisher']?.trim() || undefined,
+    publishedYear: parseYear(record['Year Published']) || parseYear(record['Original Publication Year']),
+    pageCount: parsePositive(record['Number of Pages']),
+    tags: tags.length > 0 ? tags : undefined,
+    readingStatus,
+    finishedAt: readingStatus === 'read' ? parseDate(record['Date Read']) : undefined,
+    rating: parseRating(record['My Rating']),
+    review: htmlToText(record['My Review']),
+    copies: ownedCopies(parsePositive(record['Owned Copies']) || 0),
+    createdAt: parseAddedAt(record['Date Added']),
+  };
+}
+
+function fromLibraryThing(record: CsvRecord): ImportedBook {
+  const collections = list(record['Collections']);
+  // "Your library" and "Wishlist" are LibraryThing's defaults, not worth a tag
+  const tags = [
+    ...list(record['Tags']),
+    ...collections.filter(collection => !statusOf(collection) && !['your library', 'wishlist'].includes(collection.toLowerCase())),
+  ];
+  const finishedAt = parseDate(record['Date Read']);
+  const readingStatus = collections.map(statusOf).find(Boolean) || (finishedAt ? 'read' : undefined);
+  const secondaryRole = (record['Secondary Author Roles'] || '').trim().toLowerCase();
+  const authors = [record['Primary Author'], !secondaryRole || secondaryRole === 'author' ? record['Secondary Author'] : undefined]
+    .filter((name): name is string => !!name?.trim())
+    .map(uninvertName);
+  // "Publication" looks like "Penguin Classics (2006), Edition: Reprint, Paperback, 224 pages"
+  const publisher = (record['Publication'] || '').split(/\s*[(,]/)[0].trim();
+
+  return {
+    ...(cleanIsbnCell(record['ISBN']) || cleanIsbnCell(record['ISBNs']) || { isbn13: '' }),
+    title: record['Title']?.trim() || '',
+    authors: authors.length > 0 ? authors : undefined,
+    publisher: publisher || undefined,
+    publishedYear: parseYear(record['Date']),
+    pageCount: parsePositive(record['Page Count']),
+    tags: tags.length > 0 ? Array.from(new Set(tags)) : undefined,
+    readingStatus,
+    startedAt: parseDate(record['Date Started']),
+    finishedAt,
+    rating: parseRating(record['Rating']),
+    review: htmlToText(record['Review']),
+    copies: ownedCopies(collections.some(collection => collection.toLowerCase() === 'your library') ? parsePositive(record['Copies']) || 1 : 0),
+    createdAt: parseAddedAt(record['Entry Date']) || parseAddedAt(record['Acquired']),
+  };
+}
+
+function fromStoryGraph(record: CsvRecord): ImportedBook {
+  const readingStatus = statusOf(record['Read Status'] || '');
+  const tags = list(record['Tags']);
+
+  return {
+    ...(cleanIsbnCell(record['ISBN/UID']) || { isbn13: '' }),
+    title: record['Title']?.trim() || '',
+    authors: list(record['Authors']),
+    tags: tags.length > 0 ? tags : undefined,
+    readingStatus,
+    finishedAt: readingStatus === 'read' ? parseDate(record['Last Date Read']) : undefined,
+    rating: parseRating(record['Star Rating']),
+    review: htmlToText(record['Review']),
+    copies: ownedCopies((record['Owned?'] || '').toLowerCase() === 'yes' ? 1 : 0),
+    createdAt: parseAddedAt(record['Date Added']),
+  };
+}
+
+const MAPPERS: Record<CsvImportSource, (record: CsvRecord) => ImportedBook> = {
+  goodreads: fromGoodreads,
+  librarything: fromLibraryThing,
+  storygraph: fromStoryGraph,
+};
+
+/**
+ * Title and first author's surname, for spotting books without an ISBN that are already in the library
+ */
+function titleKey(book: Pick<Book, 'title' | 'authors'>): string {
+  const fold = (value: string) => foldText(value).replace(/\s+/g, ' ').trim();
+  return `${fold(book.title || '')}|${book.authors?.[0] ? fold(getSurname(book.authors[0])) : ''}`;
+}
+
+/**
+ * Parse a Goodreads, LibraryThing or StoryGraph export into rows for the preview.
+ * Books already in the library (or earlier in the file) are marked as duplicates, by ISBN or by title and author.
+ */
+export function parseCsvImport(text: string, existingBooks: Book[]): CsvImportResult {
+  const [headers = [], ...lines] = parseCsv(text);
+  const source = detectImportSource(headers.map(header => header.trim()));
+  if (!source) {
+    throw new Error('Soubor se nepodařilo rozpoznat. Nahrajte CSV export z Goodreads, LibraryThing nebo StoryGraph.');
+  }
+
+  const seenIsbns = new Set(existingBooks.map(book => compactISBN(book.isbn13)).filter(Boolean));
+  const seenTitles = new Set(existingBooks.map(titleKey));
+  const rows = lines.map((cells): CsvImportRow => {
+    const record: CsvRecord = {};
+    headers.forEach((header, i) => { record[header.trim()] = cells[i] ?? ''; });
+    const book = MAPPERS[source](record);
+
+    if (!book.title) {
+      return { book, status: 'invalid', error: 'Chybí název' };
+    }
+    const key = titleKey(book);
+    if ((book.isbn13 && seenIsbns.has(book.isbn13)) || seenTitles.has(key)) {
+      return { book, status: 'duplicate' };
+    }
+    if (book.isbn13) seenIsbns.add(book.isbn13);
+    seenTitles.add(key);
+    return { book, status: book.isbn13 ? 'pending' : 'ready' };
+  });
+
+  console.log(`📥 Parsed ${rows.length} rows from a ${IMPORT_SOURCE_LABELS[source]} export`);
+  return { source, rows };
+}
+
+// Catalog fields a lookup may add; what the export says about title and authors wins
+const ENRICHED_FIELDS = [
+  'identifierType',
+  'publisher',
+  'publishedYear',
+  'edition',
+  'language',
+  'subjects',
+  'statementOfResponsibility',
+  'description',
+  'coverUrl',
+] as const;
+
+/**
+ * Fill in fields the export is missing from the catalogs; lookup errors leave the row as it was
+ */
+export async function enrichCsvImportRow(row: CsvImportRow): Promise<CsvImportRow> {
+  try {
+    const found = await lookupBook(row.book.isbn13);
+    if (!found) return { ...row, status: 'ready' };
+
+    const metadata = resolveMetadata(found, {});
+    const book: ImportedBook = { ...row.book, isbn10: row.book.isbn10 || metadata.isbn10 };
+    const provenance = { ...book.provenance };
+    let enriched = false;
+    for (const field of ENRICHED_FIELDS) {
+      if (book[field] === undefined && metadata[field] !== undefined) {
+        Object.assign(book, { [field]: metadata[field] });
+        // Every found book gets its identifier type; only catalog data counts as filled in
+        if (field === 'identifierType') continue;
+        if (metadata.provenance?.[field]) provenance[field] = metadata.provenance[field];
+        enriched = true;
+      }
+    }
+    if (!book.title) book.title = metadata.title;
+    if (!book.authors?.length && metadata.authors?.length) {
+      book.authors = metadata.authors;
+      enriched = true;
+    }
+    if (Object.keys(provenance).length > 0) book.provenance = provenance;
+
+    return { book, status: 'ready', enriched };
+  } catch (error) {
+    console.error('CSV import lookup failed for', row.book.isbn13, error);
+    return { ...row, status: 'ready' };
+  }
+}
+
+/**
+ * Look up the rows that have an ISBN a few at a time, reporting each finished row
+ */
+export function enrichCsvImportRows(
+  rows: CsvImportRow[],
+  onRowUpdate: (index: number, row: CsvImportRow) => void,
+  options: LookupQueueOptions = {},
+): Promise<void> {
+  return runLookupQueue(rows, enrichCsvImportRow, onRowUpdate, options);
+}
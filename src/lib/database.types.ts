@@ -12,54 +12,197 @@ export interface Database {
       books: {
         Row: {
           id: string
+          owner_id: string
+          library_id: string
           isbn13: string
           isbn10: string | null
+          identifier_type: string | null
           title: string
           authors: string[] | null
           publisher: string | null
           published_year: number | null
+          edition: string | null
+          language: string | null
+          subjects: string[] | null
+          statement_of_responsibility: string | null
           description: string | null
           cover_url: string | null
           image_url: string | null
           tags: string[] | null
+          copies: Json | null
+          loans: Json | null
+          reading_status: string | null
+          started_at: string | null
+          finished_at: string | null
+          current_page: number | null
+          page_count: number | null
+          rating: number | null
+          review: string | null
           source_payload: Json | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
+          owner_id?: string
+          library_id: string
           isbn13: string
           isbn10?: string | null
+          identifier_type?: string | null
           title: string
           authors?: string[] | null
           publisher?: string | null
           published_year?: number | null
+          edition?: string | null
+          language?: string | null
+          subjects?: string[] | null
+          statement_of_responsibility?: string | null
           description?: string | null
           cover_url?: string | null
           image_url?: string | null
           tags?: string[] | null
+          copies?: Json | null
+          loans?: Json | null
+          reading_status?: string | null
+          started_at?: string | null
+          finished_at?: string | null
+          current_page?: number | null
+          page_count?: number | null
+          rating?: number | null
+          review?: string | null
           source_payload?: Json | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
+          owner_id?: string
+          library_id?: string
           isbn13?: string
           isbn10?: string | null
+          identifier_type?: string | null
           title?: string
           authors?: string[] | null
           publisher?: string | null
           published_year?: number | null
+          edition?: string | null
+          language?: string | null
+          subjects?: string[] | null
+          statement_of_responsibility?: string | null
           description?: string | null
           cover_url?: string | null
           image_url?: string | null
           tags?: string[] | null
+          copies?: Json | null
+          loans?: Json | null
+          reading_status?: string | null
+          started_at?: string | null
+          finished_at?: string | null
+          current_page?: number | null
+          page_count?: number | null
+          rating?: number | null
+          review?: string | null
           source_payload?: Json | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
+      }
+      libraries: {
+        Row: {
+          id: string
+          name: string
+          created_by: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          created_by?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          created_by?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      library_members: {
+        Row: {
+          library_id: string
+          user_id: string
+          role: string
+          created_at: string
+        }
+        Insert: {
+          library_id: string
+          user_id: string
+          role: string
+          created_at?: string
+        }
+        Update: {
+          library_id?: string
+          user_id?: string
+          role?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      library_invites: {
+        Row: {
+          token: string
+          library_id: string
+          role: string
+          created_by: string
+          created_at: string
+          expires_at: string
+        }
+        Insert: {
+          token?: string
+          library_id: string
+          role: string
+          created_by?: string
+          created_at?: string
+          expires_at?: string
+        }
+        Update: {
+          token?: string
+          library_id?: string
+          role?: string
+          created_by?: string
+          created_at?: string
+          expires_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      // One page of a library's books, see SUPABASE_SETUP.md §11
+      search_books: {
+        Args: {
+          library: string
+          search_query?: string | null
+          search_words?: string | null
+          tag_list?: string[] | null
+          status?: string | null
+          year_from?: number | null
+          year_to?: number | null
+          isbn?: string | null
+          sort?: string
+          after_value?: string | null
+          after_id?: string | null
+          page_size?: number
+        }
+        Returns: {
+          book: Database['public']['Tables']['books']['Row']
+          sort_value: string
+        }[]
       }
     }
   }
 }
-
@@ -0,0 +1,92 @@
+import type { Book } from '../types';
+import { booksToCsv } from './csvExport';
+import type { CsvColumnKey } from './csvExport';
+import { booksToJson } from './jsonExport';
+import { booksToMarcXml } from './marc';
+import { booksToBibtex, booksToCslJson, booksToRis } from './citations';
+
+export type ExportFormatId = 'csv' | 'json' | 'marcxml' | 'bibtex' | 'ris' | 'csl-json';
+
+export interface ExportOptions {
+  // Only used by CSV
+  csvColumns?: CsvColumnKey[];
+}
+
+export interface ExportFormat {
+  id: ExportFormatId;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+  serialize: (books: Book[], options: ExportOptions) => string;
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  {
+    id: 'csv',
+    label: 'CSV',
+    description: 'Tabulka pro Excel nebo Google Sheets, s vybranými sloupci',
+    extension: 'csv',
+    mimeType: 'text/csv',
+    // The byte order mark makes Excel read the file as UTF-8
+    serialize: (books, options) => '\uFEFF' + booksToCsv(books, options.csvColumns),
+  },
+  {
+    id: 'json',
+    label: 'JSON',
+    description: 'Všechna data včetně tagů, obálek, výtisků a výpůjček',
+    extension: 'json',
+    mimeType: 'application/json',
+    serialize: books => booksToJson(books),
+  },
+  {
+    id: 'marcxml',
+    label: 'MARCXML',
+    description: 'Katalogizační záznamy pro knihovní systémy',
+    extension: 'xml',
+    mimeType: 'application/marcxml+xml',
+    serialize: books => booksToMarcXml(books),
+  },
+  {
+    id: 'bibtex',
+    label: 'BibTeX',
+    description: 'Citace pro LaTeX a JabRef',
+    extension: 'bib',
+    mimeType: 'application/x-bibtex',
+    serialize: books => booksToBibtex(books),
+  },
+  {
+    id: 'ris',
+    label: 'RIS',
+    description: 'Citace pro EndNote, Zotero a Mendeley',
+    extension: 'ris',
+    mimeType: 'application/x-research-info-systems',
+    serialize: books => booksToRis(books),
+  },
+  {
+    id: 'csl-json',
+    label: 'CSL-JSON',
+    description: 'Citace pro Zotero a citační styly CSL',
+    extension: 'json',
+    mimeType: 'application/vnd.citationstyles.csl+json',
+    serialize: books => booksToCslJson(books),
+  },
+];
+
+/**
+ * Serialize books and let the browser save them as a file named like "knihovna-2024-05-01.csv"
+ */
+export function downloadExport(books: Book[], format: ExportFormat, options: ExportOptions = {}): void {
+  const content = format.serialize(books, options);
+  const blob = new Blob([content], { type: `${format.mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `knihovna-${new Date().toISOString().slice(0, 10)}${format.id === 'csl-json' ? '-csl' : ''}.${format.extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke later, some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  console.log(`📤 Exported ${books.length} books as ${format.label}`);
+}
@@ -0,0 +1,27 @@
+import type { Book, ReadingStatus } from '../types';
+import { isAtLocations } from './copies';
+import { matchesLoanFilter } from './loans';
+import type { LoanFilterValue } from './loans';
+import type { BookSortKey } from './sorting';
+
+/**
+ * Everything that decides which books the Library shows, and in what order
+ */
+export interface BookFilters {
+  query: string;
+  tags: string[];
+  locations: string[];
+  loans: LoanFilterValue | null;
+  reading: ReadingStatus | null;
+  sort: BookSortKey;
+}
+
+/**
+ * Whether a book passes the tag, location, lending and reading filters (the search query is matched separately)
+ */
+export function matchesFilters(book: Book, filters: BookFilters): boolean {
+  return (filters.tags.length === 0 || !!book.tags?.some(tag => filters.tags.includes(tag))) &&
+    isAtLocations(book, filters.locations) &&
+    matchesLoanFilter(book, filters.loans) &&
+    (!filters.reading || book.readingStatus === filters.reading);
+}
@@ -0,0 +1,226 @@
+/**
+ * Shared HTTP layer for metadata lookups: per-host concurrency limits, timeouts,
+ * and exponential backoff on 429/5xx responses
+ */
+
+// Parallel requests allowed per host; hosts not listed get DEFAULT_HOST_CONCURRENCY
+const HOST_CONCURRENCY: Record<string, number> = {
+  'openlibrary.org': 3,
+  'covers.openlibrary.org': 4,
+  'www.googleapis.com': 4,
+  'aleph.nkp.cz': 2,
+};
+const DEFAULT_HOST_CONCURRENCY = 4;
+
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE = 500;
+const BACKOFF_MAX = 8000;
+
+export interface FetchOptions extends RequestInit {
+  // Per attempt, in ms
+  timeout?: number;
+  // Extra attempts after a 429/5xx response, network error or timeout
+  retries?: number;
+}
+
+export class HttpTimeoutError extends Error {
+  constructor(url: string, timeout: number) {
+    super(`Request timed out after ${timeout} ms: ${url}`);
+    this.name = 'HttpTimeoutError';
+  }
+}
+
+export class HttpStatusError extends Error {
+  status: number;
+
+  constructor(url: string, status: number) {
+    super(`HTTP ${status}: ${url}`);
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
+/**
+ * For lookups: true for a 2xx response and false for 404 (the source has no such record).
+ * Any other status throws HttpStatusError, so a failing source isn't cached as "not found".
+ */
+export function isFoundResponse(response: Response, url: string): boolean {
+  if (response.ok) return true;
+  if (response.status === 404) return false;
+  throw new HttpStatusError(url, response.status);
+}
+
+interface HostQueue {
+  active: number;
+  waiting: (() => void)[];
+}
+
+const hostQueues = new Map<string, HostQueue>();
+
+function getHost(url: string): string {
+  try {
+    return new URL(url, window.location.href).host;
+  } catch {
+    return '';
+  }
+}
+
+async function acquireSlot(host: string): Promise<void> {
+  let queue = hostQueues.get(host);
+  if (!queue) {
+    queue = { active: 0, waiting: [] };
+    hostQueues.set(host, queue);
+  }
+
+  if (queue.active < (HOST_CONCURRENCY[host] ?? DEFAULT_HOST_CONCURRENCY)) {
+    queue.active++;
+    return;
+  }
+  // The slot is handed over by releaseSlot, so active stays the same
+  await new Promise<void>(resolve => queue.waiting.push(resolve));
+}
+
+function releaseSlot(host: string): void {
+  const queue = hostQueues.get(host);
+  if (!queue) return;
+
+  const next = queue.waiting.shift();
+  if (next) {
+    next();
+  } else {
+    queue.active--;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Retry-After in seconds, or exponential backoff with jitter
+function getBackoff(attempt: number, response?: Response): number {
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, BACKOFF_MAX);
+  }
+  return Math.min(BACKOFF_BASE * 2 ** attempt + Math.random() * BACKOFF_BASE, BACKOFF_MAX);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * One attempt with a timeout; aborting the caller's signal aborts the request too
+ */
+async function fetchOnce(url: string, init: RequestInit, timeout: number): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+
+  const callerSignal = init.signal;
+  const onCallerAbort = () => controller.abort();
+  callerSignal?.addEventListener('abort', onCallerAbort);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      throw new HttpTimeoutError(url, timeout);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+/**
+ * fetch() for outbound lookups. Waits for a free slot on the target host, times out each attempt
+ * and retries 429/5xx responses, network errors and timeouts with exponential backoff.
+ * After the last attempt the final response is returned (or its error thrown) as with fetch().
+ */
+export async function fetchWithPolicy(url: string, options: FetchOptions = {}): Promise<Response> {
+  const { timeout = DEFAULT_TIMEOUT, retries = DEFAULT_RETRIES, ...init } = options;
+  const host = getHost(url);
+
+  for (let attempt = 0; ; attempt++) {
+    if (init.signal?.aborted) {
+      throw init.signal.reason ?? new DOMException('Aborted', 'AbortError');
+    }
+
+    await acquireSlot(host);
+    let response: Response | undefined;
+    try {
+      response = await fetchOnce(url, init, timeout);
+    } catch (error) {
+      // A caller abort is final; network errors and timeouts are retried
+      if (init.signal?.aborted || attempt >= retries) {
+        throw error;
+      }
+      console.warn(`Request failed, retrying (${attempt + 1}/${retries}):`, url, error);
+    } finally {
+      releaseSlot(host);
+    }
+
+    if (response) {
+      if (!isRetryableStatus(response.status) || attempt >= retries) {
+        return response;
+      }
+      console.warn(`HTTP ${response.status}, retrying (${attempt + 1}/${retries}):`, url);
+    }
+
+    await sleep(getBackoff(attempt, response));
+  }
+}
+
+/**
+ * Daily request counter persisted in localStorage, for APIs with a hard per-day quota
+ */
+export interface DailyQuota {
+  remaining(): number;
+  // Count one request; false if today's quota is used up
+  tryConsume(): boolean;
+  // Mark today's quota as used up (e.g. after the API reports it is exceeded)
+  exhaust(): void;
+}
+
+/**
+ * @param storageKey - localStorage key for the counter
+ * @param limit - requests allowed per day
+ * @param timeZone - time zone in which the provider resets the quota
+ */
+export function createDailyQuota(storageKey: string, limit: number, timeZone: string = 'UTC'): DailyQuota {
+  const today = () => new Date().toLocaleDateString('en-CA', { timeZone });
+
+  const readCount = (): number => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(storageKey) || 'null');
+      return stored && stored.date === today() ? Number(stored.count) || 0 : 0;
+    } catch {
+      return 0;
+    }
+  };
+
+  const writeCount = (count: number) => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify({ date: today(), count }));
+    } catch {
+      // Private mode or full storage: the request still goes out, only the count isn't kept
+    }
+  };
+
+  return {
+    remaining: () => Math.max(0, limit - readCount()),
+    tryConsume: () => {
+      const count = readCount();
+      if (count >= limit) return false;
+      writeCount(count + 1);
+      return true;
+    },
+    exhaust: () => writeCount(limit),
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { generatePlaceholderISBN, hyphenateISBN, isPlaceholderISBN, ISBNError, normalizeISBN, parseISBN, realISBN, validateISBN } from './isbn';
+
+describe('parseISBN', () => {
+  it('accepts an ISBN-10 with the check digit X', () => {
+    expect(parseISBN('0-8044-2957-x')).toEqual({ type: 'isbn', isbn13: '9780804429573', isbn10: '080442957X' });
+  });
+
+  it('converts an ISBN-10 to ISBN-13', () => {
+    expect(parseISBN('80-257-4767-0')).toEqual({ type: 'isbn', isbn13: '9788025747674', isbn10: '8025747670' });
+  });
+
+  it('gives a 978 ISBN-13 its ISBN-10 but not a 979 one', () => {
+    expect(parseISBN('978-80-257-4767-4').isbn10).toBe('8025747670');
+    expect(parseISBN('9798650123453').isbn10).toBeUndefined();
+  });
+
+  it('recognizes ISMNs, also in the legacy M- form', () => {
+    expect(parseISBN('979-0-2600-0043-8')).toEqual({ type: 'ismn', isbn13: '9790260000438', isbn10: undefined });
+    expect(parseISBN('M-2306-7118-7')).toEqual({ type: 'ismn', isbn13: '9790230671187' });
+  });
+});
+
+describe('validateISBN', () => {
+  it('reports why an ISBN is rejected', () => {
+    expect(validateISBN('9788025747675')).toEqual({ valid: false, reason: 'invalid-check-digit' });
+    expect(validateISBN('8025747671')).toEqual({ valid: false, reason: 'invalid-check-digit' });
+    expect(validateISBN('')).toEqual({ valid: false, reason: 'empty' });
+    expect(validateISBN('80-257-47')).toEqual({ valid: false, reason: 'invalid-length' });
+    expect(validateISBN('80257476X0')).toEqual({ valid: false, reason: 'invalid-characters' });
+    expect(validateISBN('5901234123457')).toEqual({ valid: false, reason: 'not-bookland' });
+  });
+});
+
+describe('normalizeISBN', () => {
+  it('returns the compact ISBN-13', () => {
+    expect(normalizeISBN('0-306-40615-2')).toBe('9780306406157');
+  });
+
+  it('throws an ISBNError with the reason', () => {
+    expect(() => normalizeISBN('978-80-257-4767-5')).toThrow(ISBNError);
+    try {
+      normalizeISBN('978-80-257-4767-5');
+    } catch (error) {
+      expect((error as ISBNError).reason).toBe('invalid-check-digit');
+    }
+  });
+});
+
+describe('hyphenateISBN', () => {
+  it('hyphenates by the registration group and registrant ranges', () => {
+    expect(hyphenateISBN('9788025747674')).toBe('978-80-257-4767-4');
+    expect(hyphenateISBN('8025747670')).toBe('80-257-4767-0');
+    expect(hyphenateISBN('080442957X')).toBe('0-8044-2957-X');
+    expect(hyphenateISBN('9790230671187')).toBe('979-0-2306-7118-7');
+  });
+
+  it('leaves a 979-8 ISBN unhyphenated, its registrant ranges are not known', () => {
+    expect(hyphenateISBN('979-8650123453')).toBe('9798650123453');
+  });
+
+  it('returns invalid input as it was', () => {
+    expect(hyphenateISBN('978-80-257-4767-5')).toBe('978-80-257-4767-5');
+  });
+});
+
+describe('generatePlaceholderISBN', () => {
+  it('generates 13 digits that never pass as an ISBN', () => {
+    const placeholder = generatePlaceholderISBN();
+    expect(placeholder).toMatch(/^200\d{10}$/);
+    expect(validateISBN(placeholder)).toEqual({ valid: false, reason: 'not-bookland' });
+    expect(isPlaceholderISBN(placeholder)).toBe(true);
+    expect(realISBN(placeholder)).toBeUndefined();
+  });
+
+  it('keeps real ISBNs', () => {
+    expect(isPlaceholderISBN('9788025747674')).toBe(false);
+    expect(realISBN('9788025747674')).toBe('9788025747674');
+    expect(realISBN('')).toBeUndefined();
+  });
+});
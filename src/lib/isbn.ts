@@ -1,18 +1,62 @@
+import type { IdentifierType } from '../types';
+
 /**
- * Normalize ISBN to ISBN-13 format
+ * Reasons why an ISBN string was rejected
  */
-export function normalizeISBN(isbn: string): string {
-  // Remove all non-digit characters
-  const cleaned = isbn.replace(/\D/g, '');
-  
-  if (cleaned.length === 10) {
-    // Convert ISBN-10 to ISBN-13
-    return '978' + cleaned.slice(0, 9) + calculateISBN13CheckDigit('978' + cleaned.slice(0, 9));
-  } else if (cleaned.length === 13) {
-    return cleaned;
+export type ISBNErrorReason =
+  | 'empty'
+  | 'invalid-characters'
+  | 'invalid-length'
+  | 'invalid-check-digit'
+  | 'not-bookland';
+
+const ISBN_ERROR_MESSAGES: Record<ISBNErrorReason, string> = {
+  'empty': 'ISBN nebylo zadáno.',
+  'invalid-characters': 'ISBN obsahuje nepovolené znaky. Povoleny jsou číslice, pomlčky a u ISBN-10 koncové X.',
+  'invalid-length': 'Neplatný formát ISBN. Zadejte 10 nebo 13 číslic (s nebo bez pomlček).',
+  'invalid-check-digit': 'Neplatné ISBN – kontrolní číslice nesouhlasí. Zkontrolujte, zda jste ISBN opsali správně.',
+  'not-bookland': 'Toto není ISBN ani ISMN – 13místný kód musí začínat 978 nebo 979.',
+};
+
+/**
+ * Error thrown when an ISBN cannot be parsed. `reason` tells callers why.
+ */
+export class ISBNError extends Error {
+  readonly reason: ISBNErrorReason;
+
+  constructor(reason: ISBNErrorReason) {
+    super(ISBN_ERROR_MESSAGES[reason]);
+    this.name = 'ISBNError';
+    this.reason = reason;
   }
-  
-  throw new Error('Invalid ISBN format');
+}
+
+export interface ParsedISBN {
+  type: IdentifierType;
+  isbn13: string;
+  // Only available for 978-prefixed ISBNs
+  isbn10?: string;
+}
+
+export type ISBNValidationResult =
+  | ({ valid: true } & ParsedISBN)
+  | { valid: false; reason: ISBNErrorReason };
+
+// 979-0 is reserved for ISMN (International Standard Music Number)
+const ISMN_PREFIX = '9790';
+
+/**
+ * Tell an ISMN (979-0) from an ISBN by its 13-digit form
+ */
+export function getIdentifierType(isbn13: string): IdentifierType {
+  return isbn13.startsWith(ISMN_PREFIX) ? 'ismn' : 'isbn';
+}
+
+/**
+ * Strip hyphens and whitespace, uppercase the ISBN-10 'X' check character
+ */
+export function compactISBN(isbn: string): string {
+  return isbn.replace(/[\s\-‐‑–]/g, '').toUpperCase();
 }
 
 function calculateISBN13CheckDigit(isbn: string): string {
@@ -25,6 +69,121 @@ function calculateISBN13CheckDigit(isbn: string): string {
   return checkDigit.toString();
 }
 
+function calculateISBN10CheckDigit(isbn: string): string {
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    sum += parseInt(isbn[i]) * (10 - i);
+  }
+  const checkDigit = (11 - (sum % 11)) % 11;
+  return checkDigit === 10 ? 'X' : checkDigit.toString();
+}
+
+// GS1 restricted-circulation prefix: outside Bookland, so a placeholder never passes as a real ISBN
+const PLACEHOLDER_PREFIX = '200';
+
+/**
+ * Stand-in identifier (200 + 9 random digits + check digit) for a book that has none, so every book in a library
+ * keeps a distinct isbn13. The digits are random rather than time-based, so books saved in one batch differ.
+ */
+export function generatePlaceholderISBN(): string {
+  const base = PLACEHOLDER_PREFIX + Array.from({ length: 9 }, () => Math.floor(Math.random() * 10)).join('');
+  return base + calculateISBN13CheckDigit(base);
+}
+
+/**
+ * Whether an isbn13 is a stand-in from generatePlaceholderISBN. Placeholders are not shown on cards or exported.
+ * Placeholders created before the 200 prefix (978 + random digits) can't be told apart from real ISBNs.
+ */
+export function isPlaceholderISBN(isbn13: string | undefined): boolean {
+  return !!isbn13 && isbn13.length === 13 && isbn13.startsWith(PLACEHOLDER_PREFIX);
+}
+
+/**
+ * The isbn13 for display and export, or undefined when the book has none (empty or a placeholder)
+ */
+export function realISBN(isbn13: string | undefined): string | undefined {
+  return isbn13 && !isPlaceholderISBN(isbn13) ? isbn13 : undefined;
+}
+
+/**
+ * Parse an ISBN-10, ISBN-13 or ISMN (with or without hyphens) and verify its check digit.
+ * Legacy ISMNs written as M-2306-7118-7 are converted to their 979-0 form.
+ * @throws ISBNError when the input is not a valid ISBN or ISMN
+ */
+export function parseISBN(isbn: string): ParsedISBN {
+  let cleaned = compactISBN(isbn);
+
+  if (!cleaned) {
+    throw new ISBNError('empty');
+  }
+
+  if (cleaned.startsWith('M') && cleaned.length === 10) {
+    if (!/^M\d{9}$/.test(cleaned)) {
+      throw new ISBNError('invalid-characters');
+    }
+    cleaned = ISMN_PREFIX + cleaned.slice(1);
+  }
+
+  if (cleaned.length === 10) {
+    if (!/^\d{9}[\dX]$/.test(cleaned)) {
+      throw new ISBNError('invalid-characters');
+    }
+    if (calculateISBN10CheckDigit(cleaned) !== cleaned[9]) {
+      throw new ISBNError('invalid-check-digit');
+    }
+    const base = '978' + cleaned.slice(0, 9);
+    return {
+      type: 'isbn',
+      isbn13: base + calculateISBN13CheckDigit(base),
+      isbn10: cleaned,
+    };
+  }
+
+  if (cleaned.length === 13) {
+    if (!/^\d{13}$/.test(cleaned)) {
+      throw new ISBNError('invalid-characters');
+    }
+    if (calculateISBN13CheckDigit(cleaned) !== cleaned[12]) {
+      throw new ISBNError('invalid-check-digit');
+    }
+    if (!cleaned.startsWith('978') && !cleaned.startsWith('979')) {
+      throw new ISBNError('not-bookland');
+    }
+    return {
+      type: getIdentifierType(cleaned),
+      isbn13: cleaned,
+      isbn10: isbn13To10(cleaned) || undefined,
+    };
+  }
+
+  if (!/^[\dX]+$/.test(cleaned)) {
+    throw new ISBNError('invalid-characters');
+  }
+  throw new ISBNError('invalid-length');
+}
+
+/**
+ * Validate an ISBN without throwing
+ */
+export function validateISBN(isbn: string): ISBNValidationResult {
+  try {
+    return { valid: true, ...parseISBN(isbn) };
+  } catch (error) {
+    if (error instanceof ISBNError) {
+      return { valid: false, reason: error.reason };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Normalize ISBN (or ISMN) to ISBN-13 format
+ * @throws ISBNError when the input is not a valid ISBN or ISMN
+ */
+export function normalizeISBN(isbn: string): string {
+  return parseISBN(isbn).isbn13;
+}
+
 /**
  * Convert ISBN-13 to ISBN-10
  */
@@ -32,14 +191,197 @@ export function isbn13To10(isbn13: string): string {
   if (isbn13.length !== 13 || !isbn13.startsWith('978')) {
     return '';
   }
-  
+
   const isbn10 = isbn13.slice(3, 12);
-  let sum = 0;
-  for (let i = 0; i < 9; i++) {
-    sum += parseInt(isbn10[i]) * (10 - i);
+  return isbn10 + calculateISBN10CheckDigit(isbn10);
+}
+
+/**
+ * A registration range: 7-digit window [start, end] mapped to the length
+ * of the element that starts at this position (0 = range not in use)
+ */
+type Range = [start: string, end: string, length: number];
+
+// Registration group ranges per EAN prefix (from the International ISBN Agency range message)
+const GROUP_RANGES: Record<string, Range[]> = {
+  '978': [
+    ['0000000', '5999999', 1],
+    ['6000000', '6499999', 3],
+    ['6500000', '6599999', 2],
+    ['6600000', '6999999', 3],
+    ['7000000', '7999999', 1],
+    ['8000000', '9499999', 2],
+    ['9500000', '9899999', 3],
+    ['9900000', '9989999', 4],
+    ['9990000', '9999999', 5],
+  ],
+  '979': [
+    // ISMN, hyphenated as 979-0-publisher-item-check
+    ['0000000', '0999999', 1],
+    ['1000000', '1299999', 2],
+    ['1300000', '7999999', 0],
+    ['8000000', '8999999', 1],
+    ['9000000', '9999999', 0],
+  ],
+};
+
+// Registrant ranges for the registration groups our collection actually contains.
+// Groups not listed here are left unhyphenated rather than guessed.
+const REGISTRANT_RANGES: Record<string, Range[]> = {
+  // English language
+  '978-0': [
+    ['0000000', '1999999', 2],
+    ['2000000', '6999999', 3],
+    ['7000000', '8499999', 4],
+    ['8500000', '8999999', 5],
+    ['9000000', '9499999', 6],
+    ['9500000', '9999999', 7],
+  ],
+  '978-1': [
+    ['0000000', '0999999', 2],
+    ['1000000', '3999999', 3],
+    ['4000000', '5499999', 4],
+    ['5500000', '8697999', 5],
+    ['8698000', '9729999', 6],
+    ['9730000', '9877999', 4],
+    ['9878000', '9989999', 6],
+    ['9990000', '9999999', 7],
+  ],
+  // French language
+  '978-2': [
+    ['0000000', '1999999', 2],
+    ['2000000', '3499999', 3],
+    ['3500000', '3999999', 5],
+    ['4000000', '6999999', 3],
+    ['7000000', '8399999', 4],
+    ['8400000', '8999999', 5],
+    ['9000000', '9499999', 6],
+    ['9500000', '9999999', 7],
+  ],
+  // German language
+  '978-3': [
+    ['0000000', '0299999', 2],
+    ['0300000', '0339999', 3],
+    ['0340000', '0369999', 4],
+    ['0370000', '0399999', 5],
+    ['0400000', '1999999', 2],
+    ['2000000', '6999999', 3],
+    ['7000000', '8499999', 4],
+    ['8500000', '8999999', 5],
+    ['9000000', '9499999', 6],
+    ['9500000', '9539999', 7],
+    ['9540000', '9699999', 5],
+    ['9700000', '9849999', 7],
+    ['9850000', '9999999', 5],
+  ],
+  // Czech Republic and Slovakia
+  '978-80': [
+    ['0000000', '1999999', 2],
+    ['2000000', '5299999', 3],
+    ['5300000', '5499999', 5],
+    ['5500000', '6899999', 3],
+    ['6900000', '6999999', 5],
+    ['7000000', '8499999', 4],
+    ['8500000', '8999999', 5],
+    ['9000000', '9989999', 6],
+    ['9990000', '9999999', 5],
+  ],
+  // ISMN (printed music)
+  '979-0': [
+    ['0000000', '0999999', 3],
+    ['1000000', '3999999', 4],
+    ['4000000', '6999999', 5],
+    ['7000000', '8999999', 6],
+    ['9000000', '9999999', 7],
+  ],
+  // France
+  '979-10': [
+    ['0000000', '1999999', 2],
+    ['2000000', '6999999', 3],
+    ['7000000', '8999999', 4],
+    ['9000000', '9759999', 5],
+    ['9760000', '9999999', 6],
+  ],
+  // Korea
+  '979-11': [
+    ['0000000', '2499999', 2],
+    ['2500000', '5499999', 3],
+    ['5500000', '8499999', 4],
+    ['8500000', '9499999', 5],
+    ['9500000', '9999999', 6],
+  ],
+  // Italy
+  '979-12': [
+    ['0000000', '1999999', 0],
+    ['2000000', '2999999', 3],
+    ['3000000', '5449999', 0],
+    ['5450000', '5999999', 4],
+    ['6000000', '7999999', 0],
+    ['8000000', '8499999', 5],
+    ['8500000', '9849999', 0],
+    ['9850000', '9999999', 6],
+  ],
+};
+
+function findRangeLength(ranges: Range[], digits: string): number {
+  // Ranges are always compared on 7 digits, padded with zeros when fewer remain
+  const key = digits.slice(0, 7).padEnd(7, '0');
+  const range = ranges.find(([start, end]) => key >= start && key <= end);
+  return range ? range[2] : 0;
+}
+
+/**
+ * Split an ISBN-13 (or ISMN) into prefix, registration group, registrant, publication and check digit.
+ * Returns null when the group or registrant range is not known.
+ */
+export function splitISBN13(isbn13: string): [string, string, string, string, string] | null {
+  const prefix = isbn13.slice(0, 3);
+  const groupRanges = GROUP_RANGES[prefix];
+  if (!groupRanges) return null;
+
+  const afterPrefix = isbn13.slice(3, 12);
+  const groupLength = findRangeLength(groupRanges, afterPrefix);
+  if (!groupLength) return null;
+
+  const group = afterPrefix.slice(0, groupLength);
+  const registrantRanges = REGISTRANT_RANGES[`${prefix}-${group}`];
+  if (!registrantRanges) return null;
+
+  const afterGroup = afterPrefix.slice(groupLength);
+  const registrantLength = findRangeLength(registrantRanges, afterGroup);
+  if (!registrantLength || registrantLength >= afterGroup.length) return null;
+
+  return [
+    prefix,
+    group,
+    afterGroup.slice(0, registrantLength),
+    afterGroup.slice(registrantLength),
+    isbn13[12],
+  ];
+}
+
+/**
+ * Hyphenate an ISBN-10, ISBN-13 or ISMN, e.g. 9788072031234 -> 978-80-7203-123-4.
+ * Invalid input is returned as-is, a valid ISBN in an unknown range is returned compact.
+ */
+export function hyphenateISBN(isbn: string): string {
+  const cleaned = compactISBN(isbn);
+  const result = validateISBN(cleaned);
+  if (!result.valid) return isbn;
+
+  const parts = splitISBN13(result.isbn13);
+  if (!parts) return cleaned;
+
+  if (cleaned.length === 10 && result.type === 'isbn') {
+    const [, group, registrant, publication] = parts;
+    return [group, registrant, publication, cleaned[9]].join('-');
   }
-  const checkDigit = (11 - (sum % 11)) % 11;
-  const checkChar = checkDigit === 10 ? 'X' : checkDigit.toString();
-  return isbn10 + checkChar;
+  return parts.join('-');
 }
 
+/**
+ * Short label for the identifier, used next to the number in the UI
+ */
+export function getIdentifierLabel(type: IdentifierType | undefined): string {
+  return type === 'ismn' ? 'ISMN' : 'ISBN';
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import type { Book } from '../types';
+import { booksToJson, JSON_EXPORT_VERSION } from './jsonExport';
+
+const book: Book = {
+  id: 'b1',
+  isbn13: '9788000012345',
+  title: 'Válka s mloky',
+  authors: ['Karel Čapek'],
+  tags: ['klasika'],
+  copies: [{ id: 'c1', room: 'Obývák', price: 299 }],
+  loans: [{ id: 'l1', borrower: 'Jana', lentAt: '2024-05-01' }],
+  provenance: { title: { providerId: 'nkp', providerName: 'Národní knihovna ČR', fetchedAt: '2024-03-01T09:59:00.000Z' } },
+  createdAt: '2024-03-01T10:00:00.000Z',
+  updatedAt: '2024-03-02T10:00:00.000Z',
+};
+
+describe('booksToJson', () => {
+  it('wraps the books with the format, version and export time', () => {
+    const data = JSON.parse(booksToJson([book], '2024-06-01T12:00:00.000Z'));
+    expect(data).toEqual({
+      format: 'isbn-database',
+      version: JSON_EXPORT_VERSION,
+      exportedAt: '2024-06-01T12:00:00.000Z',
+      books: [book],
+    });
+  });
+
+  it('is indented and ends with a newline', () => {
+    const json = booksToJson([], '2024-06-01T12:00:00.000Z');
+    expect(json).toBe('{\n  "format": "isbn-database",\n  "version": 1,\n  "exportedAt": "2024-06-01T12:00:00.000Z",\n  "books": []\n}\n');
+  });
+});
@@ -0,0 +1,24 @@
+import type { Book } from '../types';
+
+// Bumped when the shape of exported books changes
+export const JSON_EXPORT_VERSION = 1;
+
+/**
+ * A JSON export: every field of every book, including tags, image URLs, copies, loans and provenance
+ */
+export interface LibraryExport {
+  format: 'isbn-database';
+  version: number;
+  exportedAt: string;
+  books: Book[];
+}
+
+export function booksToJson(books: Book[], exportedAt: string = new Date().toISOString()): string {
+  const data: LibraryExport = {
+    format: 'isbn-database',
+    version: JSON_EXPORT_VERSION,
+    exportedAt,
+    books,
+  };
+  return JSON.stringify(data, null, 2) + '\n';
+}
@@ -0,0 +1,205 @@
+import type { LibraryRole, LibrarySummary } from '../types';
+import { supabase } from './supabase';
+import { requireUserId } from './auth';
+
+// Libraries of the signed-in user, kept so the switcher works offline
+const LIBRARIES_KEY = 'isbn_database_libraries';
+const ACTIVE_LIBRARY_KEY = 'isbn_database_active_library';
+// Invite opened before signing in; accepted once the library loads
+const PENDING_INVITE_KEY = 'isbn_database_pending_invite';
+
+export const DEFAULT_LIBRARY_NAME = 'Moje knihovna';
+
+export const ROLE_LABELS: Record<LibraryRole, string> = {
+  owner: 'Vlastník',
+  editor: 'Editor',
+  viewer: 'Čtenář',
+};
+
+function requireSupabase() {
+  if (!supabase) throw new Error('Supabase is not configured');
+  return supabase;
+}
+
+/**
+ * Whether a role may add, edit and delete books. Without Supabase there are no roles.
+ */
+export function canEdit(role: LibraryRole | undefined): boolean {
+  return role !== 'viewer';
+}
+
+export function getCachedLibraries(): LibrarySummary[] {
+  try {
+    const stored = localStorage.getItem(LIBRARIES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading libraries from localStorage:', error);
+    return [];
+  }
+}
+
+function cacheLibraries(libraries: LibrarySummary[]): void {
+  try {
+    localStorage.setItem(LIBRARIES_KEY, JSON.stringify(libraries));
+  } catch (error) {
+    console.error('Error writing libraries to localStorage:', error);
+  }
+}
+
+export function getActiveLibraryId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_LIBRARY_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setActiveLibraryId(id: string): void {
+  try {
+    localStorage.setItem(ACTIVE_LIBRARY_KEY, id);
+  } catch (error) {
+    console.error('Error writing active library to localStorage:', error);
+  }
+}
+
+/**
+ * The library getAllBooks loads, from the cached list
+ */
+export function getActiveLibrary(): LibrarySummary | undefined {
+  const id = getActiveLibraryId();
+  return getCachedLibraries().find(library => library.id === id);
+}
+
+/**
+ * Libraries the signed-in user is a member of, sorted by name
+ */
+export async function fetchLibraries(): Promise<LibrarySummary[]> {
+  const client = requireSupabase();
+  const userId = await requireUserId();
+  const { data, error } = await client
+    .from('library_members')
+    .select('role, libraries(id, name)')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Supabase error: ${error.message}`);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const libraries: LibrarySummary[] = (data || []).map((row: any) => ({
+    id: row.libraries.id,
+    name: row.libraries.name,
+    role: row.role as LibraryRole,
+  }));
+  libraries.sort((a, b) => a.name.localeCompare(b.name, 'cs'));
+  cacheLibraries(libraries);
+  return libraries;
+}
+
+/**
+ * Create a library with the signed-in user as its owner; returns its id
+ */
+export async function createLibrary(name: string): Promise<string> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (requireSupabase() as any).rpc('create_library', { library_name: name });
+  if (error) {
+    throw new Error(`Supabase error: ${error.message}`);
+  }
+  console.log('Created library', name, data);
+  return data as string;
+}
+
+/**
+ * Load the user's libraries (the cached ones when offline), creating a first library
+ * for new accounts, and make sure the active library is one of them
+ */
+export async function ensureLibraries(): Promise<LibrarySummary[]> {
+  let libraries: LibrarySummary[];
+  try {
+    libraries = await fetchLibraries();
+    if (libraries.length === 0) {
+      await createLibrary(DEFAULT_LIBRARY_NAME);
+      libraries = await fetchLibraries();
+    }
+  } catch (error) {
+    console.error('Error loading libraries, using cached list:', error);
+    libraries = getCachedLibraries();
+  }
+
+  const activeId = getActiveLibraryId();
+  if (libraries.length > 0 && !libraries.some(library => library.id === activeId)) {
+    setActiveLibraryId(libraries[0].id);
+  }
+  return libraries;
+}
+
+/**
+ * Link that adds whoever opens it (after signing in) to the library with the given role
+ */
+export async function createInviteLink(libraryId: string, role: Exclude<LibraryRole, 'owner'>): Promise<string> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (requireSupabase() as any)
+    .from('library_invites')
+    .insert({ library_id: libraryId, role })
+    .select('token')
+    .single();
+
+  if (error) {
+    throw new Error(`Supabase error: ${error.message}`);
+  }
+  return `${window.location.origin}/?invite=${data.token}`;
+}
+
+/**
+ * Join the library of an invite; returns the library id. Existing members keep their role.
+ */
+export async function acceptInvite(token: string): Promise<string> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (requireSupabase() as any).rpc('accept_library_invite', { invite_token: token });
+  if (error) {
+    throw new Error(error.message);
+  }
+  console.log('Accepted invite to library', data);
+  return data as string;
+}
+
+/**
+ * Move an invite token from the URL to localStorage, so it survives signing in
+ * (a magic link may open in another tab)
+ */
+export function rememberInviteFromUrl(): void {
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get('invite');
+  if (!token) return;
+
+  try {
+    localStorage.setItem(PENDING_INVITE_KEY, token);
+  } catch (error) {
+    console.error('Error saving invite to localStorage:', error);
+  }
+  params.delete('invite');
+  const query = params.toString();
+  window.history.replaceState({}, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+}
+
+export function takePendingInvite(): string | null {
+  try {
+    const token = localStorage.getItem(PENDING_INVITE_KEY);
+    localStorage.removeItem(PENDING_INVITE_KEY);
+    return token;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Forget the cached libraries and active library, when signing out
+ */
+export function forgetLibraries(): void {
+  try {
+    localStorage.removeItem(LIBRARIES_KEY);
+    localStorage.removeItem(ACTIVE_LIBRARY_KEY);
+  } catch (error) {
+    console.error('Error clearing libraries from localStorage:', error);
+  }
+}
@@ -0,0 +1,52 @@
+import type { Book, Loan } from '../types';
+
+/**
+ * Library filter by lending: books lent out now, or only those past their due date
+ */
+export type LoanFilterValue = 'on-loan' | 'overdue';
+
+/**
+ * Today's local date as YYYY-MM-DD, the format loan dates are stored in
+ */
+export function todayISO(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+export function formatLoanDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('cs-CZ');
+}
+
+/**
+ * The loan the book is out on, if it hasn't been returned yet
+ */
+export function getActiveLoan(book: Book): Loan | undefined {
+  return book.loans?.find(loan => !loan.returnedAt);
+}
+
+export function isOverdue(loan: Loan, today = todayISO()): boolean {
+  return !loan.returnedAt && !!loan.dueAt && loan.dueAt < today;
+}
+
+export function matchesLoanFilter(book: Book, filter: LoanFilterValue | null): boolean {
+  if (!filter) return true;
+  const loan = getActiveLoan(book);
+  if (!loan) return false;
+  return filter === 'on-loan' || isOverdue(loan);
+}
+
+/**
+ * Loans with a new one added at the end
+ */
+export function lend(loans: Loan[], borrower: string, lentAt: string, dueAt?: string): Loan[] {
+  return [...loans, { id: crypto.randomUUID(), borrower, lentAt, dueAt: dueAt || undefined }];
+}
+
+/**
+ * Loans with the given one marked as returned
+ */
+export function markReturned(loans: Loan[], id: string, returnedAt = todayISO()): Loan[] {
+  return loans.map(loan => loan.id === id ? { ...loan, returnedAt } : loan);
+}
@@ -0,0 +1,157 @@
+import type { Book } from '../types';
+
+const DB_NAME = 'isbn_database_library';
+const DB_VERSION = 1;
+const BOOKS_STORE = 'books';
+const OUTBOX_STORE = 'outbox';
+
+type StoreName = typeof BOOKS_STORE | typeof OUTBOX_STORE;
+
+/**
+ * A local change not yet written to Supabase. There is at most one entry per book:
+ * a later change to the same book replaces the earlier one.
+ */
+export interface OutboxEntry {
+  bookId: string;
+  op: 'upsert' | 'delete';
+  // The book to write, for upserts
+  book?: Book;
+  // updatedAt of the server version the change was made on, null for books created locally
+  baseUpdatedAt: string | null;
+  // When the entry was created or last replaced (ISO timestamp)
+  changedAt: string;
+  attempts: number;
+  // Epoch ms before which the entry isn't retried
+  nextAttemptAt?: number;
+  lastError?: string;
+  // Set when the server version changed since baseUpdatedAt; null remote means it was deleted there
+  conflict?: { remote: Book | null };
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Used where IndexedDB isn't available, so the app still works for the session
+const memoryStores: Record<StoreName, Map<string, unknown>> = {
+  [BOOKS_STORE]: new Map(),
+  [OUTBOX_STORE]: new Map(),
+};
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        console.warn('IndexedDB not available, library is kept in memory only');
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(BOOKS_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'bookId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening local library database:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+async function getAll<T>(storeName: StoreName): Promise<T[]> {
+  const db = await openDatabase();
+  if (!db) return [...memoryStores[storeName].values()] as T[];
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+}
+
+async function getOne<T>(storeName: StoreName, key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  if (!db) return memoryStores[storeName].get(key) as T | undefined;
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+}
+
+/**
+ * Put and delete records in one transaction
+ */
+async function write<T>(storeName: StoreName, keyPath: keyof T, puts: T[], deletes: string[] = []): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    const store = memoryStores[storeName];
+    puts.forEach(record => store.set(String(record[keyPath]), record));
+    deletes.forEach(key => store.delete(key));
+    return;
+  }
+
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  puts.forEach(record => store.put(record));
+  deletes.forEach(key => store.delete(key));
+  await transactionDone(transaction);
+}
+
+/**
+ * Books in the local replica, of one library or (without a library id) all of them
+ */
+export async function getReplicaBooks(libraryId?: string | null): Promise<Book[]> {
+  const books = await getAll<Book>(BOOKS_STORE);
+  return libraryId ? books.filter(book => book.libraryId === libraryId) : books;
+}
+
+export function getReplicaBook(id: string): Promise<Book | undefined> {
+  return getOne<Book>(BOOKS_STORE, id);
+}
+
+export function updateReplica(puts: Book[], deletes: string[] = []): Promise<void> {
+  return write<Book>(BOOKS_STORE, 'id', puts, deletes);
+}
+
+// Outbox of pending changes
+export function getOutboxEntries(): Promise<OutboxEntry[]> {
+  return getAll<OutboxEntry>(OUTBOX_STORE);
+}
+
+export function getOutboxEntry(bookId: string): Promise<OutboxEntry | undefined> {
+  return getOne<OutboxEntry>(OUTBOX_STORE, bookId);
+}
+
+export function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  return write<OutboxEntry>(OUTBOX_STORE, 'bookId', [entry]);
+}
+
+export function deleteOutboxEntry(bookId: string): Promise<void> {
+  return write<OutboxEntry>(OUTBOX_STORE, 'bookId', [], [bookId]);
+}
+
+/**
+ * Empty the replica and the outbox, e.g. when signing out
+ */
+export async function clearLocalDatabase(): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    memoryStores[BOOKS_STORE].clear();
+    memoryStores[OUTBOX_STORE].clear();
+    return;
+  }
+
+  const transaction = db.transaction([BOOKS_STORE, OUTBOX_STORE], 'readwrite');
+  transaction.objectStore(BOOKS_STORE).clear();
+  transaction.objectStore(OUTBOX_STORE).clear();
+  await transactionDone(transaction);
+}
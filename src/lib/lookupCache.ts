@@ -0,0 +1,105 @@
+import type { ProviderResult } from './providers/types';
+
+const DB_NAME = 'isbn_database_cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'lookups';
+
+// Defaults for providers that don't set their own cacheTtl
+export const DEFAULT_CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const DEFAULT_NOT_FOUND_TTL = 24 * 60 * 60 * 1000; // 1 day
+
+interface CacheEntry {
+  key: string;
+  // null records that the provider had nothing for this ISBN
+  result: ProviderResult | null;
+  fetchedAt: string;
+}
+
+export interface CachedLookup {
+  result: ProviderResult | null;
+  fetchedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function cacheKey(isbn13: string, providerId: string): string {
+  return `${isbn13}:${providerId}`;
+}
+
+/**
+ * Open the cache database once. Resolves to null where IndexedDB isn't available
+ * (e.g. private browsing in some browsers), in which case lookups simply aren't cached.
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening lookup cache:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Cached provider result for an ISBN, or null if there is none or it has expired
+ */
+export async function getCachedLookup(
+  isbn13: string,
+  providerId: string,
+  ttl: number,
+  notFoundTtl: number,
+): Promise<CachedLookup | null> {
+  try {
+    const db = await openDatabase();
+    if (!db) return null;
+
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const entry: CacheEntry | undefined = await requestToPromise(store.get(cacheKey(isbn13, providerId)));
+    if (!entry) return null;
+
+    const age = Date.now() - new Date(entry.fetchedAt).getTime();
+    if (age > (entry.result ? ttl : notFoundTtl)) return null;
+
+    return { result: entry.result, fetchedAt: entry.fetchedAt };
+  } catch (error) {
+    console.error('Error reading lookup cache:', error);
+    return null;
+  }
+}
+
+export async function setCachedLookup(
+  isbn13: string,
+  providerId: string,
+  result: ProviderResult | null,
+  fetchedAt: string,
+): Promise<void> {
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+
+    const entry: CacheEntry = { key: cacheKey(isbn13, providerId), result, fetchedAt };
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.put(entry));
+  } catch (error) {
+    console.error('Error writing lookup cache:', error);
+  }
+}
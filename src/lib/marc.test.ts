@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import type { Book } from '../types';
+import { bookToMarcRecord, booksToMarcXml, marcRecordToMetadata, parseMarcXml, stripIsbdPunctuation } from './marc';
+import rdaResponse from './fixtures/nkp/sru-rda-record.xml?raw';
+import aacr2Response from './fixtures/nkp/sru-aacr2-record.xml?raw';
+import emptyResponse from './fixtures/nkp/sru-no-records.xml?raw';
+
+describe('parseMarcXml', () => {
+  it('reads the MARC record inside an SRU response', () => {
+    const records = parseMarcXml(rdaResponse);
+    expect(records).toHaveLength(1);
+    expect(records[0].leader).toHaveLength(24);
+    expect(records[0].controlFields['001']).toBe('nkc20193089532');
+    expect(records[0].dataFields.find(field => field.tag === '020')?.subfields[0]).toEqual({ code: 'a', value: '978-80-7432-989-8' });
+  });
+
+  it('works with namespace prefixes', () => {
+    const [record] = parseMarcXml(aacr2Response);
+    expect(record.controlFields['001']).toBe('nkc20081816395');
+    expect(record.dataFields.filter(field => field.tag === '700')).toHaveLength(2);
+  });
+
+  it('returns no records for an empty result', () => {
+    expect(parseMarcXml(emptyResponse)).toEqual([]);
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseMarcXml('<record><leader>')).toThrow('Invalid MARCXML document');
+  });
+});
+
+describe('marcRecordToMetadata', () => {
+  it('maps an RDA record with 264 publication data', () => {
+    const [record] = parseMarcXml(rdaResponse);
+    expect(marcRecordToMetadata(record)).toEqual({
+      title: 'Válka s mloky',
+      // The illustrator (relator ill) is not an author
+      authors: ['Karel Čapek'],
+      statementOfResponsibility: 'Karel Čapek ; ilustrace Adolf Born',
+      publisher: 'Albatros',
+      publishedYear: 2019,
+      edition: 'Vydání třetí.',
+      language: 'cze',
+      subjects: ['mloci', 'civilizace', 'české romány', 'satirické romány'],
+      description: 'Satirický román o objevu inteligentních mloků, jejich vykořisťování a vzpouře proti lidstvu.',
+    });
+  });
+
+  it('maps an AACR2 record with 260, a subtitle and co-authors without relators', () => {
+    const [record] = parseMarcXml(aacr2Response);
+    expect(marcRecordToMetadata(record)).toEqual({
+      title: 'Dobrá znamení: laskavá a přesná proroctví Anathemy Bížiové, čarodějky',
+      // The translator (relator trl) is left out
+      authors: ['Terry Pratchett', 'Neil Gaiman'],
+      statementOfResponsibility: 'Terry Pratchett, Neil Gaiman ; [z anglického originálu ... přeložil Jan Kantůrek]',
+      publisher: 'Talpress',
+      publishedYear: 2008,
+      edition: 'Vyd. 3.',
+      language: 'cze',
+      subjects: ['Antikrist', 'anglické romány', 'humoristické romány'],
+      description: undefined,
+    });
+  });
+
+  it('falls back to the year and language in 008', () => {
+    const [record] = parseMarcXml(rdaResponse);
+    const withoutPublication = {
+      ...record,
+      dataFields: record.dataFields.filter(field => field.tag !== '264'),
+    };
+    const metadata = marcRecordToMetadata(withoutPublication);
+    expect(metadata.publishedYear).toBe(2019);
+    expect(metadata.publisher).toBeUndefined();
+    expect(metadata.language).toBe('cze');
+  });
+});
+
+describe('stripIsbdPunctuation', () => {
+  it('removes separators and the closing period but keeps abbreviations', () => {
+    expect(stripIsbdPunctuation('Válka s mloky /')).toBe('Válka s mloky');
+    expect(stripIsbdPunctuation('Albatros,')).toBe('Albatros');
+    expect(stripIsbdPunctuation('Karel Čapek.')).toBe('Karel Čapek');
+    expect(stripIsbdPunctuation('a kol.')).toBe('a kol.');
+    expect(stripIsbdPunctuation('[přeložil Jan Kantůrek].')).toBe('[přeložil Jan Kantůrek]');
+  });
+});
+
+describe('booksToMarcXml', () => {
+  const book: Book = {
+    id: 'b1',
+    isbn13: '9788000012345',
+    isbn10: '8000012345',
+    title: 'Dobrá znamení',
+    authors: ['Terry Pratchett', 'Neil Gaiman'],
+    statementOfResponsibility: 'Terry Pratchett, Neil Gaiman',
+    publisher: 'Talpress',
+    publishedYear: 2008,
+    edition: 'Vyd. 3.',
+    language: 'cze',
+    subjects: ['humoristické romány'],
+    tags: ['oblíbené'],
+    description: 'Konec světa <už> zase & nepřijde.',
+    imageUrl: 'https://example.com/cover.jpg',
+    createdAt: '2024-03-01T10:00:00.000Z',
+    updatedAt: '2024-03-01T10:00:00.000Z',
+  };
+
+  it('writes a leader and 008 of the fixed MARC lengths', () => {
+    const record = bookToMarcRecord(book);
+    expect(record.leader).toBe('00000nam a22000007u 4500');
+    expect(record.controlFields['008']).toHaveLength(40);
+    expect(record.controlFields['008']).toBe('240301s2008    xx                  cze d');
+    expect(bookToMarcRecord({ ...book, identifierType: 'ismn' }).leader).toBe('00000ncm a22000007u 4500');
+  });
+
+  it('escapes XML and reads back as the same metadata', () => {
+    const xml = booksToMarcXml([book]);
+    expect(xml).toContain('<subfield code="a">Konec světa &lt;už&gt; zase &amp; nepřijde.</subfield>');
+
+    const [record] = parseMarcXml(xml);
+    expect(record.leader).toHaveLength(24);
+    expect(marcRecordToMetadata(record)).toEqual({
+      title: 'Dobrá znamení',
+      authors: ['Terry Pratchett', 'Neil Gaiman'],
+      statementOfResponsibility: 'Terry Pratchett, Neil Gaiman',
+      publisher: 'Talpress',
+      publishedYear: 2008,
+      edition: 'Vyd. 3.',
+      language: 'cze',
+      // Tags (653) aren't subjects
+      subjects: ['humoristické romány'],
+      description: 'Konec světa <už> zase & nepřijde.',
+    });
+  });
+
+  it('puts an ISMN into 024 instead of 020', () => {
+    const record = bookToMarcRecord({ ...book, isbn13: '9790260000438', isbn10: undefined, identifierType: 'ismn' });
+    expect(record.dataFields.find(field => field.tag === '024')).toMatchObject({ ind1: '2', subfields: [{ code: 'a', value: '9790260000438' }] });
+    expect(record.dataFields.some(field => field.tag === '020')).toBe(false);
+  });
+
+  it('leaves a placeholder ISBN out', () => {
+    const record = bookToMarcRecord({ ...book, isbn13: '2001234567893', isbn10: undefined });
+    expect(record.dataFields.some(field => field.tag === '020' || field.tag === '024')).toBe(false);
+  });
+});
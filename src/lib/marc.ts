@@ -0,0 +1,256 @@
+import type { Book } from '../types';
+import type { ProviderResult } from './providers/types';
+import { invertName } from './citations';
+import { realISBN } from './isbn';
+
+/**
+ * A MARC21 data field (tag 010-999) with its indicators and subfields in record order
+ */
+export interface MarcDataField {
+  tag: string;
+  ind1: string;
+  ind2: string;
+  subfields: Array<{ code: string; value: string }>;
+}
+
+export interface MarcRecord {
+  leader: string;
+  // Control fields (001-009) by tag
+  controlFields: Record<string, string>;
+  dataFields: MarcDataField[];
+}
+
+/**
+ * Parse every MARCXML <record> in a document (a plain MARC collection or an SRU searchRetrieve response).
+ * Works regardless of the namespace prefix the server uses.
+ */
+export function parseMarcXml(xml: string): MarcRecord[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid MARCXML document');
+  }
+
+  const records: MarcRecord[] = [];
+  // SRU wraps each MARC record in its own <record>, so keep only the innermost ones that hold fields
+  const recordElements = Array.from(doc.getElementsByTagNameNS('*', 'record')).filter(element =>
+    element.getElementsByTagNameNS('*', 'record').length === 0
+    && (element.getElementsByTagNameNS('*', 'datafield').length > 0
+      || element.getElementsByTagNameNS('*', 'controlfield').length > 0)
+  );
+
+  for (const element of recordElements) {
+    const leader = element.getElementsByTagNameNS('*', 'leader')[0]?.textContent || '';
+    const controlFields: Record<string, string> = {};
+    for (const field of Array.from(element.getElementsByTagNameNS('*', 'controlfield'))) {
+      controlFields[field.getAttribute('tag') || ''] = field.textContent || '';
+    }
+
+    const dataFields: MarcDataField[] = Array.from(element.getElementsByTagNameNS('*', 'datafield')).map(field => ({
+      tag: field.getAttribute('tag') || '',
+      ind1: field.getAttribute('ind1') || ' ',
+      ind2: field.getAttribute('ind2') || ' ',
+      subfields: Array.from(field.getElementsByTagNameNS('*', 'subfield')).map(subfield => ({
+        code: subfield.getAttribute('code') || '',
+        value: (subfield.textContent || '').trim(),
+      })),
+    }));
+
+    records.push({ leader, controlFields, dataFields });
+  }
+
+  return records;
+}
+
+function getFields(record: MarcRecord, tag: string): MarcDataField[] {
+  return record.dataFields.filter(field => field.tag === tag);
+}
+
+function getSubfields(field: MarcDataField | undefined, codes: string): string[] {
+  if (!field) return [];
+  return field.subfields.filter(subfield => codes.includes(subfield.code)).map(subfield => subfield.value);
+}
+
+/**
+ * Remove the trailing ISBD separators catalogers put between elements (" /", " :", " ;", ",", " =")
+ */
+function stripIsbdSeparators(value: string): string {
+  return value.replace(/[\s/:;,=]+$/, '').trim();
+}
+
+/**
+ * Remove ISBD separators and the closing period, unless the period ends an abbreviation ("atd.", "ed.")
+ */
+export function stripIsbdPunctuation(value: string): string {
+  return stripIsbdSeparators(value).replace(/(\p{L}{4,}|\d|[)\]])\.$/u, '$1');
+}
+
+/**
+ * "Čapek, Karel, 1890-1938" -> "Karel Čapek"
+ */
+function invertPersonalName(name: string): string {
+  const cleaned = stripIsbdPunctuation(name);
+  const commaIndex = cleaned.indexOf(',');
+  if (commaIndex < 0) return cleaned;
+  const surname = cleaned.slice(0, commaIndex).trim();
+  const forename = cleaned.slice(commaIndex + 1).trim();
+  return forename ? `${forename} ${surname}` : surname;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)));
+}
+
+// Relator codes that mean the person wrote the work; unspecified relators count as authors too
+const AUTHOR_RELATORS = ['aut', 'cre'];
+
+/**
+ * Map a MARC21 bibliographic record onto book metadata fields
+ */
+export function marcRecordToMetadata(record: MarcRecord): ProviderResult {
+  // 245: $a title, $b subtitle, $n/$p part number and name, $c statement of responsibility
+  const titleField = getFields(record, '245')[0];
+  const mainTitle = [
+    ...getSubfields(titleField, 'a'),
+    ...getSubfields(titleField, 'b'),
+  ].map(stripIsbdPunctuation).filter(Boolean).join(': ');
+  const title = [mainTitle, ...getSubfields(titleField, 'np').map(stripIsbdPunctuation)].filter(Boolean).join('. ');
+  const statementOfResponsibility = stripIsbdPunctuation(getSubfields(titleField, 'c').join(' '));
+
+  const authors = unique([
+    ...getFields(record, '100'),
+    ...getFields(record, '700').filter(field => {
+      const relators = getSubfields(field, '4');
+      return relators.length === 0 || relators.some(code => AUTHOR_RELATORS.includes(code));
+    }),
+  ].map(field => invertPersonalName(getSubfields(field, 'a')[0] || '')));
+
+  // RDA records use 264 with ind2 = 1 (publication), older AACR2 records use 260
+  const publicationField = getFields(record, '264').find(field => field.ind2 === '1') || getFields(record, '260')[0];
+  const publisher = stripIsbdPunctuation(getSubfields(publicationField, 'b')[0] || '');
+
+  const fixedData = record.controlFields['008'] || '';
+  const dateMatch = (getSubfields(publicationField, 'c')[0] || '').match(/\d{4}/) || fixedData.slice(7, 11).match(/^\d{4}$/);
+  const publishedYear = dateMatch ? parseInt(dateMatch[0]) : undefined;
+
+  // Editions are mostly abbreviations ("2. vyd."), so only separators are removed
+  const edition = stripIsbdSeparators(getSubfields(getFields(record, '250')[0], 'a')[0] || '');
+
+  const languageFromFixed = fixedData.slice(35, 38).trim();
+  const language = getSubfields(getFields(record, '041')[0], 'a')[0]
+    || (/^[a-z]{3}$/.test(languageFromFixed) ? languageFromFixed : '');
+
+  const subjects = unique(
+    ['600', '610', '650', '651', '655']
+      .flatMap(tag => getFields(record, tag))
+      .map(field => stripIsbdPunctuation(getSubfields(field, 'a')[0] || ''))
+  );
+
+  const description = getFields(record, '520').map(field => getSubfields(field, 'a').join(' ')).join('\n\n');
+
+  return {
+    title: title || undefined,
+    authors: authors.length > 0 ? authors : undefined,
+    statementOfResponsibility: statementOfResponsibility || undefined,
+    publisher: publisher || undefined,
+    publishedYear,
+    edition: edition || undefined,
+    language: language || undefined,
+    subjects: subjects.length > 0 ? subjects : undefined,
+    description: description || undefined,
+  };
+}
+
+function dataField(tag: string, ind1: string, ind2: string, subfields: Array<[string, string | undefined]>): MarcDataField | null {
+  const present = subfields
+    .filter((subfield): subfield is [string, string] => !!subfield[1]?.trim())
+    .map(([code, value]) => ({ code, value: value.trim() }));
+  return present.length > 0 ? { tag, ind1, ind2, subfields: present } : null;
+}
+
+/**
+ * 008 fixed-length data: date entered, publication year and language; the rest is left blank
+ */
+function fixedDataField(book: Book): string {
+  const entered = (book.createdAt || '').slice(2, 10).replace(/-/g, '').padEnd(6, '0');
+  const dates = book.publishedYear ? `s${String(book.publishedYear).padStart(4, '0')}` : 'nuuuu';
+  const language = /^[a-z]{3}$/.test(book.language || '') ? book.language! : '   ';
+  return `${entered}${dates}    xx ${' '.repeat(17)}${language} d`;
+}
+
+/**
+ * Map a book onto a minimal MARC21 bibliographic record (the reverse of marcRecordToMetadata)
+ */
+export function bookToMarcRecord(book: Book): MarcRecord {
+  const [mainAuthor, ...otherAuthors] = book.authors || [];
+  const isMusic = book.identifierType === 'ismn';
+  const publicationYear = book.publishedYear ? String(book.publishedYear) : undefined;
+  const isbn13 = realISBN(book.isbn13);
+
+  const fields = [
+    // ISMNs go to 024 with the first indicator 2
+    isMusic
+      ? dataField('024', '2', ' ', [['a', isbn13]])
+      : dataField('020', ' ', ' ', [['a', isbn13]]),
+    isMusic ? null : dataField('020', ' ', ' ', [['a', book.isbn10]]),
+    dataField('041', '0', ' ', [['a', book.language]]),
+    mainAuthor ? dataField('100', '1', ' ', [['a', invertName(mainAuthor)], ['4', 'aut']]) : null,
+    // ISBD punctuation before the statement of responsibility, as catalogers write it
+    dataField('245', mainAuthor ? '1' : '0', '0', [
+      ['a', book.statementOfResponsibility ? `${book.title} /` : book.title],
+      ['c', book.statementOfResponsibility],
+    ]),
+    dataField('250', ' ', ' ', [['a', book.edition]]),
+    dataField('264', ' ', '1', [['b', book.publisher], ['c', publicationYear]]),
+    dataField('520', ' ', ' ', [['a', book.description]]),
+    ...(book.subjects || []).map(subject => dataField('650', ' ', '4', [['a', subject]])),
+    // Own tags are uncontrolled index terms
+    ...(book.tags || []).map(tag => dataField('653', ' ', ' ', [['a', tag]])),
+    ...otherAuthors.map(author => dataField('700', '1', ' ', [['a', invertName(author)], ['4', 'aut']])),
+    book.imageUrl || book.coverUrl ? dataField('856', '4', '2', [['3', 'Obálka'], ['u', book.imageUrl || book.coverUrl]]) : null,
+  ];
+
+  return {
+    // Language material (or notated music), monograph, UTF-8, minimal level (17), descriptive form unknown (18)
+    leader: `00000n${isMusic ? 'c' : 'a'}m a22000007u 4500`,
+    controlFields: { '001': book.id, '008': fixedDataField(book) },
+    dataFields: fields.filter((field): field is MarcDataField => !!field),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Serialize records as a MARCXML collection
+ */
+export function marcRecordsToXml(records: MarcRecord[]): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<collection xmlns="http://www.loc.gov/MARC21/slim">'];
+  for (const record of records) {
+    lines.push('  <record>', `    <leader>${escapeXml(record.leader)}</leader>`);
+    for (const [tag, value] of Object.entries(record.controlFields).sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`    <controlfield tag="${escapeXml(tag)}">${escapeXml(value)}</controlfield>`);
+    }
+    for (const field of record.dataFields) {
+      lines.push(`    <datafield tag="${escapeXml(field.tag)}" ind1="${escapeXml(field.ind1)}" ind2="${escapeXml(field.ind2)}">`);
+      for (const subfield of field.subfields) {
+        lines.push(`      <subfield code="${escapeXml(subfield.code)}">${escapeXml(subfield.value)}</subfield>`);
+      }
+      lines.push('    </datafield>');
+    }
+    lines.push('  </record>');
+  }
+  lines.push('</collection>');
+  return lines.join('\n') + '\n';
+}
+
+export function booksToMarcXml(books: Book[]): string {
+  return marcRecordsToXml(books.map(bookToMarcRecord));
+}
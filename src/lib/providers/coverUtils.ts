@@ -0,0 +1,82 @@
+import { fetchWithPolicy, isFoundResponse } from '../http';
+
+// Placeholders are tiny, so real covers are at least this big
+const MIN_COVER_BYTES = 500;
+
+/**
+ * Read the first `count` bytes of a response body (fewer if the body is shorter),
+ * then cancel the download
+ */
+async function readLeadingBytes(response: Response, count: number): Promise<Uint8Array> {
+  if (!response.body) {
+    return new Uint8Array(await response.arrayBuffer()).slice(0, count);
+  }
+
+  const reader = response.body.getReader();
+  const bytes = new Uint8Array(count);
+  let received = 0;
+  try {
+    while (received < count) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, count - received);
+      bytes.set(chunk, received);
+      received += chunk.length;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return bytes.slice(0, received);
+}
+
+/**
+ * Verify if a cover image URL actually exists and is not a placeholder
+ * Open Library returns a 1px GIF placeholder if no cover exists.
+ * Network errors and error responses other than 404 are thrown, so they aren't taken for "no cover".
+ */
+export async function verifyCoverExists(url: string): Promise<boolean> {
+  const response = await fetchWithPolicy(url);
+  if (!isFoundResponse(response, url)) return false;
+
+  const contentType = response.headers.get('content-type');
+
+  // First check: If it's a GIF, it's definitely a placeholder
+  if (contentType?.includes('image/gif')) {
+    response.body?.cancel().catch(() => {});
+    return false;
+  }
+
+  // Second check: only the start of the image is downloaded, enough to tell a placeholder by size
+  const bytes = await readLeadingBytes(response, MIN_COVER_BYTES);
+  if (bytes.length < MIN_COVER_BYTES) {
+    return false;
+  }
+
+  // Third check: Verify it's actually a JPEG or PNG by reading magic bytes
+
+  // JPEG magic bytes: FF D8 FF
+  const isJPEG = bytes[0] === 0xFF && bytes[1] === 0xD8;
+  // PNG magic bytes: 89 50 4E 47
+  const isPNG = bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4E && bytes[3] === 0x47;
+
+  return isJPEG || isPNG;
+}
+
+interface GoogleBooksImageLinks {
+  smallThumbnail?: string;
+  thumbnail?: string;
+  medium?: string;
+  large?: string;
+}
+
+/**
+ * Pick the largest Google Books image, switched to https and without the zoom parameter for better quality
+ */
+export function pickGoogleBooksCover(imageLinks: GoogleBooksImageLinks | undefined): string | undefined {
+  if (!imageLinks) return undefined;
+  const clean = (url?: string) => url?.replace('http://', 'https://')?.replace(/&zoom=\d+/, '');
+  return clean(imageLinks.large)
+    || clean(imageLinks.medium)
+    || clean(imageLinks.thumbnail)
+    || clean(imageLinks.smallThumbnail);
+}
@@ -0,0 +1,79 @@
+import type { IdentifierType } from '../../types';
+import type { MetadataProvider, ProviderResult } from './types';
+import { verifyCoverExists, pickGoogleBooksCover } from './coverUtils';
+import { fetchWithPolicy, isFoundResponse } from '../http';
+
+/**
+ * Fetch from Google Books API. Network and server errors are thrown; null means no volume has the ISBN.
+ */
+async function fetchFromGoogleBooks(isbn13: string, isbn10: string | undefined, identifierType: IdentifierType): Promise<ProviderResult | null> {
+  // Try ISBN-13 first, then ISBN-10
+  const identifiers = isbn10 ? [isbn13, isbn10] : [isbn13];
+  // Google Books has no ismn: qualifier, ISMNs only match as a plain query term
+  const queryPrefix = identifierType === 'ismn' ? '' : 'isbn:';
+
+  for (const isbn of identifiers) {
+    const url = `https://www.googleapis.com/books/v1/volumes?q=${queryPrefix}${isbn}`;
+    const response = await fetchWithPolicy(url);
+    if (!isFoundResponse(response, url)) continue;
+
+    const data = await response.json();
+    if (data.items && data.items.length > 0) {
+      const volume = data.items[0].volumeInfo;
+      
+      // Get best cover image from Google Books, but verify it exists
+      let coverUrl = pickGoogleBooksCover(volume.imageLinks);
+      if (coverUrl && !(await verifyCoverExists(coverUrl))) {
+        coverUrl = undefined;
+      }
+      
+      return {
+        title: volume.title,
+        authors: volume.authors,
+        publisher: volume.publisher,
+        publishedYear: volume.publishedDate ? parseInt(volume.publishedDate.split('-')[0]) : undefined,
+        description: volume.description,
+        coverUrl,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Last resort for covers: search Google Books by the title found so far
+ */
+async function findGoogleBooksCoverByTitle(title: string): Promise<ProviderResult | null> {
+  const searchUrl = `https://www.googleapis.com/books/v1/volumes?q=intitle:"${encodeURIComponent(title)}"&maxResults=1`;
+  const response = await fetchWithPolicy(searchUrl);
+  if (!isFoundResponse(response, searchUrl)) return null;
+
+  const data = await response.json();
+  const coverUrl = pickGoogleBooksCover(data.items?.[0]?.volumeInfo?.imageLinks);
+  if (coverUrl && await verifyCoverExists(coverUrl)) {
+    return { coverUrl };
+  }
+  return null;
+}
+
+export const googleBooksProvider: MetadataProvider = {
+  id: 'google-books',
+  name: 'Google Books',
+  capabilities: {
+    fields: ['title', 'authors', 'publisher', 'publishedYear', 'description', 'coverUrl'],
+    identifierTypes: ['isbn', 'ismn'],
+  },
+  lookup: (isbn13, isbn10, { identifierType }) => fetchFromGoogleBooks(isbn13, isbn10, identifierType),
+};
+
+export const googleBooksTitleCoverProvider: MetadataProvider = {
+  id: 'google-books-title',
+  name: 'Google Books (title search)',
+  capabilities: {
+    fields: ['coverUrl'],
+    identifierTypes: ['isbn', 'ismn'],
+    fallback: true,
+    requiresTitle: true,
+  },
+  lookup: async (_isbn13, _isbn10, { current }) => current.title ? findGoogleBooksCoverByTitle(current.title) : null,
+};
@@ -0,0 +1,269 @@
+import type { IdentifierType } from '../../types';
+import type { MetadataProvider, ProviderResult } from './types';
+import { verifyCoverExists } from './coverUtils';
+import { fetchWithPolicy, createDailyQuota, HttpStatusError } from '../http';
+
+// Custom Search allows 100 free queries per day per key (VITE_GOOGLE_SEARCH_DAILY_QUOTA to change), reset at midnight Pacific time
+const customSearchQuota = createDailyQuota(
+  'isbn_database_google_search_quota',
+  Number(import.meta.env.VITE_GOOGLE_SEARCH_DAILY_QUOTA) || 100,
+  'America/Los_Angeles',
+);
+
+// For errors; the request URL carries the API key
+const CUSTOM_SEARCH_ENDPOINT = 'https://www.googleapis.com/customsearch/v1';
+
+class QuotaExceededError extends Error {
+  constructor() {
+    super('Google Custom Search daily quota exhausted');
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Call the Custom Search API, counting the request against the daily quota.
+ * Throws QuotaExceededError once the quota is used up and HttpStatusError for other error responses,
+ * so neither is cached as "not found".
+ */
+async function fetchCustomSearch(url: string): Promise<Response> {
+  if (!customSearchQuota.tryConsume()) {
+    throw new QuotaExceededError();
+  }
+  // A 429 here means the quota is gone, so retrying would only waste time
+  const response = await fetchWithPolicy(url, { retries: 0 });
+  if (response.status === 429) {
+    customSearchQuota.exhaust();
+    throw new QuotaExceededError();
+  }
+  if (!response.ok) {
+    console.error('Google Search API error:', response.status, await response.text());
+    throw new HttpStatusError(CUSTOM_SEARCH_ENDPOINT, response.status);
+  }
+  return response;
+}
+
+/**
+ * Search Google for ISBN and extract book information
+ * Uses Google Custom Search API
+ */
+async function searchGoogleForISBN(isbn13: string, isbn10: string | undefined, identifierType: IdentifierType): Promise<ProviderResult | null> {
+  const apiKey = import.meta.env.VITE_GOOGLE_SEARCH_API_KEY;
+  const searchEngineId = import.meta.env.VITE_GOOGLE_SEARCH_ENGINE_ID;
+  
+  if (!apiKey || !searchEngineId) {
+    console.warn('Google Search API not configured (VITE_GOOGLE_SEARCH_API_KEY and VITE_GOOGLE_SEARCH_ENGINE_ID)');
+    console.warn('API Key present:', !!apiKey, 'Search Engine ID present:', !!searchEngineId);
+    return null;
+  }
+
+  try {
+    // Try both ISBN-13 and ISBN-10, prioritizing ISBN-13 since that's what user likely entered
+    const isbnsToTry = isbn13 ? [isbn13, isbn10].filter(Boolean) : [isbn10].filter(Boolean);
+    
+    // Try multiple search query variations for each ISBN
+    const searchQueries: string[] = [];
+    for (const isbn of isbnsToTry) {
+      if (identifierType === 'ismn') {
+        searchQueries.push(
+          `"${isbn}"`,
+          `ISMN ${isbn}`,
+          `${isbn} noty`,
+          `${isbn} sheet music`,
+        );
+      } else {
+        searchQueries.push(
+          `"${isbn}"`,
+          `ISBN ${isbn}`,
+          `ISBN-${isbn}`,
+          `${isbn} book`,
+          `${isbn} kniha`,
+        );
+      }
+    }
+    
+    let data: any = null;
+    let successfulQuery = '';
+    
+    // Try each query variation until we get results
+    for (const searchQuery of searchQueries) {
+      const url = `${CUSTOM_SEARCH_ENDPOINT}?key=${apiKey}&cx=${searchEngineId}&q=${encodeURIComponent(searchQuery)}`;
+      
+      console.log('Searching Google with query:', searchQuery);
+      
+      // A failed request ends the lookup: the remaining queries would be a guess at "not found"
+      const response = await fetchCustomSearch(url);
+      const responseData = await response.json();
+      console.log('Google Search results for query:', searchQuery, 'Results:', responseData.items?.length || 0);
+
+      if (responseData.items && responseData.items.length > 0) {
+        // Found results with this query, use them
+        data = responseData;
+        successfulQuery = searchQuery;
+        break; // Exit the loop and process results
+      }
+    }
+    
+    if (!data || !data.items || data.items.length === 0) {
+      console.warn('No Google Search results found for ISBN:', isbn13 || isbn10, 'after trying multiple queries');
+      return null;
+    }
+    
+    console.log('Using results from query:', successfulQuery);
+    console.log('Final Google Search results:', data);
+    console.log('Number of results:', data.items.length);
+
+    // Try to extract book information from search results
+    // Look at the first few results
+    for (const item of data.items.slice(0, 3)) {
+      const title = item.title;
+      const snippet = item.snippet;
+      
+      console.log('Processing result:', { title, snippet });
+      
+      // Try to extract title and author from the result
+      // Format is often: "Book Title - Author Name" or "Book Title by Author Name"
+      let extractedTitle = title;
+      let extractedAuthors: string[] | undefined = undefined;
+      
+      // Try to parse author from title or snippet
+      const authorPatterns = [
+        /by\s+([^-]+?)(?:\s*[-–]|$)/i,
+        /-\s*([^-]+?)(?:\s*[-–]|$)/i,
+        /,\s*([^,]+?)(?:\s*[-–]|$)/i,
+      ];
+      
+      for (const pattern of authorPatterns) {
+        const match = (title + ' ' + snippet).match(pattern);
+        if (match && match[1]) {
+          extractedAuthors = [match[1].trim()];
+          extractedTitle = title.replace(pattern, '').trim();
+          break;
+        }
+      }
+
+      // If we found a title, return it
+      if (extractedTitle && extractedTitle.length > 3) {
+        console.log('Extracted book info:', { title: extractedTitle, authors: extractedAuthors });
+        return {
+          title: extractedTitle,
+          authors: extractedAuthors,
+          publishedYear: undefined, // Hard to extract from search results
+        };
+      }
+    }
+
+    console.warn('Could not extract valid title from Google Search results');
+    return null;
+  } catch (error) {
+    console.error('Google Search error:', error);
+    // Rethrown so the lookup cache doesn't record the failure as "not found"
+    throw error;
+  }
+}
+
+/**
+ * Image results are on arbitrary sites, which often block hotlinking or cross-origin requests;
+ * such a candidate is skipped instead of failing the whole search
+ */
+async function isUsableImage(url: string): Promise<boolean> {
+  try {
+    return await verifyCoverExists(url);
+  } catch (error) {
+    console.warn('Skipping image result:', url, error);
+    return false;
+  }
+}
+
+/**
+ * Search Google for book cover image
+ * Uses Google Custom Search API with image search
+ */
+async function searchGoogleForCoverImage(isbn13: string, isbn10: string | undefined, identifierType: IdentifierType, bookTitle?: string): Promise<string | null> {
+  const apiKey = import.meta.env.VITE_GOOGLE_SEARCH_API_KEY;
+  const searchEngineId = import.meta.env.VITE_GOOGLE_SEARCH_ENGINE_ID;
+  
+  if (!apiKey || !searchEngineId) {
+    return null;
+  }
+
+  try {
+    const isbnToSearch = isbn10 || isbn13;
+    const label = identifierType === 'ismn' ? 'ISMN' : 'ISBN';
+    // Search for book cover image
+    const searchQuery = bookTitle 
+      ? `${bookTitle} book cover ${label} ${isbnToSearch}`
+      : `${label} ${isbnToSearch} book cover`;
+    
+    const url = `${CUSTOM_SEARCH_ENDPOINT}?key=${apiKey}&cx=${searchEngineId}&q=${encodeURIComponent(searchQuery)}&searchType=image&num=5`;
+    
+    console.log('Searching Google for cover image:', searchQuery);
+    const response = await fetchCustomSearch(url);
+    const data = await response.json();
+
+    if (!data.items || data.items.length === 0) {
+      return null;
+    }
+
+    // Try to find a valid cover image from the results
+    for (const item of data.items) {
+      const imageUrl = item.link;
+      if (imageUrl && (imageUrl.includes('cover') || imageUrl.match(/\.(jpg|jpeg|png|webp)$/i))) {
+        // Verify the image exists
+        const isValid = await isUsableImage(imageUrl);
+        if (isValid) {
+          console.log('Found cover image via Google Search:', imageUrl);
+          return imageUrl;
+        }
+      }
+    }
+
+    // If no cover-specific image found, try the first image result
+    if (data.items[0]?.link) {
+      const imageUrl = data.items[0].link;
+      const isValid = await isUsableImage(imageUrl);
+      if (isValid) {
+        console.log('Found image via Google Search (first result):', imageUrl);
+        return imageUrl;
+      }
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Google Search image error:', error);
+    throw error;
+  }
+}
+
+// Custom Search has a small daily quota, so keep its answers (including misses) longer than other sources
+const GOOGLE_SEARCH_CACHE_TTL = {
+  found: 90 * 24 * 60 * 60 * 1000,
+  notFound: 7 * 24 * 60 * 60 * 1000,
+};
+
+export const googleSearchProvider: MetadataProvider = {
+  id: 'google-search',
+  name: 'Google Search',
+  capabilities: {
+    fields: ['title', 'authors', 'publishedYear'],
+    identifierTypes: ['isbn', 'ismn'],
+    fallback: true,
+  },
+  cacheTtl: GOOGLE_SEARCH_CACHE_TTL,
+  lookup: (isbn13, isbn10, { identifierType }) => searchGoogleForISBN(isbn13, isbn10, identifierType),
+};
+
+export const googleSearchCoverProvider: MetadataProvider = {
+  id: 'google-search-cover',
+  name: 'Google Search (images)',
+  capabilities: {
+    fields: ['coverUrl'],
+    identifierTypes: ['isbn', 'ismn'],
+    fallback: true,
+    requiresTitle: true,
+  },
+  cacheTtl: GOOGLE_SEARCH_CACHE_TTL,
+  lookup: async (isbn13, isbn10, { identifierType, current }) => {
+    const coverUrl = await searchGoogleForCoverImage(isbn13, isbn10, identifierType, current.title);
+    return coverUrl ? { coverUrl } : null;
+  },
+};
@@ -0,0 +1,64 @@
+import type { MetadataProvider, ProviderResult } from './types';
+import { parseMarcXml, marcRecordToMetadata } from '../marc';
+import { fetchWithPolicy, isFoundResponse } from '../http';
+
+// SRU endpoint of the Czech National Library catalogue (override with VITE_NKP_SRU_URL)
+const NKP_SRU_URL = import.meta.env.VITE_NKP_SRU_URL || 'https://aleph.nkp.cz/sru/nkc';
+
+// Per lookup, in ms
+const NKP_TIMEOUT = 5000;
+
+/**
+ * Build an SRU searchRetrieve query for the given ISBNs (Bath profile ISBN index)
+ */
+export function buildNkpQuery(isbns: string[]): string {
+  return isbns.map(isbn => `bath.isbn=${isbn}`).join(' or ');
+}
+
+async function fetchSru(query: string): Promise<string | null> {
+  const params = new URLSearchParams({
+    version: '1.1',
+    operation: 'searchRetrieve',
+    query,
+    maximumRecords: '1',
+    recordSchema: 'marcxml',
+  });
+
+  // The catalogue doesn't send CORS headers, so production goes through the Netlify function
+  const isNetlify = window.location.hostname.includes('netlify.app') ||
+                    window.location.hostname.includes('vtuhy.cz');
+  const url = isNetlify
+    ? `/.netlify/functions/nkp-sru?${new URLSearchParams({ query })}`
+    : `${NKP_SRU_URL}?${params}`;
+
+  // NKP runs alongside the other primary providers, so a slow catalogue gets a short timeout
+  // and no retries instead of holding up every lookup
+  const response = await fetchWithPolicy(url, { timeout: NKP_TIMEOUT, retries: 0 });
+  if (!isFoundResponse(response, url)) return null;
+  return response.text();
+}
+
+/**
+ * Look up a book in the Czech National Library catalogue and map its MARC21 record.
+ * Timeouts, network and server errors are thrown; null means the catalogue has no record.
+ */
+async function fetchFromNkp(isbn13: string, isbn10: string | undefined): Promise<ProviderResult | null> {
+  const xml = await fetchSru(buildNkpQuery(isbn10 ? [isbn13, isbn10] : [isbn13]));
+  if (!xml) return null;
+
+  const [record] = parseMarcXml(xml);
+  if (!record) return null;
+
+  const metadata = marcRecordToMetadata(record);
+  return metadata.title ? metadata : null;
+}
+
+export const nkpProvider: MetadataProvider = {
+  id: 'nkp',
+  name: 'Národní knihovna ČR',
+  capabilities: {
+    fields: ['title', 'authors', 'statementOfResponsibility', 'publisher', 'publishedYear', 'edition', 'language', 'subjects', 'description'],
+    identifierTypes: ['isbn'],
+  },
+  lookup: (isbn13, isbn10) => fetchFromNkp(isbn13, isbn10),
+};
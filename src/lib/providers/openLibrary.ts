@@ -0,0 +1,121 @@
+import type { MetadataProvider, ProviderResult } from './types';
+import { verifyCoverExists } from './coverUtils';
+import { fetchWithPolicy, isFoundResponse } from '../http';
+
+/**
+ * Fetch from Open Library API. Network and server errors are thrown; null means Open Library doesn't know the ISBN.
+ */
+async function fetchFromOpenLibrary(isbn13: string, isbn10: string | undefined): Promise<ProviderResult | null> {
+  // Try ISBN-13 first, then ISBN-10
+  const identifiers = isbn10 ? [isbn13, isbn10] : [isbn13];
+
+  for (const isbn of identifiers) {
+    const url = `https://openlibrary.org/isbn/${isbn}.json`;
+    const response = await fetchWithPolicy(url);
+    if (!isFoundResponse(response, url)) continue;
+
+    // Check if response is actually JSON (Open Library sometimes returns HTML)
+    const contentType = response.headers.get('content-type');
+    if (!contentType || !contentType.includes('application/json')) {
+      continue;
+    }
+
+    const data = await response.json();
+    
+    if (data.title) {
+      // Author records are fetched in parallel (the HTTP layer limits requests per host)
+      const authorNames = await Promise.all(
+        (data.authors || []).map(async (authorRef: { key: string }) => {
+          const authorUrl = `https://openlibrary.org${authorRef.key}.json`;
+          const authorResponse = await fetchWithPolicy(authorUrl);
+          // Skip authors whose record is missing
+          if (!isFoundResponse(authorResponse, authorUrl)) return null;
+          const authorData = await authorResponse.json();
+          return authorData.name || '';
+        })
+      );
+      const authors = authorNames.filter((name): name is string => name !== null);
+
+      // Get cover URL - Open Library covers work with both ISBN-13 and ISBN-10
+      // Verify the cover exists (not a 1px placeholder) before using it
+      let coverUrl: string | undefined;
+      // Prefer ISBN-13, fallback to ISBN-10
+      if (isbn13) {
+        const potentialCover = `https://covers.openlibrary.org/b/isbn/${isbn13}-L.jpg`;
+        const isValid = await verifyCoverExists(potentialCover);
+        if (isValid) {
+          coverUrl = potentialCover;
+        }
+      }
+      
+      // Try ISBN-10 if ISBN-13 didn't work
+      if (!coverUrl && isbn10) {
+        const potentialCover = `https://covers.openlibrary.org/b/isbn/${isbn10}-L.jpg`;
+        const isValid = await verifyCoverExists(potentialCover);
+        if (isValid) {
+          coverUrl = potentialCover;
+        }
+      }
+
+      const publishedYear = data.publish_date 
+        ? parseInt(data.publish_date.split('-')[0] || data.publish_date)
+        : undefined;
+
+      return {
+        title: data.title,
+        authors: authors.length > 0 ? authors : undefined,
+        publisher: data.publishers?.[0],
+        publishedYear,
+        description: typeof data.description === 'string' 
+          ? data.description 
+          : data.description?.value,
+        coverUrl,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Open Library covers are keyed by ISBN and return a placeholder when missing,
+ * so each candidate is verified before use
+ */
+async function findOpenLibraryCover(isbn13: string, isbn10: string | undefined): Promise<ProviderResult | null> {
+  const candidates = [
+    `https://covers.openlibrary.org/b/isbn/${isbn13}-L.jpg`,
+    // Try Open Library with ISBN-10 if ISBN-13 didn't work
+    ...(isbn10 ? [`https://covers.openlibrary.org/b/isbn/${isbn10}-L.jpg`] : []),
+    // Try alternative cover sizes if large doesn't work
+    `https://covers.openlibrary.org/b/isbn/${isbn13}-M.jpg`,
+    `https://covers.openlibrary.org/b/isbn/${isbn13}-S.jpg`,
+  ];
+
+  for (const coverUrl of candidates) {
+    if (await verifyCoverExists(coverUrl)) {
+      return { coverUrl };
+    }
+  }
+  return null;
+}
+
+// Open Library only indexes ISBNs, so ISMNs (sheet music) are skipped
+export const openLibraryProvider: MetadataProvider = {
+  id: 'open-library',
+  name: 'Open Library',
+  capabilities: {
+    fields: ['title', 'authors', 'publisher', 'publishedYear', 'description', 'coverUrl'],
+    identifierTypes: ['isbn'],
+  },
+  lookup: (isbn13, isbn10) => fetchFromOpenLibrary(isbn13, isbn10),
+};
+
+export const openLibraryCoversProvider: MetadataProvider = {
+  id: 'open-library-covers',
+  name: 'Open Library Covers',
+  capabilities: {
+    fields: ['coverUrl'],
+    identifierTypes: ['isbn'],
+    fallback: true,
+  },
+  lookup: (isbn13, isbn10) => findOpenLibraryCover(isbn13, isbn10),
+};
@@ -0,0 +1,105 @@
+import type { MetadataProvider } from './types';
+import { nkpProvider } from './nkp';
+import { openLibraryProvider, openLibraryCoversProvider } from './openLibrary';
+import { googleBooksProvider, googleBooksTitleCoverProvider } from './googleBooks';
+import { googleSearchProvider, googleSearchCoverProvider } from './googleSearch';
+
+const CONFIG_STORAGE_KEY = 'isbn_database_providers';
+
+interface ProviderConfig {
+  order: string[];
+  disabled: string[];
+}
+
+// Default order: earlier providers win when two sources supply the same field
+const providers: MetadataProvider[] = [
+  // Most of the collection is Czech, and the national catalogue has the best records for it
+  nkpProvider,
+  openLibraryProvider,
+  googleBooksProvider,
+  openLibraryCoversProvider,
+  googleBooksTitleCoverProvider,
+  googleSearchProvider,
+  googleSearchCoverProvider,
+];
+
+function loadConfig(): ProviderConfig {
+  try {
+    const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return {
+        order: Array.isArray(parsed.order) ? parsed.order : [],
+        disabled: Array.isArray(parsed.disabled) ? parsed.disabled : [],
+      };
+    }
+  } catch (error) {
+    console.error('Error reading provider config from localStorage:', error);
+  }
+  return { order: [], disabled: [] };
+}
+
+function saveConfig(config: ProviderConfig): void {
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+}
+
+/**
+ * Add a provider to the registry. It is placed before `options.before` if given, otherwise last.
+ * Registering an id that already exists replaces that provider in place.
+ */
+export function registerProvider(provider: MetadataProvider, options: { before?: string } = {}): void {
+  const existingIndex = providers.findIndex(p => p.id === provider.id);
+  if (existingIndex >= 0) {
+    providers[existingIndex] = provider;
+    return;
+  }
+
+  const beforeIndex = options.before ? providers.findIndex(p => p.id === options.before) : -1;
+  if (beforeIndex >= 0) {
+    providers.splice(beforeIndex, 0, provider);
+  } else {
+    providers.push(provider);
+  }
+}
+
+/**
+ * All registered providers in lookup order (user-defined order first, then registration order)
+ */
+export function getProviders(): MetadataProvider[] {
+  const { order } = loadConfig();
+  const rank = (provider: MetadataProvider) => {
+    const index = order.indexOf(provider.id);
+    return index >= 0 ? index : order.length + providers.indexOf(provider);
+  };
+  return [...providers].sort((a, b) => rank(a) - rank(b));
+}
+
+export function isProviderEnabled(id: string): boolean {
+  return !loadConfig().disabled.includes(id);
+}
+
+/**
+ * Enabled providers in lookup order, optionally restricted to the given ids
+ */
+export function getEnabledProviders(onlyIds?: string[]): MetadataProvider[] {
+  const { disabled } = loadConfig();
+  return getProviders().filter(provider =>
+    !disabled.includes(provider.id) && (!onlyIds || onlyIds.includes(provider.id))
+  );
+}
+
+export function setProviderEnabled(id: string, enabled: boolean): void {
+  const config = loadConfig();
+  const disabled = config.disabled.filter(d => d !== id);
+  if (!enabled) {
+    disabled.push(id);
+  }
+  saveConfig({ ...config, disabled });
+}
+
+/**
+ * Set lookup order by provider id. Providers not listed keep their relative order after the listed ones.
+ */
+export function setProviderOrder(ids: string[]): void {
+  saveConfig({ ...loadConfig(), order: ids });
+}
@@ -0,0 +1,54 @@
+import type { BookMetadata, IdentifierType, MetadataField } from '../../types';
+
+export type { MetadataField };
+
+export const METADATA_FIELDS: MetadataField[] = [
+  'title',
+  'authors',
+  'publisher',
+  'publishedYear',
+  'edition',
+  'language',
+  'subjects',
+  'statementOfResponsibility',
+  'description',
+  'coverUrl',
+];
+
+export interface ProviderCapabilities {
+  // Fields this provider is able to supply
+  fields: MetadataField[];
+  // Identifier types the source can be queried with
+  identifierTypes: IdentifierType[];
+  // Fallback providers run one by one after the primary ones, and only while one of their fields is still missing
+  fallback?: boolean;
+  // The provider searches by title, so it only runs once an earlier provider has found one
+  requiresTitle?: boolean;
+}
+
+/**
+ * What lookupBook already knows when it calls a provider
+ */
+export interface ProviderLookupContext {
+  identifierType: IdentifierType;
+  // Metadata merged from providers that ran earlier
+  current: Partial<BookMetadata>;
+}
+
+export type ProviderResult = Partial<Pick<BookMetadata, MetadataField>>;
+
+/**
+ * A source of book metadata (a catalogue, bookstore, search engine or cover service)
+ */
+export interface MetadataProvider {
+  id: string;
+  // Human-readable source name shown to the user
+  name: string;
+  capabilities: ProviderCapabilities;
+  // How long results stay in the lookup cache, in ms (defaults in lookupCache.ts)
+  cacheTtl?: {
+    found: number;
+    notFound: number;
+  };
+  lookup(isbn13: string, isbn10: string | undefined, context: ProviderLookupContext): Promise<ProviderResult | null>;
+}
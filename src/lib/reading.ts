@@ -0,0 +1,74 @@
+import type { Book, ReadingStatus } from '../types';
+import { todayISO } from './loans';
+
+export const READING_STATUS_LABELS: Record<ReadingStatus, string> = {
+  'to-read': 'Chci číst',
+  'reading': 'Čtu',
+  'read': 'Přečteno',
+  'abandoned': 'Odloženo',
+};
+
+export const MAX_RATING = 5;
+
+/**
+ * Reading fields of a book, edited together in the drawer
+ */
+export type ReadingFields = Pick<Book, 'readingStatus' | 'startedAt' | 'finishedAt' | 'currentPage' | 'pageCount' | 'rating' | 'review'>;
+
+export function getReadingFields(book: Book | null): ReadingFields {
+  return {
+    readingStatus: book?.readingStatus,
+    startedAt: book?.startedAt,
+    finishedAt: book?.finishedAt,
+    currentPage: book?.currentPage,
+    pageCount: book?.pageCount,
+    rating: book?.rating,
+    review: book?.review,
+  };
+}
+
+/**
+ * Change the status, filling in what it implies: starting today, finishing today on the last page
+ */
+export function withReadingStatus(fields: ReadingFields, status: ReadingStatus | undefined): ReadingFields {
+  const updated: ReadingFields = { ...fields, readingStatus: status };
+  if (status === 'reading' && !updated.startedAt) {
+    updated.startedAt = todayISO();
+  }
+  if (status === 'read') {
+    updated.finishedAt = updated.finishedAt || todayISO();
+    if (updated.pageCount) updated.currentPage = updated.pageCount;
+  }
+  return updated;
+}
+
+/**
+ * Fields as saved: empty values dropped, pages and rating kept within range
+ */
+export function cleanReadingFields(fields: ReadingFields): ReadingFields {
+  const pageCount = fields.pageCount && fields.pageCount > 0 ? Math.round(fields.pageCount) : undefined;
+  let currentPage = fields.currentPage !== undefined && fields.currentPage >= 0 ? Math.round(fields.currentPage) : undefined;
+  if (currentPage !== undefined && pageCount) currentPage = Math.min(currentPage, pageCount);
+  return {
+    readingStatus: fields.readingStatus,
+    startedAt: fields.startedAt || undefined,
+    finishedAt: fields.finishedAt || undefined,
+    currentPage,
+    pageCount,
+    rating: fields.rating ? Math.min(Math.max(Math.round(fields.rating), 1), MAX_RATING) : undefined,
+    review: fields.review?.trim() || undefined,
+  };
+}
+
+/**
+ * Share of the book read, 0–100, when both the current page and the page count are known
+ */
+export function getReadingProgress(book: Pick<Book, 'currentPage' | 'pageCount' | 'readingStatus'>): number | undefined {
+  if (book.readingStatus === 'read') return 100;
+  if (!book.pageCount || book.currentPage === undefined) return undefined;
+  return Math.min(100, Math.round((book.currentPage / book.pageCount) * 100));
+}
+
+export function formatRating(rating: number): string {
+  return '★'.repeat(rating) + '☆'.repeat(MAX_RATING - rating);
+}
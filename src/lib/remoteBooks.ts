@@ -0,0 +1,397 @@
+import type { Book, BookCopy, BookProvenance, IdentifierType, Loan, ReadingStatus } from '../types';
+import type { Database, Json } from './database.types';
+import { supabase } from './supabase';
+import { deleteImageFromSupabase, isSupabaseStorageUrl, downloadAndUploadExternalImage } from './storageUpload';
+import { getIdentifierType } from './isbn';
+import type { BookSortKey } from './sorting';
+
+export type BookRow = Database['public']['Tables']['books']['Row'];
+
+// Lookups used to append "[Zdroj: …]" to the description before provenance was stored per field
+const LEGACY_SOURCE_NOTE = /\s*\[Zdroj: [^\]]*\]\s*$/;
+
+export function stripLegacySourceNote(description: string | null | undefined): string | undefined {
+  return description?.replace(LEGACY_SOURCE_NOTE, '') || undefined;
+}
+
+// source_payload holds { provenance } written by bookToRow; anything else is ignored
+function payloadToProvenance(payload: Json | null): BookProvenance | undefined {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return undefined;
+  const provenance = payload.provenance;
+  if (!provenance || typeof provenance !== 'object' || Array.isArray(provenance)) return undefined;
+  return provenance as unknown as BookProvenance;
+}
+
+// Helper to convert Supabase row to Book
+export function rowToBook(row: BookRow): Book {
+  return {
+    id: row.id,
+    libraryId: row.library_id,
+    isbn13: row.isbn13,
+    isbn10: row.isbn10 || undefined,
+    // Rows saved before identifier_type existed are classified from the number itself
+    identifierType: (row.identifier_type as IdentifierType | null) || getIdentifierType(row.isbn13),
+    title: row.title,
+    authors: row.authors || undefined,
+    publisher: row.publisher || undefined,
+    publishedYear: row.published_year || undefined,
+    edition: row.edition || undefined,
+    language: row.language || undefined,
+    subjects: row.subjects || undefined,
+    statementOfResponsibility: row.statement_of_responsibility || undefined,
+    description: stripLegacySourceNote(row.description),
+    coverUrl: row.cover_url || undefined,
+    imageUrl: row.image_url || undefined,
+    tags: row.tags || undefined,
+    copies: Array.isArray(row.copies) && row.copies.length > 0 ? row.copies as unknown as BookCopy[] : undefined,
+    loans: Array.isArray(row.loans) && row.loans.length > 0 ? row.loans as unknown as Loan[] : undefined,
+    readingStatus: (row.reading_status as ReadingStatus | null) || undefined,
+    startedAt: row.started_at || undefined,
+    finishedAt: row.finished_at || undefined,
+    currentPage: row.current_page ?? undefined,
+    pageCount: row.page_count || undefined,
+    rating: row.rating || undefined,
+    review: row.review || undefined,
+    provenance: payloadToProvenance(row.source_payload),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+type BookInsert = Database['public']['Tables']['books']['Insert'];
+
+// Columns added after the initial schema; saving retries without them on older databases
+const OPTIONAL_COLUMNS = [
+  'image_url',
+  'identifier_type',
+  'edition',
+  'language',
+  'subjects',
+  'statement_of_responsibility',
+  'copies',
+  'loans',
+  'reading_status',
+  'started_at',
+  'finished_at',
+  'current_page',
+  'page_count',
+  'rating',
+  'review',
+] as const;
+
+// Helper to convert Book to Supabase row; owner_id (who added the book) is filled in by the database
+function bookToRow(book: Book, libraryId: string): BookInsert {
+  const row: BookInsert = {
+    id: book.id,
+    library_id: libraryId,
+    isbn13: book.isbn13,
+    isbn10: book.isbn10 || null,
+    identifier_type: book.identifierType || getIdentifierType(book.isbn13),
+    title: book.title,
+    authors: book.authors || null,
+    publisher: book.publisher || null,
+    published_year: book.publishedYear || null,
+    edition: book.edition || null,
+    language: book.language || null,
+    subjects: book.subjects || null,
+    statement_of_responsibility: book.statementOfResponsibility || null,
+    description: book.description || null,
+    cover_url: book.coverUrl || null,
+    image_url: book.imageUrl || null,
+    tags: book.tags || null,
+    copies: book.copies && book.copies.length > 0 ? book.copies as unknown as Json : null,
+    loans: book.loans && book.loans.length > 0 ? book.loans as unknown as Json : null,
+    reading_status: book.readingStatus || null,
+    started_at: book.startedAt || null,
+    finished_at: book.finishedAt || null,
+    current_page: book.currentPage ?? null,
+    page_count: book.pageCount || null,
+    rating: book.rating || null,
+    review: book.review || null,
+    source_payload: book.provenance ? { provenance: book.provenance as unknown as Json } : null,
+    created_at: book.createdAt,
+    updated_at: book.updatedAt,
+  };
+  return row;
+}
+
+// Rows per request when pulling a library; PostgREST cuts longer responses off at its max-rows limit (1000 by default)
+const FETCH_PAGE_SIZE = 1000;
+
+// Ids per request when fetching books by id, so the URL stays short
+const FETCH_BY_ID_SIZE = 100;
+
+/**
+ * Every book of a library in Supabase, or only those updated after `changedSince`, fetched in pages by id.
+ * Throws when Supabase is unreachable or returns an error.
+ */
+export async function fetchRemoteBooks(libraryId: string, changedSince?: string): Promise<Book[]> {
+  if (!supabase) throw new Error('Supabase is not configured');
+  console.log('Fetching books from Supabase for library', libraryId, changedSince ? `changed since ${changedSince}` : '');
+  const books: Book[] = [];
+  let lastId: string | null = null;
+
+  for (;;) {
+    let request = supabase
+      .from('books')
+      .select('*')
+      .eq('library_id', libraryId);
+    if (changedSince) {
+      request = request.gt('updated_at', changedSince);
+    }
+    if (lastId) {
+      request = request.gt('id', lastId);
+    }
+    const { data, error } = await request.order('id', { ascending: true }).limit(FETCH_PAGE_SIZE);
+
+    if (error) {
+      throw new Error(`Supabase error: ${error.message}`);
+    }
+    const rows: BookRow[] = data || [];
+    books.push(...rows.map(rowToBook));
+    if (rows.length < FETCH_PAGE_SIZE) break;
+    lastId = rows[rows.length - 1].id;
+  }
+
+  console.log('Successfully fetched from Supabase:', books.length, 'books');
+  return books;
+}
+
+/**
+ * Ids of every book of a library in Supabase, to find deleted books without downloading the rest
+ */
+export async function fetchRemoteBookIds(libraryId: string): Promise<string[]> {
+  if (!supabase) throw new Error('Supabase is not configured');
+  const ids: string[] = [];
+  let lastId: string | null = null;
+
+  for (;;) {
+    let request = supabase
+      .from('books')
+      .select('id')
+      .eq('library_id', libraryId);
+    if (lastId) {
+      request = request.gt('id', lastId);
+    }
+    const { data, error } = await request.order('id', { ascending: true }).limit(FETCH_PAGE_SIZE);
+
+    if (error) {
+      throw new Error(`Supabase error: ${error.message}`);
+    }
+    const rows = data || [];
+    ids.push(...rows.map(row => row.id));
+    if (rows.length < FETCH_PAGE_SIZE) break;
+    lastId = rows[rows.length - 1].id;
+  }
+  return ids;
+}
+
+/**
+ * The books with these ids; ids not in Supabase are left out
+ */
+export async function fetchRemoteBooksById(ids: string[]): Promise<Book[]> {
+  if (!supabase) throw new Error('Supabase is not configured');
+  const books: Book[] = [];
+  for (let start = 0; start < ids.length; start += FETCH_BY_ID_SIZE) {
+    const { data, error } = await supabase
+      .from('books')
+      .select('*')
+      .in('id', ids.slice(start, start + FETCH_BY_ID_SIZE));
+
+    if (error) {
+      throw new Error(`Supabase error: ${error.message}`);
+    }
+    books.push(...(data || []).map(rowToBook));
+  }
+  return books;
+}
+
+/**
+ * Arguments of the search_books function (see SUPABASE_SETUP.md); unset ones don't filter
+ */
+export interface RemoteBookQuery {
+  // Prefix words in to_tsquery syntax, e.g. "capek:* & valka:*"
+  searchQuery?: string;
+  // The same words separated by spaces, for the typo-tolerant match on titles and authors
+  searchWords?: string;
+  tags?: string[];
+  readingStatus?: ReadingStatus;
+  yearFrom?: number;
+  yearTo?: number;
+  isbn?: string;
+  sort: BookSortKey | 'relevance';
+}
+
+/**
+ * Position of the last book of a page in the search_books order
+ */
+export interface RemoteCursor {
+  value: string;
+  id: string;
+}
+
+/**
+ * One page of a library's books filtered and ordered by Postgres, with the cursor of its last book
+ */
+export async function queryRemoteBooks(
+  libraryId: string,
+  query: RemoteBookQuery,
+  after: RemoteCursor | null,
+  pageSize: number,
+): Promise<{ books: Book[]; last: RemoteCursor | null }> {
+  if (!supabase) throw new Error('Supabase is not configured');
+  const { data, error } = await supabase.rpc('search_books', {
+    library: libraryId,
+    search_query: query.searchQuery ?? null,
+    search_words: query.searchWords ?? null,
+    tag_list: query.tags ?? null,
+    status: query.readingStatus ?? null,
+    year_from: query.yearFrom ?? null,
+    year_to: query.yearTo ?? null,
+    isbn: query.isbn ?? null,
+    sort: query.sort,
+    after_value: after?.value ?? null,
+    after_id: after?.id ?? null,
+    page_size: pageSize,
+  });
+
+  if (error) {
+    throw new Error(`Supabase error: ${error.message}`);
+  }
+  const rows = data || [];
+  const last = rows[rows.length - 1];
+  return {
+    books: rows.map(row => rowToBook(row.book)),
+    last: last ? { value: last.sort_value, id: last.book.id } : null,
+  };
+}
+
+/**
+ * The server version of a book, or null if it doesn't exist there (or isn't in one of the user's libraries)
+ */
+export async function fetchRemoteBook(id: string): Promise<Book | null> {
+  if (!supabase) throw new Error('Supabase is not configured');
+  const { data, error } = await supabase
+    .from('books')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Supabase error: ${error.message}`);
+  }
+  return data ? rowToBook(data) : null;
+}
+
+/**
+ * Write a book to Supabase, replacing `previous` (its current server version, if any).
+ * External images are copied into Supabase storage and a replaced image is deleted from it.
+ * Returns the book as saved, i.e. with the storage image URL.
+ */
+export async function upsertRemoteBook(book: Book, previous: Book | null): Promise<Book> {
+  if (!supabase) throw new Error('Supabase is not configured');
+  if (!book.libraryId) throw new Error('Book has no library');
+
+  // Normalize imageUrl values (handle undefined, null, empty string)
+  const oldImageUrl = previous?.imageUrl || null;
+  const newImageUrl = book.imageUrl || null;
+
+  // If the book has an old imageUrl that's different from the new one
+  // AND the old imageUrl is from our Supabase storage
+  if (oldImageUrl &&
+      oldImageUrl !== newImageUrl &&
+      isSupabaseStorageUrl(oldImageUrl)) {
+    // Delete the old image from storage
+    console.log('[upsertRemoteBook] Image URL changed, deleting old image:', oldImageUrl);
+    console.log('[upsertRemoteBook] New image URL:', newImageUrl);
+    await deleteImageFromSupabase(oldImageUrl);
+  } else if (oldImageUrl && oldImageUrl !== newImageUrl) {
+    console.log('[upsertRemoteBook] Image URL changed but old URL is not from Supabase storage, skipping deletion:', oldImageUrl);
+  }
+
+  // If imageUrl is external (not from Supabase), download and upload it
+  // ALWAYS convert external URLs, even if they're the same (in case conversion failed before)
+  let finalImageUrl = book.imageUrl;
+  if (book.imageUrl && !isSupabaseStorageUrl(book.imageUrl)) {
+    console.log('[upsertRemoteBook] ✅ Image URL is external, downloading and uploading to Supabase storage');
+    console.log('[upsertRemoteBook] Original URL:', book.imageUrl);
+    const convertedUrl = await downloadAndUploadExternalImage(book.imageUrl);
+    console.log('[upsertRemoteBook] Converted URL:', convertedUrl);
+
+    // Verify the conversion actually happened
+    if (isSupabaseStorageUrl(convertedUrl)) {
+      console.log('[upsertRemoteBook] ✅ Conversion successful, using Supabase URL');
+    } else {
+      console.error('[upsertRemoteBook] ❌ Conversion failed - URL is still external:', convertedUrl);
+      console.error('[upsertRemoteBook] This might be due to CORS restrictions or network errors');
+      console.error('[upsertRemoteBook] Saving with original external URL (image may break in future)');
+    }
+    // This will be the original URL if conversion failed
+    finalImageUrl = convertedUrl;
+  }
+
+  // Create a new book object with the updated imageUrl to ensure it's saved correctly
+  const bookToSave = { ...book, imageUrl: finalImageUrl };
+  const row = bookToRow(bookToSave, book.libraryId);
+  console.log('[upsertRemoteBook] Saving book to Supabase with image_url:', row.image_url); // Debug log
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('books')
+    .upsert([row], { onConflict: 'id' });
+
+  if (error) {
+    console.error('Error saving book to Supabase:', error);
+    console.error('Book data:', row);
+    // If an optional column (image_url, identifier_type, ...) doesn't exist yet, try without it
+    const missingColumns = OPTIONAL_COLUMNS.filter(column => error.message?.includes(column));
+    if (missingColumns.length === 0) {
+      throw new Error(`Supabase error: ${error.message || 'Unknown error'}`);
+    }
+    console.warn(`${missingColumns.join(', ')} column may not exist, saving without it`);
+    const rowWithoutOptional = { ...row };
+    for (const column of missingColumns) {
+      delete rowWithoutOptional[column];
+    }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error: retryError } = await (supabase as any)
+      .from('books')
+      .upsert([rowWithoutOptional], { onConflict: 'id' });
+    if (retryError) {
+      console.error(`Error saving without ${missingColumns.join(', ')}:`, retryError);
+      throw new Error(`Supabase error: ${retryError.message}`);
+    }
+  }
+
+  console.log('Book saved successfully to Supabase');
+  return bookToSave;
+}
+
+/**
+ * Delete a book from Supabase, along with its image if that is in our storage bucket.
+ * `previous` is the book's current server version.
+ */
+export async function deleteRemoteBook(id: string, previous: Book | null): Promise<void> {
+  if (!supabase) throw new Error('Supabase is not configured');
+
+  // Delete the image from storage if it exists and is from our storage bucket
+  if (previous?.imageUrl) {
+    if (isSupabaseStorageUrl(previous.imageUrl)) {
+      console.log('[deleteRemoteBook] Deleting book image from storage:', previous.imageUrl);
+      await deleteImageFromSupabase(previous.imageUrl);
+    } else {
+      console.log('[deleteRemoteBook] Skipping image deletion - not from our storage bucket:', previous.imageUrl);
+    }
+  }
+
+  console.log('[deleteRemoteBook] Deleting book record from database');
+  const { error } = await supabase
+    .from('books')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('[deleteRemoteBook] Error deleting book from Supabase:', error);
+    throw new Error(`Supabase error: ${error.message}`);
+  }
+  console.log('[deleteRemoteBook] Book deleted successfully from Supabase');
+}
@@ -0,0 +1,296 @@
+import type { Book } from '../types';
+import { compactISBN } from './isbn';
+import { getCopySearchValues } from './copies';
+import { sortBooks } from './sorting';
+
+/**
+ * Fields a query part can be limited to with a qualifier such as `author:capek`
+ */
+export type SearchQualifier = 'title' | 'author' | 'tag' | 'publisher' | 'location' | 'year' | 'isbn';
+
+// Qualifier names as typed (after folding), in English and Czech
+const QUALIFIER_NAMES: Record<string, SearchQualifier> = {
+  title: 'title',
+  nazev: 'title',
+  author: 'author',
+  autor: 'author',
+  tag: 'tag',
+  stitek: 'tag',
+  publisher: 'publisher',
+  nakladatel: 'publisher',
+  location: 'location',
+  umisteni: 'location',
+  year: 'year',
+  rok: 'year',
+  isbn: 'isbn',
+};
+
+/**
+ * One word of the query; `isbn` is set when it could also be (part of) an ISBN
+ */
+interface SearchTerm {
+  text: string;
+  isbn?: string;
+}
+
+export interface ParsedSearch {
+  terms: SearchTerm[];
+  fields: Array<{ qualifier: Exclude<SearchQualifier, 'year' | 'isbn'>; terms: SearchTerm[] }>;
+  isbns: string[];
+  // Inclusive publication year range from year:
+  years?: { min?: number; max?: number };
+}
+
+const SPECIAL_LETTERS: Record<string, string> = { 'ł': 'l', 'ø': 'o', 'đ': 'd', 'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ı': 'i' };
+
+/**
+ * Lowercase and strip diacritics, so "Čapek" and "capek" compare equal
+ */
+export function foldText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[łøđßæœı]/g, letter => SPECIAL_LETTERS[letter]);
+}
+
+function splitWords(foldedText: string): string[] {
+  return foldedText.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function toTerms(value: string): SearchTerm[] {
+  const isbn = compactISBN(value);
+  // Digits (and the ISBN-10 X) with optional hyphens: match the ISBN as well as the text
+  if (/^[\dX]{3,}$/.test(isbn) && /\d/.test(isbn)) {
+    return [{ text: foldText(isbn), isbn }];
+  }
+  return splitWords(foldText(value)).map(text => ({ text }));
+}
+
+/**
+ * ">1990", ">=1990", "<2000", "1990-1999", "1990..1999" or "1984"; undefined while it isn't a valid year yet
+ */
+function parseYearRange(value: string): ParsedSearch['years'] {
+  const range = value.match(/^(\d{4})(?:-|\.\.)(\d{4})$/);
+  if (range) return { min: parseInt(range[1]), max: parseInt(range[2]) };
+  const comparison = value.match(/^(>=|<=|>|<|=)?(\d{4})$/);
+  if (!comparison) return undefined;
+  const year = parseInt(comparison[2]);
+  switch (comparison[1]) {
+    case '>': return { min: year + 1 };
+    case '>=': return { min: year };
+    case '<': return { max: year - 1 };
+    case '<=': return { max: year };
+    default: return { min: year, max: year };
+  }
+}
+
+/**
+ * Split a query into plain words and qualified parts. Qualifier values may be quoted: author:"karel capek".
+ * Unknown qualifiers ("re:zero") are searched as plain text.
+ */
+export function parseSearchQuery(query: string): ParsedSearch {
+  const parsed: ParsedSearch = { terms: [], fields: [], isbns: [] };
+  const tokens = query.matchAll(/([^\s:"]+):(?:"([^"]*)"?|(\S*))|"([^"]*)"?|(\S+)/g);
+
+  for (const [token, name, quotedValue, value, quoted, word] of tokens) {
+    const qualifier = name ? QUALIFIER_NAMES[foldText(name)] : undefined;
+    if (name && !qualifier) {
+      parsed.terms.push(...toTerms(token));
+      continue;
+    }
+    if (!qualifier) {
+      parsed.terms.push(...toTerms(quoted ?? word ?? ''));
+      continue;
+    }
+
+    const qualifierValue = (quotedValue ?? value ?? '').trim();
+    // "author:" while still typing
+    if (!qualifierValue) continue;
+    if (qualifier === 'year') {
+      const years = parseYearRange(qualifierValue);
+      if (years) parsed.years = years;
+    } else if (qualifier === 'isbn') {
+      parsed.isbns.push(compactISBN(qualifierValue));
+    } else {
+      const terms = splitWords(foldText(qualifierValue)).map(text => ({ text }));
+      if (terms.length > 0) parsed.fields.push({ qualifier, terms });
+    }
+  }
+
+  return parsed;
+}
+
+type IndexedField = Exclude<SearchQualifier, 'year' | 'isbn'> | 'subject' | 'description';
+
+// How much a match in each field counts towards relevance
+const FIELD_WEIGHTS: Record<IndexedField, number> = {
+  title: 10,
+  author: 8,
+  tag: 6,
+  publisher: 4,
+  subject: 3,
+  location: 3,
+  description: 1,
+};
+
+interface IndexedValue {
+  text: string;
+  words: string[];
+}
+
+type BookIndex = Record<IndexedField, IndexedValue[]>;
+
+// Folded text per book, reused while the same book objects are searched again
+const indexCache = new WeakMap<Book, BookIndex>();
+
+function indexValues(values: Array<string | undefined>): IndexedValue[] {
+  return values
+    .filter((value): value is string => !!value)
+    .map(value => {
+      const text = foldText(value);
+      return { text, words: splitWords(text) };
+    });
+}
+
+function getIndex(book: Book): BookIndex {
+  let index = indexCache.get(book);
+  if (!index) {
+    index = {
+      title: indexValues([book.title]),
+      author: indexValues([...(book.authors || []), book.statementOfResponsibility]),
+      tag: indexValues(book.tags || []),
+      publisher: indexValues([book.publisher]),
+      subject: indexValues(book.subjects || []),
+      location: indexValues(getCopySearchValues(book)),
+      description: indexValues([book.description]),
+    };
+    indexCache.set(book, index);
+  }
+  return index;
+}
+
+/**
+ * Edit distance counting a swap of neighbouring letters as one edit; stops early above `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousPrevious[j - 2] + 1);
+      }
+      current.push(distance);
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well a word matches one field, from 0 (not at all) to 1 (a whole word)
+ */
+function matchQuality(term: string, values: IndexedValue[]): number {
+  // One typo is tolerated from four letters on, two from eight
+  const maxTypos = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  let best = 0;
+  for (const value of values) {
+    for (const word of value.words) {
+      if (word === term) return 1;
+      if (word.startsWith(term)) {
+        best = Math.max(best, 0.8);
+      } else if (maxTypos > 0 && best < 0.4) {
+        // A typo in a whole word, or in the beginning of a longer one while still typing
+        if (editDistance(term, word, maxTypos) <= maxTypos) {
+          best = 0.4;
+        } else if (word.length > term.length && editDistance(term, word.slice(0, term.length), maxTypos) <= maxTypos) {
+          best = 0.3;
+        }
+      }
+    }
+    if (best < 0.5 && term.length >= 3 && value.text.includes(term)) best = 0.5;
+  }
+  return best;
+}
+
+function isbnMatches(book: Book, isbn: string): boolean {
+  return book.isbn13.includes(isbn) || (!!book.isbn10 && book.isbn10.includes(isbn));
+}
+
+/**
+ * Relevance of a book for a parsed query, or null when it doesn't match.
+ * Every word has to match some field; qualified parts have to match their field.
+ */
+export function scoreBook(book: Book, search: ParsedSearch): number | null {
+  if (search.years) {
+    const { min, max } = search.years;
+    if (!book.publishedYear || (min !== undefined && book.publishedYear < min) || (max !== undefined && book.publishedYear > max)) {
+      return null;
+    }
+  }
+  if (!search.isbns.every(isbn => isbnMatches(book, isbn))) return null;
+
+  const index = getIndex(book);
+  let score = 0;
+
+  for (const { qualifier, terms } of search.fields) {
+    for (const term of terms) {
+      const quality = matchQuality(term.text, index[qualifier]);
+      if (quality === 0) return null;
+      score += FIELD_WEIGHTS[qualifier] * quality;
+    }
+  }
+
+  for (const term of search.terms) {
+    let best = 0;
+    if (term.isbn && isbnMatches(book, term.isbn)) {
+      best = book.isbn13 === term.isbn || book.isbn10 === term.isbn ? 20 : 10;
+    }
+    for (const field of Object.keys(FIELD_WEIGHTS) as IndexedField[]) {
+      best = Math.max(best, FIELD_WEIGHTS[field] * matchQuality(term.text, index[field]));
+    }
+    if (best === 0) return null;
+    score += best;
+  }
+
+  // The whole query as the title, or the start of it, beats scattered words
+  const phrase = search.terms.map(term => term.text).join(' ');
+  const title = index.title[0]?.text || '';
+  if (phrase && title === phrase) {
+    score += 10;
+  } else if (phrase && title.startsWith(phrase)) {
+    score += 5;
+  }
+
+  return score;
+}
+
+/**
+ * Whether a book matches a search query (an empty query matches every book)
+ */
+export function matchesSearch(book: Book, query: string): boolean {
+  return !query.trim() || scoreBook(book, parseSearchQuery(query)) !== null;
+}
+
+/**
+ * Books matching the query, most relevant first (equally relevant ones by title)
+ */
+export function rankBooks(books: Book[], query: string): Book[] {
+  const search = parseSearchQuery(query);
+  const scores = new Map<Book, number>();
+  for (const book of books) {
+    const score = scoreBook(book, search);
+    if (score !== null) scores.set(book, score);
+  }
+  // Sorting is stable, so the title order is kept among equal scores
+  return sortBooks(Array.from(scores.keys()), 'title').sort((a, b) => scores.get(b)! - scores.get(a)!);
+}
@@ -0,0 +1,234 @@
+import type { Book } from '../types';
+import { getReadingProgress } from './reading';
+
+export type BookSortKey = 'title' | 'author' | 'year' | 'added' | 'updated' | 'rating' | 'finished' | 'progress';
+
+export type BookGroupKey = 'none' | 'letter' | 'author' | 'publisher' | 'tag' | 'decade';
+
+export const SORT_LABELS: Record<BookSortKey, string> = {
+  title: 'Název',
+  author: 'Příjmení autora',
+  year: 'Rok vydání',
+  added: 'Naposledy přidané',
+  updated: 'Naposledy upravené',
+  rating: 'Hodnocení',
+  finished: 'Naposledy dočtené',
+  progress: 'Rozečtenost',
+};
+
+export const GROUP_LABELS: Record<BookGroupKey, string> = {
+  none: 'Neseskupovat',
+  letter: 'Počáteční písmeno',
+  author: 'Autor',
+  publisher: 'Nakladatel',
+  tag: 'Tag',
+  decade: 'Desetiletí',
+};
+
+/**
+ * Books under one group header
+ */
+export interface BookGroup {
+  key: string;
+  label: string;
+  books: Book[];
+}
+
+// Sort and grouping survive reloads; the URL (?sort=…&group=…) wins, so links keep the view
+const VIEW_STORAGE_KEY = 'isbn_database_view';
+
+export interface ViewOptions {
+  sort: BookSortKey;
+  group: BookGroupKey;
+}
+
+const DEFAULT_VIEW: ViewOptions = { sort: 'title', group: 'none' };
+
+// Same order as the "cs-CZ-x-icu" collation search_books sorts with, so pages loaded from Supabase and from the
+// offline copy line up
+function compareText(a: string, b: string): number {
+  return a.toLowerCase().localeCompare(b.toLowerCase(), 'cs');
+}
+
+function compareTitles(a: Book, b: Book): number {
+  return compareText(a.title || '', b.title || '');
+}
+
+/**
+ * Surname of an author written either "Čapek, Karel" or "Karel Čapek"
+ */
+export function getSurname(author: string): string {
+  const name = author.trim();
+  if (name.includes(',')) return name.split(',')[0].trim();
+  const parts = name.split(/\s+/);
+  return parts[parts.length - 1];
+}
+
+// Books without a value go last; ties are ordered by title
+function compareDescending(a: number | string | undefined, b: number | string | undefined): number {
+  if (a === b) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+  return a < b ? 1 : -1;
+}
+
+function compareAuthors(a: Book, b: Book): number {
+  const authorA = a.authors?.[0];
+  const authorB = b.authors?.[0];
+  // Books without an author go last
+  if (!authorA || !authorB) return (authorA ? -1 : 0) + (authorB ? 1 : 0);
+  return compareText(getSurname(authorA), getSurname(authorB)) || compareText(authorA, authorB);
+}
+
+/**
+ * Sort books in place: text keys A–Z, the others newest/highest first
+ */
+export function sortBooks(books: Book[], key: BookSortKey): Book[] {
+  return books.sort((a, b) => {
+    let result = 0;
+    if (key === 'author') {
+      result = compareAuthors(a, b);
+    } else if (key === 'year') {
+      result = compareDescending(a.publishedYear, b.publishedYear);
+    } else if (key === 'added') {
+      result = compareDescending(a.createdAt, b.createdAt);
+    } else if (key === 'updated') {
+      result = compareDescending(a.updatedAt, b.updatedAt);
+    } else if (key === 'rating') {
+      result = compareDescending(a.rating, b.rating);
+    } else if (key === 'finished') {
+      result = compareDescending(a.finishedAt, b.finishedAt);
+    } else if (key === 'progress') {
+      result = compareDescending(getReadingProgress(a), getReadingProgress(b));
+    }
+    return result || compareTitles(a, b);
+  });
+}
+
+// Groups a book falls into; none puts it in the trailing "unknown" group
+function getGroupValues(book: Book, key: BookGroupKey): string[] {
+  switch (key) {
+    case 'letter': {
+      const letter = (book.title || '').trim().charAt(0).toLocaleUpperCase('cs');
+      return [/\p{L}/u.test(letter) ? letter : '#'];
+    }
+    case 'author':
+      return book.authors?.[0] ? [book.authors[0].trim()] : [];
+    case 'publisher':
+      return book.publisher?.trim() ? [book.publisher.trim()] : [];
+    case 'tag':
+      return book.tags || [];
+    case 'decade':
+      return book.publishedYear ? [String(Math.floor(book.publishedYear / 10) * 10)] : [];
+    default:
+      return [];
+  }
+}
+
+const UNKNOWN_GROUP_LABELS: Record<BookGroupKey, string> = {
+  none: '',
+  letter: '#',
+  author: 'Bez autora',
+  publisher: 'Bez nakladatele',
+  tag: 'Bez tagu',
+  decade: 'Rok neuveden',
+};
+
+function compareGroups(key: BookGroupKey, a: string, b: string): number {
+  if (key === 'decade') return parseInt(a) - parseInt(b);
+  if (key === 'author') return compareText(getSurname(a), getSurname(b)) || compareText(a, b);
+  // Titles starting with a digit or symbol come last
+  if (key === 'letter' && (a === '#' || b === '#')) return a === b ? 0 : a === '#' ? 1 : -1;
+  return compareText(a, b);
+}
+
+/**
+ * Split already sorted books into groups, keeping their order within each group.
+ * With tags, a book with several tags appears under each of them.
+ */
+export function groupBooks(books: Book[], key: BookGroupKey): BookGroup[] {
+  if (key === 'none') return [{ key: 'all', label: '', books }];
+
+  const groups = new Map<string, Book[]>();
+  const unknown: Book[] = [];
+  for (const book of books) {
+    const values = getGroupValues(book, key);
+    if (values.length === 0) unknown.push(book);
+    for (const value of values) {
+      const group = groups.get(value);
+      if (group) {
+        group.push(book);
+      } else {
+        groups.set(value, [book]);
+      }
+    }
+  }
+
+  const result: BookGroup[] = Array.from(groups.keys())
+    .sort((a, b) => compareGroups(key, a, b))
+    .map(value => ({
+      key: value,
+      label: key === 'decade' ? `${value}–${parseInt(value) + 9}` : value,
+      books: groups.get(value)!,
+    }));
+  if (unknown.length > 0) {
+    result.push({ key: '\u0000unknown', label: UNKNOWN_GROUP_LABELS[key], books: unknown });
+  }
+  return result;
+}
+
+function isSortKey(value: string | null | undefined): value is BookSortKey {
+  return !!value && Object.keys(SORT_LABELS).includes(value);
+}
+
+function isGroupKey(value: string | null | undefined): value is BookGroupKey {
+  return !!value && Object.keys(GROUP_LABELS).includes(value);
+}
+
+/**
+ * Sort and grouping from the URL, else the last ones used on this device
+ */
+export function loadViewOptions(): ViewOptions {
+  let stored: Partial<ViewOptions> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(VIEW_STORAGE_KEY) || '{}');
+  } catch (error) {
+    console.error('Error reading view options from localStorage:', error);
+  }
+  const params = new URLSearchParams(window.location.search);
+  const sort = params.get('sort') || stored.sort;
+  const group = params.get('group') || stored.group;
+  return {
+    sort: isSortKey(sort) ? sort : DEFAULT_VIEW.sort,
+    group: isGroupKey(group) ? group : DEFAULT_VIEW.group,
+  };
+}
+
+/**
+ * Remember the view in localStorage and in the current URL (defaults are left out of the URL)
+ */
+export function saveViewOptions(view: ViewOptions): void {
+  try {
+    localStorage.setItem(VIEW_STORAGE_KEY, JSON.stringify(view));
+  } catch (error) {
+    console.error('Error writing view options to localStorage:', error);
+  }
+  const params = new URLSearchParams(window.location.search);
+  params.delete('sort');
+  params.delete('group');
+  if (view.sort !== DEFAULT_VIEW.sort) params.set('sort', view.sort);
+  if (view.group !== DEFAULT_VIEW.group) params.set('group', view.group);
+  const query = params.toString();
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+}
+
+/**
+ * Path with the view's sort and grouping as query parameters, for URLs the Library pushes
+ */
+export function withViewParams(path: string, view: ViewOptions = loadViewOptions()): string {
+  const params = new URLSearchParams();
+  if (view.sort !== DEFAULT_VIEW.sort) params.set('sort', view.sort);
+  if (view.group !== DEFAULT_VIEW.group) params.set('group', view.group);
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
@@ -0,0 +1,143 @@
+import type { Book } from '../types';
+
+/**
+ * One bar or point of a chart
+ */
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export const MONTH_LABELS = ['led', 'úno', 'bře', 'dub', 'kvě', 'čvn', 'čvc', 'srp', 'zář', 'říj', 'lis', 'pro'];
+
+/**
+ * Books marked as read with a finish date, which the per-year and per-month charts count
+ */
+export function getFinishedBooks(books: Book[]): Book[] {
+  return books.filter(book => book.readingStatus === 'read' && !!book.finishedAt);
+}
+
+/**
+ * Years in which some book was finished, newest first
+ */
+export function getReadingYears(books: Book[]): number[] {
+  const years = new Set(getFinishedBooks(books).map(book => parseInt(book.finishedAt!.slice(0, 4))));
+  return Array.from(years).sort((a, b) => b - a);
+}
+
+/**
+ * Books finished in each year, from the first year to the last (empty years included)
+ */
+export function booksReadPerYear(books: Book[]): ChartPoint[] {
+  const years = getReadingYears(books);
+  if (years.length === 0) return [];
+  const points: ChartPoint[] = [];
+  for (let year = years[years.length - 1]; year <= years[0]; year++) {
+    points.push({ label: String(year), value: 0 });
+  }
+  for (const book of getFinishedBooks(books)) {
+    const point = points.find(p => p.label === book.finishedAt!.slice(0, 4));
+    if (point) point.value++;
+  }
+  return points;
+}
+
+/**
+ * Books finished in each month of a year
+ */
+export function booksReadPerMonth(books: Book[], year: number): ChartPoint[] {
+  const points = MONTH_LABELS.map(label => ({ label, value: 0 }));
+  for (const book of getFinishedBooks(books)) {
+    if (book.finishedAt!.startsWith(`${year}-`)) {
+      points[parseInt(book.finishedAt!.slice(5, 7)) - 1].value++;
+    }
+  }
+  return points;
+}
+
+/**
+ * Pages of finished books plus pages read so far in the rest; `year` limits it to books finished that year
+ */
+export function pagesRead(books: Book[], year?: number): number {
+  if (year !== undefined) {
+    return getFinishedBooks(books)
+      .filter(book => book.finishedAt!.startsWith(`${year}-`))
+      .reduce((sum, book) => sum + (book.pageCount || 0), 0);
+  }
+  return books.reduce((sum, book) => {
+    if (book.readingStatus === 'read') return sum + (book.pageCount || 0);
+    return sum + (book.currentPage || 0);
+  }, 0);
+}
+
+function countValues(values: string[], limit?: number): ChartPoint[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  const points = Array.from(counts, ([label, value]) => ({ label, value }))
+    .sort((a, b) => b.value - a.value || a.label.localeCompare(b.label, 'cs'));
+  return limit ? points.slice(0, limit) : points;
+}
+
+export function topAuthors(books: Book[], limit = 10): ChartPoint[] {
+  return countValues(books.flatMap(book => book.authors || []).map(author => author.trim()).filter(Boolean), limit);
+}
+
+export function topPublishers(books: Book[], limit = 10): ChartPoint[] {
+  return countValues(books.map(book => book.publisher?.trim() || '').filter(Boolean), limit);
+}
+
+export function tagDistribution(books: Book[], limit?: number): ChartPoint[] {
+  return countValues(books.flatMap(book => book.tags || []), limit);
+}
+
+/**
+ * Average of the star ratings given, or undefined when no book is rated
+ */
+export function averageRating(books: Book[]): number | undefined {
+  const ratings = books.map(book => book.rating).filter((rating): rating is number => !!rating);
+  if (ratings.length === 0) return undefined;
+  return ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length;
+}
+
+/**
+ * How many books have each star rating, 1–5
+ */
+export function ratingDistribution(books: Book[]): ChartPoint[] {
+  return [1, 2, 3, 4, 5].map(stars => ({
+    label: '★'.repeat(stars),
+    value: books.filter(book => book.rating === stars).length,
+  }));
+}
+
+/**
+ * Size of the collection at the end of each month, from the month the first book was added
+ */
+export function collectionGrowth(books: Book[]): ChartPoint[] {
+  const months = books
+    .map(book => book.createdAt?.slice(0, 7))
+    .filter((month): month is string => !!month && /^\d{4}-\d{2}$/.test(month))
+    .sort();
+  if (months.length === 0) return [];
+
+  const points: ChartPoint[] = [];
+  let [year, month] = months[0].split('-').map(Number);
+  const [lastYear, lastMonth] = months[months.length - 1].split('-').map(Number);
+  let index = 0;
+  let total = 0;
+  while (year < lastYear || (year === lastYear && month <= lastMonth)) {
+    const key = `${year}-${String(month).padStart(2, '0')}`;
+    while (index < months.length && months[index] === key) {
+      total++;
+      index++;
+    }
+    points.push({ label: `${MONTH_LABELS[month - 1]} ${year}`, value: total });
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return points;
+}
@@ -1,344 +1,215 @@
 import type { Book } from '../types';
-import type { Database } from './database.types';
 import { supabase } from './supabase';
-import { deleteImageFromSupabase, isSupabaseStorageUrl, downloadAndUploadExternalImage } from './storageUpload';
-
-const STORAGE_KEY = 'isbn_database_books';
-
-type BookRow = Database['public']['Tables']['books']['Row'];
+import { rowToBook, queryRemoteBooks } from './remoteBooks';
+import type { BookRow, RemoteBookQuery } from './remoteBooks';
+import { readBooks, readLocalBooks, writeBook, removeBook, applyRemoteUpsert, applyRemoteDelete, getSyncStatus } from './sync';
+import { getActiveLibraryId } from './libraries';
+import { matchesSearch, parseSearchQuery, rankBooks } from './search';
+import type { ParsedSearch } from './search';
+import { matchesFilters } from './filters';
+import type { BookFilters } from './filters';
+import { sortBooks } from './sorting';
+import type { BookSortKey } from './sorting';
+import { compactISBN } from './isbn';
+
+/**
+ * A book added, changed or deleted on another device
+ */
+export type BookChange =
+  | { type: 'upsert'; book: Book }
+  | { type: 'delete'; id: string };
+
+// Realtime topics are reused by name, so every subscription gets its own
+let channelCount = 0;
+
+/**
+ * All books of the active library from the local replica, which the sync engine keeps up to date with Supabase.
+ * Sorted by title A–Z unless another order is given.
+ */
+export async function getAllBooks(sort: BookSortKey = 'title'): Promise<Book[]> {
+  const books = await readBooks();
+  console.log('Loaded from local replica:', books.length, 'books');
+  return sortBooks(books, sort);
+}
 
-// Helper to convert Supabase row to Book
-function rowToBook(row: BookRow): Book {
-  return {
-    id: row.id,
-    isbn13: row.isbn13,
-    isbn10: row.isbn10 || undefined,
-    title: row.title,
-    authors: row.authors || undefined,
-    publisher: row.publisher || undefined,
-    publishedYear: row.published_year || undefined,
-    description: row.description || undefined,
-    coverUrl: row.cover_url || undefined,
-    imageUrl: row.image_url || undefined,
-    tags: row.tags || undefined,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  };
+/**
+ * The active library's books this device already has, sorted by title, without waiting for Supabase.
+ * For what needs the whole library (filter options, export, duplicate checks); the list itself pages with queryBooks.
+ */
+export async function getLocalBooks(): Promise<Book[]> {
+  return sortBooks(await readLocalBooks(), 'title');
 }
 
-type BookInsert = Database['public']['Tables']['books']['Insert'];
+/**
+ * Save a book locally; it is written to Supabase in the background (see sync.ts).
+ * External images are copied into Supabase storage when the change is pushed.
+ */
+export function saveBook(book: Book): Promise<Book> {
+  return writeBook(book);
+}
 
-// Helper to convert Book to Supabase row
-function bookToRow(book: Book): BookInsert {
-  const row: BookInsert = {
-    id: book.id,
-    isbn13: book.isbn13,
-    isbn10: book.isbn10 || null,
-    title: book.title,
-    authors: book.authors || null,
-    publisher: book.publisher || null,
-    published_year: book.publishedYear || null,
-    description: book.description || null,
-    cover_url: book.coverUrl || null,
-    image_url: book.imageUrl || null,
-    tags: book.tags || null,
-    created_at: book.createdAt,
-    updated_at: book.updatedAt,
-  };
-  return row;
+export async function deleteBook(id: string): Promise<void> {
+  console.log('[deleteBook] Deleting book', id);
+  await removeBook(id);
 }
 
-// LocalStorage fallback functions
-function getAllBooksLocal(): Book[] {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    const books = stored ? JSON.parse(stored) : [];
-    // Sort by title A-Z (case-insensitive, Czech-aware)
-    return books.sort((a: Book, b: Book) => {
-      const titleA = (a.title || '').toLowerCase();
-      const titleB = (b.title || '').toLowerCase();
-      return titleA.localeCompare(titleB, 'cs');
+/**
+ * Listen for books added, changed or deleted on other devices, via Supabase realtime.
+ * Row level security limits the events to books of the user's libraries;
+ * `onChange` only hears about the active one.
+ * Each change is applied to the local replica before `onChange` is called;
+ * changes to books with unsynced local edits are left to the sync engine.
+ * Returns the unsubscribe function. Without Supabase there is nothing to listen to.
+ */
+export function subscribeToBookChanges(onChange: (change: BookChange) => void): () => void {
+  if (!supabase) return () => {};
+
+  const channel = supabase
+    .channel(`books-changes-${++channelCount}`)
+    .on<BookRow>('postgres_changes', { event: '*', schema: 'public', table: 'books' }, async payload => {
+      try {
+        if (payload.eventType === 'DELETE') {
+          // Without REPLICA IDENTITY FULL the old record only has the primary key
+          const id = payload.old.id;
+          if (id && await applyRemoteDelete(id)) {
+            console.log('[realtime] Book deleted remotely:', id);
+            onChange({ type: 'delete', id });
+          }
+        } else {
+          const book = rowToBook(payload.new);
+          // Books of the user's other libraries only go into the replica
+          if (await applyRemoteUpsert(book) && book.libraryId === getActiveLibraryId()) {
+            console.log('[realtime] Book saved remotely:', book.title);
+            onChange({ type: 'upsert', book });
+          }
+        }
+      } catch (error) {
+        console.error('[realtime] Error applying change:', error);
+      }
+    })
+    .subscribe((status, error) => {
+      console.log('[realtime] books channel:', status, error || '');
     });
-  } catch (error) {
-    console.error('Error reading from localStorage:', error);
-    return [];
-  }
-}
 
-function saveBookLocal(book: Book): void {
-  const books = getAllBooksLocal();
-  const existingIndex = books.findIndex(b => b.id === book.id);
-  
-  if (existingIndex >= 0) {
-    books[existingIndex] = book;
-  } else {
-    books.push(book);
-  }
-  
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(books));
+  return () => {
+    supabase?.removeChannel(channel);
+  };
 }
 
-function deleteBookLocal(id: string): void {
-  const books = getAllBooksLocal();
-  const filtered = books.filter(b => b.id !== id);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+/**
+ * Whether a book matches a search query: any of its text fields or ISBN, with qualifiers like author: or year:>1990
+ */
+export function matchesQuery(book: Book, query: string): boolean {
+  return matchesSearch(book, query);
 }
 
-// Supabase functions
-export async function getAllBooks(): Promise<Book[]> {
-  console.log('getAllBooks called, supabase available:', !!supabase);
-  if (supabase) {
-    try {
-      console.log('Fetching books from Supabase...');
-      const { data, error } = await supabase
-        .from('books')
-        .select('*')
-        .order('title', { ascending: true });
-      
-      if (error) {
-        console.error('Error fetching books from Supabase:', error);
-        console.log('Falling back to localStorage');
-        return getAllBooksLocal();
-      }
-      
-      console.log('Successfully fetched from Supabase:', data?.length || 0, 'books');
-      const books = (data || []).map(rowToBook);
-      // Sort by title A-Z (case-insensitive, Czech-aware) as fallback
-      return books.sort((a, b) => {
-        const titleA = (a.title || '').toLowerCase();
-        const titleB = (b.title || '').toLowerCase();
-        return titleA.localeCompare(titleB, 'cs');
-      });
-    } catch (error) {
-      console.error('Error fetching books:', error);
-      console.log('Falling back to localStorage due to exception');
-      return getAllBooksLocal();
-    }
-  }
-  
-  console.log('Supabase not available, using localStorage');
-  return getAllBooksLocal();
+/**
+ * Books matching the query, most relevant first (see search.ts)
+ */
+export async function searchBooks(query: string): Promise<Book[]> {
+  const books = await getAllBooks();
+  if (!query.trim()) return books;
+  return rankBooks(books, query);
 }
 
-export async function saveBook(book: Book): Promise<Book> {
-  if (supabase) {
-    try {
-      // If this is an existing book (has an ID), check if imageUrl has changed
-      if (book.id) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const { data: existingBook } = await (supabase as any)
-          .from('books')
-          .select('image_url')
-          .eq('id', book.id)
-          .single();
+// Books per page of the Library
+export const PAGE_SIZE = 60;
 
-        // Normalize imageUrl values (handle undefined, null, empty string)
-        const oldImageUrl = existingBook?.image_url || null;
-        const newImageUrl = book.imageUrl || null;
-
-        // If the book exists and has an old imageUrl that's different from the new one
-        // AND the old imageUrl is from our Supabase storage
-        if (oldImageUrl && 
-            oldImageUrl !== newImageUrl &&
-            isSupabaseStorageUrl(oldImageUrl)) {
-          // Delete the old image from storage
-          console.log('[saveBook] Image URL changed, deleting old image:', oldImageUrl);
-          console.log('[saveBook] New image URL:', newImageUrl);
-          await deleteImageFromSupabase(oldImageUrl);
-        } else if (oldImageUrl && oldImageUrl !== newImageUrl) {
-          console.log('[saveBook] Image URL changed but old URL is not from Supabase storage, skipping deletion:', oldImageUrl);
-        }
-      }
-
-      // If imageUrl is external (not from Supabase), download and upload it
-      // ALWAYS convert external URLs, even if they're the same (in case conversion failed before)
-      let finalImageUrl = book.imageUrl;
-      console.log('[saveBook] Checking imageUrl:', book.imageUrl);
-      console.log('[saveBook] Is Supabase URL?', isSupabaseStorageUrl(book.imageUrl));
-      
-      if (book.imageUrl) {
-        if (!isSupabaseStorageUrl(book.imageUrl)) {
-          console.log('[saveBook] ✅ Image URL is external, downloading and uploading to Supabase storage');
-          console.log('[saveBook] Original URL:', book.imageUrl);
-          const convertedUrl = await downloadAndUploadExternalImage(book.imageUrl);
-          console.log('[saveBook] Converted URL:', convertedUrl);
-          
-          // Verify the conversion actually happened
-          if (isSupabaseStorageUrl(convertedUrl)) {
-            console.log('[saveBook] ✅ Conversion successful, using Supabase URL');
-            finalImageUrl = convertedUrl;
-          } else {
-            console.error('[saveBook] ❌ Conversion failed - URL is still external:', convertedUrl);
-            console.error('[saveBook] This might be due to CORS restrictions or network errors');
-            console.error('[saveBook] Saving with original external URL (image may break in future)');
-            // Still save with original URL, but log the warning
-            finalImageUrl = convertedUrl; // This will be the original URL if conversion failed
-          }
-          // Update the book object with the new Supabase URL
-          book.imageUrl = finalImageUrl;
-        } else {
-          console.log('[saveBook] Image URL is already from Supabase storage, skipping conversion');
-        }
-      } else {
-        console.log('[saveBook] No imageUrl provided, skipping conversion');
-      }
+/**
+ * Opaque position after the last book of a page; pass it back to queryBooks for the next page
+ */
+export type BookCursor = string;
 
-      // Create a new book object with the updated imageUrl to ensure it's saved correctly
-      const bookToSave = { ...book, imageUrl: finalImageUrl };
-      const row = bookToRow(bookToSave);
-      console.log('[saveBook] Saving book to Supabase with image_url:', row.image_url); // Debug log
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { error } = await (supabase as any)
-        .from('books')
-        .upsert([row], { onConflict: 'id' });
-      
-      if (error) {
-        console.error('Error saving book to Supabase:', error);
-        console.error('Book data:', row);
-        // If image_url column doesn't exist, try without it
-        if (error.message?.includes('image_url')) {
-          console.warn('image_url column may not exist, saving without it');
-          const rowWithoutImage = { ...row };
-          delete rowWithoutImage.image_url;
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const { error: retryError } = await (supabase as any)
-            .from('books')
-            .upsert([rowWithoutImage], { onConflict: 'id' });
-          if (retryError) {
-            console.error('Error saving without image_url:', retryError);
-            throw new Error(`Supabase error: ${retryError.message}`);
-          }
-        } else {
-          throw new Error(`Supabase error: ${error.message || 'Unknown error'}`);
-        }
-      } else {
-        console.log('Book saved successfully to Supabase');
-      }
-      // Return the book with the updated imageUrl
-      return bookToSave;
-    } catch (error) {
-      console.error('Error saving book:', error);
-      saveBookLocal(book);
-      return book;
-    }
-  }
-  
-  // For local storage, also handle external images and check if imageUrl changed
-  let finalImageUrl = book.imageUrl;
-  if (book.imageUrl && !isSupabaseStorageUrl(book.imageUrl)) {
-    console.log('[saveBook] Image URL is external (local storage), downloading and uploading to Supabase storage');
-    console.log('[saveBook] Original URL:', book.imageUrl);
-    finalImageUrl = await downloadAndUploadExternalImage(book.imageUrl);
-    console.log('[saveBook] New Supabase URL:', finalImageUrl);
-    book.imageUrl = finalImageUrl;
-  }
+export interface BookPage {
+  books: Book[];
+  // null on the last page
+  nextCursor: BookCursor | null;
+}
 
-  if (book.id) {
-    const books = getAllBooksLocal();
-    const existingBook = books.find(b => b.id === book.id);
-    
-    // Normalize imageUrl values
-    const oldImageUrl = existingBook?.imageUrl || null;
-    const newImageUrl = finalImageUrl || null;
-    
-    if (oldImageUrl && 
-        oldImageUrl !== newImageUrl &&
-        isSupabaseStorageUrl(oldImageUrl)) {
-      console.log('[saveBook] Image URL changed in local storage, deleting old image:', oldImageUrl);
-      await deleteImageFromSupabase(oldImageUrl);
-    }
-  }
-  
-  // Save with the updated imageUrl
-  const bookToSave = { ...book, imageUrl: finalImageUrl };
-  saveBookLocal(bookToSave);
-  return bookToSave;
+// A query continues from the source its first page came from
+type CursorPosition =
+  | { source: 'remote'; value: string; id: string }
+  | { source: 'local'; offset: number };
+
+/**
+ * Whether Postgres can answer the query: online, with nothing waiting to be synced
+ * (the server wouldn't have those changes yet) and only filters search_books knows
+ */
+function canQueryRemotely(filters: BookFilters, search: ParsedSearch): boolean {
+  const status = getSyncStatus();
+  return !!supabase && !!getActiveLibraryId() && navigator.onLine !== false &&
+    status.pending === 0 && status.conflicts.length === 0 &&
+    filters.locations.length === 0 && !filters.loans &&
+    search.fields.length === 0 && search.isbns.length <= 1;
 }
 
-export async function deleteBook(id: string): Promise<void> {
-  if (supabase) {
-    try {
-      // First, fetch the book to get its imageUrl before deleting
-      console.log('[deleteBook] Fetching book data for deletion, id:', id);
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { data: bookData, error: fetchError } = await (supabase as any)
-        .from('books')
-        .select('image_url')
-        .eq('id', id)
-        .single();
+function toRemoteQuery(filters: BookFilters, search: ParsedSearch): RemoteBookQuery {
+  const words = search.terms.map(term => term.text);
+  return {
+    searchQuery: words.length > 0 ? words.map(word => `${word}:*`).join(' & ') : undefined,
+    searchWords: words.length > 0 ? words.join(' ') : undefined,
+    tags: filters.tags.length > 0 ? filters.tags : undefined,
+    readingStatus: filters.reading ?? undefined,
+    yearFrom: search.years?.min,
+    yearTo: search.years?.max,
+    isbn: search.isbns[0],
+    // Like rankBooks: searches are ordered by relevance, qualifiers alone by title
+    sort: filters.query.trim() ? (words.length > 0 ? 'relevance' : 'title') : filters.sort,
+  };
+}
 
-      if (fetchError) {
-        console.warn('[deleteBook] Error fetching book data (might not exist):', fetchError);
-      }
+async function queryLocalBooks(filters: BookFilters, offset: number, limit: number): Promise<BookPage> {
+  const books = filters.query.trim() ? await searchBooks(filters.query) : await getAllBooks(filters.sort);
+  const matching = books.filter(book => matchesFilters(book, filters));
+  const end = offset + limit;
+  return {
+    books: matching.slice(offset, end),
+    nextCursor: end < matching.length ? JSON.stringify({ source: 'local', offset: end } satisfies CursorPosition) : null,
+  };
+}
 
-      // Delete the image from storage if it exists and is from our storage bucket
-      if (bookData?.image_url) {
-        if (isSupabaseStorageUrl(bookData.image_url)) {
-          console.log('[deleteBook] Deleting book image from storage:', bookData.image_url);
-          await deleteImageFromSupabase(bookData.image_url);
-        } else {
-          console.log('[deleteBook] Skipping image deletion - not from our storage bucket:', bookData.image_url);
-        }
-      } else {
-        console.log('[deleteBook] No image URL found for book, skipping image deletion');
-      }
+/**
+ * One page of the active library's books passing the filters, in their order (by relevance when searching).
+ * Postgres runs the query when it can (see search_books in SUPABASE_SETUP.md); offline, with unsynced changes,
+ * for location and loan filters or field qualifiers, and when the server fails, the local replica does.
+ */
+export async function queryBooks(filters: BookFilters, cursor: BookCursor | null = null, limit: number = PAGE_SIZE): Promise<BookPage> {
+  const position: CursorPosition | null = cursor ? JSON.parse(cursor) : null;
+  if (position?.source === 'local') {
+    return queryLocalBooks(filters, position.offset, limit);
+  }
 
-      // Now delete the book record (even if fetch failed, try to delete)
-      console.log('[deleteBook] Deleting book record from database');
-      const { error } = await supabase
-        .from('books')
-        .delete()
-        .eq('id', id);
-      
-      if (error) {
-        console.error('[deleteBook] Error deleting book from Supabase:', error);
-        deleteBookLocal(id);
-      } else {
-        console.log('[deleteBook] Book deleted successfully from Supabase');
-      }
-      return;
+  const search = parseSearchQuery(filters.query);
+  if (position || canQueryRemotely(filters, search)) {
+    try {
+      const { books, last } = await queryRemoteBooks(
+        getActiveLibraryId()!,
+        toRemoteQuery(filters, search),
+        position && { value: position.value, id: position.id },
+        limit,
+      );
+      console.log(`[queryBooks] Loaded ${books.length} books from Supabase`);
+      // A full page may have more after it; at worst the next one comes back empty
+      return {
+        books,
+        nextCursor: books.length === limit && last ? JSON.stringify({ source: 'remote', ...last } satisfies CursorPosition) : null,
+      };
     } catch (error) {
-      console.error('[deleteBook] Exception while deleting book:', error);
-      // Try to delete locally as fallback
-      deleteBookLocal(id);
-      return;
-    }
-  }
-  
-  // For local storage, also try to delete the image if it exists
-  console.log('[deleteBook] Using local storage fallback');
-  const books = getAllBooksLocal();
-  const bookToDelete = books.find(b => b.id === id);
-  if (bookToDelete?.imageUrl) {
-    if (isSupabaseStorageUrl(bookToDelete.imageUrl)) {
-      console.log('[deleteBook] Deleting book image from storage (local):', bookToDelete.imageUrl);
-      await deleteImageFromSupabase(bookToDelete.imageUrl);
-    } else {
-      console.log('[deleteBook] Skipping image deletion - not from our storage bucket (local):', bookToDelete.imageUrl);
+      // A continued query can't switch sources; the caller starts over
+      if (position) throw error;
+      console.error('[queryBooks] Querying Supabase failed, using the local replica:', error);
     }
   }
-  
-  deleteBookLocal(id);
-}
 
-export async function searchBooks(query: string): Promise<Book[]> {
-  const books = await getAllBooks();
-  if (!query.trim()) return books;
-  
-  const lowerQuery = query.toLowerCase();
-  const filtered = books.filter(book => 
-    book.title.toLowerCase().includes(lowerQuery) ||
-    book.isbn13.includes(query) ||
-    (book.isbn10 && book.isbn10.includes(query)) ||
-    book.authors?.some(author => author.toLowerCase().includes(lowerQuery)) ||
-    book.tags?.some(tag => tag.toLowerCase().includes(lowerQuery))
-  );
-  
-  // Sort filtered results by title A-Z
-  return filtered.sort((a, b) => {
-    const titleA = (a.title || '').toLowerCase();
-    const titleB = (b.title || '').toLowerCase();
-    return titleA.localeCompare(titleB, 'cs');
-  });
+  return queryLocalBooks(filters, 0, limit);
 }
 
+/**
+ * The active library's book with this ISBN-13 or ISBN-10 (compact form), looked up like an isbn: search
+ */
+export async function findBookByIsbn(isbn: string): Promise<Book | null> {
+  const filters: BookFilters = { query: `isbn:${isbn}`, tags: [], locations: [], loans: null, reading: null, sort: 'title' };
+  // The search matches parts of ISBNs too, so pick the exact one
+  const { books } = await queryBooks(filters);
+  return books.find(book => compactISBN(book.isbn13) === isbn || (!!book.isbn10 && compactISBN(book.isbn10) === isbn)) ?? null;
+}
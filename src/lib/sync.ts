@@ -0,0 +1,627 @@
+import type { Book } from '../types';
+import { supabase } from './supabase';
+import {
+  getReplicaBooks,
+  getReplicaBook,
+  updateReplica,
+  getOutboxEntries,
+  getOutboxEntry,
+  putOutboxEntry,
+  deleteOutboxEntry,
+  clearLocalDatabase,
+} from './localDb';
+import type { OutboxEntry } from './localDb';
+import {
+  fetchRemoteBooks,
+  fetchRemoteBookIds,
+  fetchRemoteBooksById,
+  fetchRemoteBook,
+  upsertRemoteBook,
+  deleteRemoteBook,
+  stripLegacySourceNote,
+} from './remoteBooks';
+import { getCurrentUserId } from './auth';
+import { getActiveLibraryId } from './libraries';
+
+// Where books were kept before the IndexedDB replica (without Supabase, or when a Supabase call failed)
+const LEGACY_STORAGE_KEY = 'isbn_database_books';
+// Whether the replica was last used with or without Supabase
+const REPLICA_MODE_KEY = 'isbn_database_replica_mode';
+// Account whose books the replica holds
+const REPLICA_OWNER_KEY = 'isbn_database_replica_owner';
+// Per library, the updated_at of the newest book pulled; later pulls only download books changed after it
+const PULLED_UNTIL_KEY = 'isbn_database_pulled_until';
+// updated_at comes from the clock of the device that saved the book, so pulls also look this far back
+const PULL_OVERLAP = 10 * 60 * 1000;
+
+// Failed pushes are retried after 5 s, 10 s, 20 s, ... up to 5 minutes
+const RETRY_BASE_DELAY = 5000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+export type SyncState = 'local' | 'offline' | 'syncing' | 'pending' | 'error' | 'synced';
+
+export interface SyncStatus {
+  // 'local' when Supabase isn't configured, so there is nothing to sync with
+  state: SyncState;
+  // Changes waiting to be written to Supabase, not counting conflicts
+  pending: number;
+  // Changes not written because the book was also changed on the server; see resolveConflict
+  conflicts: OutboxEntry[];
+  lastError?: string;
+  lastSyncedAt?: string;
+  // Bumped whenever syncing changes the local replica, so views know to reload
+  revision: number;
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+let status: SyncStatus = { state: supabase ? 'synced' : 'local', pending: 0, conflicts: [], revision: 0 };
+const listeners = new Set<(status: SyncStatus) => void>();
+
+let readyPromise: Promise<void> | null = null;
+let runPromise: Promise<void> | null = null;
+let pushRequested = false;
+let pullRequested = false;
+let syncing = false;
+let pullError: string | undefined;
+let lastSyncedAt: string | undefined;
+// Libraries pulled from the server since start
+const pulledLibraries = new Set<string>();
+// Book whose change is being written right now
+let pushingBookId: string | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+function sameTime(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && Date.parse(a) === Date.parse(b);
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (attempts - 1));
+}
+
+function setStatus(changes: Partial<SyncStatus>): void {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener(status));
+}
+
+function bumpRevision(): void {
+  setStatus({ revision: status.revision + 1 });
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+/**
+ * Get notified of sync status changes. Returns the unsubscribe function.
+ */
+export function subscribeToSync(listener: (status: SyncStatus) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function refreshStatus(): Promise<void> {
+  const entries = await getOutboxEntries();
+  const conflicts = entries.filter(entry => entry.conflict);
+  const pending = entries.length - conflicts.length;
+  const lastError = entries.find(entry => !entry.conflict && entry.lastError)?.lastError ?? pullError;
+
+  let state: SyncState;
+  if (!supabase) state = 'local';
+  else if (!isOnline()) state = 'offline';
+  else if (syncing) state = 'syncing';
+  else if (lastError) state = 'error';
+  else if (pending > 0) state = 'pending';
+  else state = 'synced';
+
+  setStatus({ state, pending, conflicts, lastError, lastSyncedAt });
+}
+
+function readSetting(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function writeSetting(key: string, value: string | null): void {
+  try {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+  } catch (error) {
+    console.error('Error writing to localStorage:', error);
+  }
+}
+
+/**
+ * Queue a change for Supabase. A pending change to the same book is replaced,
+ * keeping the server version it was made on.
+ */
+async function enqueue(bookId: string, op: OutboxEntry['op'], book: Book | undefined, previous: Book | undefined): Promise<void> {
+  const existing = await getOutboxEntry(bookId);
+  // A book created here and deleted before it reached the server: there is nothing to tell the server
+  if (op === 'delete' && existing && existing.baseUpdatedAt === null && !existing.conflict && pushingBookId !== bookId) {
+    await deleteOutboxEntry(bookId);
+    return;
+  }
+
+  await putOutboxEntry({
+    bookId,
+    op,
+    book,
+    // Without a pending change, the replica holds the server version
+    baseUpdatedAt: existing ? existing.baseUpdatedAt : previous?.updatedAt ?? null,
+    changedAt: new Date().toISOString(),
+    attempts: 0,
+    conflict: existing?.conflict,
+  });
+}
+
+/**
+ * Move books from the old localStorage store into the replica, queueing them for upload
+ */
+async function migrateLegacyStore(): Promise<void> {
+  const stored = readSetting(LEGACY_STORAGE_KEY);
+  if (!stored) return;
+
+  try {
+    const books: Book[] = JSON.parse(stored);
+    console.log(`Moving ${books.length} books from localStorage into the local replica`);
+    for (const stale of books) {
+      const book = { ...stale, description: stripLegacySourceNote(stale.description) };
+      const existing = await getReplicaBook(book.id);
+      if (existing && Date.parse(existing.updatedAt) >= Date.parse(book.updatedAt)) continue;
+      await updateReplica([book]);
+      if (supabase) {
+        await enqueue(book.id, 'upsert', book, undefined);
+      }
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error moving books from localStorage:', error);
+  }
+}
+
+/**
+ * Put books without a library (kept before libraries existed, or before Supabase was configured)
+ * and their pending changes into the active library
+ */
+async function adoptUnassignedBooks(): Promise<void> {
+  const libraryId = getActiveLibraryId();
+  if (!libraryId) return;
+
+  const books = (await getReplicaBooks()).filter(book => !book.libraryId);
+  if (books.length > 0) {
+    console.log(`Moving ${books.length} books without a library into library`, libraryId);
+    await updateReplica(books.map(book => ({ ...book, libraryId })));
+  }
+  for (const entry of await getOutboxEntries()) {
+    if (entry.book && !entry.book.libraryId) {
+      await putOutboxEntry({ ...entry, book: { ...entry.book, libraryId } });
+    }
+  }
+}
+
+async function prepareReplica(): Promise<void> {
+  if (supabase) {
+    const userId = await getCurrentUserId();
+    const owner = readSetting(REPLICA_OWNER_KEY);
+    // Another account used this browser without signing out: its books and unsent changes aren't ours
+    if (userId && owner && owner !== userId) {
+      console.log('Local replica belongs to another account, clearing it');
+      await clearLocalDatabase();
+      writeSetting(PULLED_UNTIL_KEY, null);
+    }
+    if (userId) {
+      writeSetting(REPLICA_OWNER_KEY, userId);
+    }
+  }
+
+  await migrateLegacyStore();
+
+  // Books added while Supabase wasn't configured are uploaded once it is
+  if (supabase && readSetting(REPLICA_MODE_KEY) === 'local') {
+    const books = await getReplicaBooks();
+    console.log(`Queueing ${books.length} locally kept books for upload to Supabase`);
+    for (const book of books) {
+      await enqueue(book.id, 'upsert', book, undefined);
+    }
+  }
+
+  writeSetting(REPLICA_MODE_KEY, supabase ? 'supabase' : 'local');
+
+  await refreshStatus();
+}
+
+function ready(): Promise<void> {
+  if (!readyPromise) {
+    readyPromise = prepareReplica();
+  }
+  return readyPromise;
+}
+
+async function markConflict(entry: OutboxEntry, remote: Book | null): Promise<void> {
+  console.warn('Sync conflict: book', entry.bookId, 'was changed on the server since', entry.baseUpdatedAt);
+  const current = await getOutboxEntry(entry.bookId);
+  if (current) {
+    await putOutboxEntry({ ...current, conflict: { remote }, lastError: undefined, nextAttemptAt: undefined });
+  }
+}
+
+/**
+ * Drop a pushed entry, unless the book changed again meanwhile,
+ * and take the image URL the server ended up with
+ */
+async function finishEntry(entry: OutboxEntry, saved: Book | null): Promise<void> {
+  const current = await getOutboxEntry(entry.bookId);
+  if (current?.changedAt === entry.changedAt) {
+    await deleteOutboxEntry(entry.bookId);
+  } else if (current) {
+    // The newer change is now based on what was just written
+    await putOutboxEntry({ ...current, baseUpdatedAt: saved?.updatedAt ?? null });
+  }
+
+  if (saved) {
+    const local = await getReplicaBook(saved.id);
+    if (local && sameTime(local.updatedAt, saved.updatedAt) && local.imageUrl !== saved.imageUrl) {
+      await updateReplica([{ ...local, imageUrl: saved.imageUrl }]);
+      bumpRevision();
+    }
+  }
+}
+
+async function pushEntry(entry: OutboxEntry): Promise<void> {
+  pushingBookId = entry.bookId;
+  try {
+    const remote = await fetchRemoteBook(entry.bookId);
+    // The server may already have this change, e.g. when the response to an earlier push was lost
+    const alreadyApplied = entry.op === 'delete' ? !remote : sameTime(remote?.updatedAt, entry.book?.updatedAt);
+    if (alreadyApplied) {
+      await finishEntry(entry, remote);
+      return;
+    }
+
+    const changedOnServer = remote ? !sameTime(remote.updatedAt, entry.baseUpdatedAt) : entry.baseUpdatedAt !== null;
+    if (changedOnServer) {
+      await markConflict(entry, remote);
+      return;
+    }
+
+    if (entry.op === 'delete') {
+      await deleteRemoteBook(entry.bookId, remote);
+      await finishEntry(entry, null);
+    } else {
+      await finishEntry(entry, await upsertRemoteBook(entry.book!, remote));
+    }
+  } finally {
+    pushingBookId = null;
+  }
+}
+
+async function pushOutbox(): Promise<void> {
+  const entries = (await getOutboxEntries())
+    .filter(entry => !entry.conflict)
+    .sort((a, b) => a.changedAt.localeCompare(b.changedAt));
+
+  for (const entry of entries) {
+    if (!isOnline()) break;
+    if (entry.nextAttemptAt && entry.nextAttemptAt > Date.now()) continue;
+
+    try {
+      await pushEntry(entry);
+    } catch (error) {
+      console.error('Error syncing change to book', entry.bookId, error);
+      const current = await getOutboxEntry(entry.bookId);
+      // A change replaced meanwhile starts over with its own attempts
+      if (current?.changedAt === entry.changedAt) {
+        const attempts = current.attempts + 1;
+        await putOutboxEntry({
+          ...current,
+          attempts,
+          nextAttemptAt: Date.now() + retryDelay(attempts),
+          lastError: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    await refreshStatus();
+  }
+}
+
+function readPulledUntil(): Record<string, string> {
+  try {
+    return JSON.parse(readSetting(PULLED_UNTIL_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writePulledUntil(libraryId: string, updatedAt: string): void {
+  writeSetting(PULLED_UNTIL_KEY, JSON.stringify({ ...readPulledUntil(), [libraryId]: updatedAt }));
+}
+
+/**
+ * Bring the replica up to date with the server. Books with pending changes keep
+ * their local version until the change is pushed or its conflict resolved.
+ * Once a library has been pulled, only books changed since then are downloaded,
+ * plus the ids of all books to find the deleted ones and any the replica is missing.
+ */
+async function pullRemote(libraryId: string): Promise<void> {
+  const pendingIds = new Set((await getOutboxEntries()).map(entry => entry.bookId));
+  const localBooks = await getReplicaBooks(libraryId);
+  const localById = new Map(localBooks.map(book => [book.id, book]));
+  const pulledUntil = localBooks.length > 0 ? readPulledUntil()[libraryId] : undefined;
+
+  let remoteBooks: Book[];
+  let remoteIds: Set<string>;
+  if (pulledUntil) {
+    remoteIds = new Set(await fetchRemoteBookIds(libraryId));
+    const changedSince = new Date(Date.parse(pulledUntil) - PULL_OVERLAP).toISOString();
+    const changed = await fetchRemoteBooks(libraryId, changedSince);
+    const changedIds = new Set(changed.map(book => book.id));
+    // Books added with an updated_at older than the last pull (e.g. from a device whose clock is behind)
+    const missing = [...remoteIds].filter(id => !localById.has(id) && !changedIds.has(id));
+    remoteBooks = missing.length > 0 ? [...changed, ...await fetchRemoteBooksById(missing)] : changed;
+  } else {
+    remoteBooks = await fetchRemoteBooks(libraryId);
+    remoteIds = new Set(remoteBooks.map(book => book.id));
+  }
+
+  const puts = remoteBooks.filter(book => {
+    if (pendingIds.has(book.id)) return false;
+    const local = localById.get(book.id);
+    return !local || !sameTime(local.updatedAt, book.updatedAt) || local.imageUrl !== book.imageUrl;
+  });
+  const deletes = localBooks
+    .filter(book => !remoteIds.has(book.id) && !pendingIds.has(book.id))
+    .map(book => book.id);
+
+  if (puts.length > 0 || deletes.length > 0) {
+    console.log(`Sync pulled ${puts.length} changed and ${deletes.length} deleted books`);
+    await updateReplica(puts, deletes);
+    bumpRevision();
+  }
+
+  const newest = remoteBooks.reduce<string | undefined>(
+    (latest, book) => !latest || Date.parse(book.updatedAt) > Date.parse(latest) ? book.updatedAt : latest,
+    pulledUntil,
+  );
+  if (newest) writePulledUntil(libraryId, newest);
+}
+
+function scheduleRetry(): void {
+  clearTimeout(retryTimer);
+  getOutboxEntries().then(entries => {
+    const retryAt = entries
+      .filter(entry => !entry.conflict && entry.nextAttemptAt)
+      .reduce((earliest, entry) => Math.min(earliest, entry.nextAttemptAt!), Infinity);
+    if (retryAt !== Infinity) {
+      retryTimer = setTimeout(() => void syncNow(), Math.max(0, retryAt - Date.now()));
+    }
+  });
+}
+
+async function runSync(): Promise<void> {
+  try {
+    // Signed out: there is no library to sync until someone signs in
+    if (!(await getCurrentUserId())) {
+      pushRequested = false;
+      pullRequested = false;
+      return;
+    }
+    await ready();
+    // The active library is only known once the libraries have loaded
+    await adoptUnassignedBooks();
+    while (pushRequested && isOnline()) {
+      const pull = pullRequested;
+      pushRequested = false;
+      pullRequested = false;
+
+      syncing = true;
+      await refreshStatus();
+      try {
+        // Push first so the pull already sees our changes
+        await pushOutbox();
+        const libraryId = getActiveLibraryId();
+        if (pull && libraryId) {
+          await pullRemote(libraryId);
+          pulledLibraries.add(libraryId);
+          pullError = undefined;
+          lastSyncedAt = new Date().toISOString();
+        }
+      } catch (error) {
+        console.error('Error syncing with Supabase:', error);
+        pullError = error instanceof Error ? error.message : String(error);
+      }
+    }
+  } finally {
+    syncing = false;
+    runPromise = null;
+    await refreshStatus();
+    scheduleRetry();
+  }
+}
+
+function requestSync(pull: boolean): Promise<void> {
+  if (!supabase) return Promise.resolve();
+  pushRequested = true;
+  pullRequested = pullRequested || pull;
+  if (!runPromise) {
+    runPromise = runSync();
+  }
+  return runPromise;
+}
+
+/**
+ * Push pending changes and pull the server's. Never throws; failures end up in the sync status.
+ */
+export function syncNow(): Promise<void> {
+  return requestSync(true);
+}
+
+/**
+ * Books of the active library in the local replica (all books without Supabase).
+ * The first time a library is read, its server copy is pulled, and waited for
+ * when this device has none of its books yet.
+ */
+export async function readBooks(): Promise<Book[]> {
+  await ready();
+  if (!supabase) return getReplicaBooks();
+
+  const libraryId = getActiveLibraryId();
+  if (!libraryId) return [];
+  if (!pulledLibraries.has(libraryId)) {
+    const sync = syncNow();
+    if ((await getReplicaBooks(libraryId)).length === 0) {
+      await sync;
+    }
+  }
+  return getReplicaBooks(libraryId);
+}
+
+/**
+ * Books of the active library already in the local replica, without waiting for the server.
+ * A library not pulled yet is pulled in the background; the revision goes up when that brings changes.
+ */
+export async function readLocalBooks(): Promise<Book[]> {
+  await ready();
+  if (!supabase) return getReplicaBooks();
+
+  const libraryId = getActiveLibraryId();
+  if (!libraryId) return [];
+  if (!pulledLibraries.has(libraryId)) void syncNow();
+  return getReplicaBooks(libraryId);
+}
+
+/**
+ * Save a book locally and queue it for Supabase; returns the book as stored
+ */
+export async function writeBook(book: Book): Promise<Book> {
+  await ready();
+  const previous = await getReplicaBook(book.id);
+  if (supabase && !book.libraryId) {
+    // New books go into the active library
+    book = { ...book, libraryId: previous?.libraryId ?? getActiveLibraryId() ?? undefined };
+  }
+  await updateReplica([book]);
+  if (supabase) {
+    await enqueue(book.id, 'upsert', book, previous);
+    await refreshStatus();
+    void requestSync(false);
+  }
+  return book;
+}
+
+/**
+ * Delete a book locally and queue the deletion for Supabase
+ */
+export async function removeBook(id: string): Promise<void> {
+  await ready();
+  const previous = await getReplicaBook(id);
+  await updateReplica([], [id]);
+  if (supabase) {
+    await enqueue(id, 'delete', undefined, previous);
+    await refreshStatus();
+    void requestSync(false);
+  }
+}
+
+/**
+ * Take a book another device saved (from the realtime subscription) into the replica.
+ * Returns false when there is nothing to apply: the replica already has this version,
+ * or the book has a pending local change, which is checked for conflicts when pushed.
+ */
+export async function applyRemoteUpsert(book: Book): Promise<boolean> {
+  await ready();
+  if (await getOutboxEntry(book.id)) return false;
+  const local = await getReplicaBook(book.id);
+  if (local && sameTime(local.updatedAt, book.updatedAt) && local.imageUrl === book.imageUrl) return false;
+  await updateReplica([book]);
+  return true;
+}
+
+/**
+ * Take a deletion made on another device into the replica; see applyRemoteUpsert
+ */
+export async function applyRemoteDelete(id: string): Promise<boolean> {
+  await ready();
+  if (await getOutboxEntry(id)) return false;
+  if (!(await getReplicaBook(id))) return false;
+  await updateReplica([], [id]);
+  return true;
+}
+
+/**
+ * Settle a conflict by keeping either this device's change or the server version
+ */
+export async function resolveConflict(bookId: string, keep: ConflictChoice): Promise<void> {
+  const entry = await getOutboxEntry(bookId);
+  if (!entry?.conflict) return;
+  const { remote } = entry.conflict;
+
+  if (keep === 'remote') {
+    await deleteOutboxEntry(bookId);
+    await updateReplica(remote ? [remote] : [], remote ? [] : [bookId]);
+  } else if (entry.op === 'delete' && !remote) {
+    // Deleted on both sides
+    await deleteOutboxEntry(bookId);
+  } else {
+    // Write the local version over the current server one
+    const now = new Date().toISOString();
+    const book = entry.book && { ...entry.book, updatedAt: now };
+    if (book) {
+      await updateReplica([book]);
+    }
+    await putOutboxEntry({
+      bookId,
+      op: entry.op,
+      book,
+      baseUpdatedAt: remote?.updatedAt ?? null,
+      changedAt: now,
+      attempts: 0,
+    });
+  }
+
+  console.log('Resolved sync conflict for book', bookId, 'keeping', keep);
+  bumpRevision();
+  await refreshStatus();
+  void requestSync(false);
+}
+
+/**
+ * Forget this device's copy of the library, including changes not yet synced.
+ * Used when signing out, so the next account starts from its own books.
+ */
+export async function clearLocalLibrary(): Promise<void> {
+  clearTimeout(retryTimer);
+  await runPromise;
+  await clearLocalDatabase();
+  writeSetting(REPLICA_OWNER_KEY, null);
+  writeSetting(PULLED_UNTIL_KEY, null);
+  readyPromise = null;
+  pulledLibraries.clear();
+  pullError = undefined;
+  lastSyncedAt = undefined;
+  await refreshStatus();
+  bumpRevision();
+}
+
+if (supabase && typeof window !== 'undefined') {
+  window.addEventListener('online', () => void syncNow());
+  window.addEventListener('offline', () => void refreshStatus());
+  // Catch up with changes made on other devices when coming back to the app (only changed books are downloaded)
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible' && pulledLibraries.size > 0) {
+      void syncNow();
+    }
+  });
+}
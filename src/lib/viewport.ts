@@ -0,0 +1,48 @@
+/**
+ * What changed since the last notification
+ */
+export interface ViewportChange {
+  // The window was resized (not only scrolled), so layouts that follow breakpoints may differ
+  resized: boolean;
+}
+
+const listeners = new Set<(change: ViewportChange) => void>();
+let frame = 0;
+let resized = false;
+
+// Scroll and resize events come faster than frames; listeners hear about them once per frame
+function schedule(): void {
+  if (frame) return;
+  frame = requestAnimationFrame(() => {
+    const change = { resized };
+    frame = 0;
+    resized = false;
+    listeners.forEach(listener => listener(change));
+  });
+}
+
+function handleResize(): void {
+  resized = true;
+  schedule();
+}
+
+/**
+ * Get notified when the window scrolls or resizes. All subscribers share one scroll and one resize listener,
+ * however many virtualized grids the page shows. Returns the unsubscribe function.
+ */
+export function subscribeToViewport(listener: (change: ViewportChange) => void): () => void {
+  if (listeners.size === 0) {
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', handleResize);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0) return;
+    window.removeEventListener('scroll', schedule);
+    window.removeEventListener('resize', handleResize);
+    cancelAnimationFrame(frame);
+    frame = 0;
+    resized = false;
+  };
+}
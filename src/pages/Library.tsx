@@ -1,24 +1,91 @@
-import { useState, useEffect } from 'react';
-import type { Book, BookMetadata } from '../types';
-import { getAllBooks, saveBook, deleteBook, searchBooks } from '../lib/storage';
-import { lookupBook } from '../lib/bookLookup';
-import { normalizeISBN } from '../lib/isbn';
+import { useState, useEffect, useRef } from 'react';
+import type { Book, BookMetadata, LibraryRole, LibrarySummary, ReadingStatus } from '../types';
+import { getLocalBooks, findBookByIsbn, saveBook, deleteBook, queryBooks, subscribeToBookChanges, matchesQuery, PAGE_SIZE } from '../lib/storage';
+import type { BookChange, BookCursor } from '../lib/storage';
+import { matchesFilters } from '../lib/filters';
+import type { BookFilters } from '../lib/filters';
+import { groupBooks, loadViewOptions, saveViewOptions, sortBooks, withViewParams } from '../lib/sorting';
+import type { BookGroupKey, BookSortKey } from '../lib/sorting';
+import { rankBooks } from '../lib/search';
+import { getSyncStatus, subscribeToSync, clearLocalLibrary } from '../lib/sync';
+import type { SyncStatus } from '../lib/sync';
+import { signOut } from '../lib/auth';
+import {
+  acceptInvite,
+  canEdit,
+  createInviteLink,
+  createLibrary,
+  ensureLibraries,
+  forgetLibraries,
+  getActiveLibrary,
+  getActiveLibraryId,
+  getCachedLibraries,
+  setActiveLibraryId,
+  takePendingInvite,
+} from '../lib/libraries';
+import { lookupBook, resolveMetadata } from '../lib/bookLookup';
+import { compactISBN, generatePlaceholderISBN, isPlaceholderISBN, normalizeISBN } from '../lib/isbn';
+import type { LoanFilterValue } from '../lib/loans';
 import { AddBookForm } from '../components/AddBookForm';
 import { SearchBar } from '../components/SearchBar';
 import { TagFilter } from '../components/TagFilter';
-import { BookCard } from '../components/BookCard';
+import { LocationFilter } from '../components/LocationFilter';
+import { LoanFilter } from '../components/LoanFilter';
+import { ReadingFilter } from '../components/ReadingFilter';
+import { ViewSelect } from '../components/ViewSelect';
+import { VirtualBookGrid } from '../components/VirtualBookGrid';
 import { EditBookDrawer } from '../components/EditBookDrawer';
+import { BulkImport } from '../components/BulkImport';
+import { CsvImport } from '../components/CsvImport';
+import type { ImportedBook } from '../lib/csvImport';
+import { ExportDialog } from '../components/ExportDialog';
+import { ContinuousScan } from '../components/ContinuousScan';
+import { SyncIndicator } from '../components/SyncIndicator';
+import { LibrarySwitcher } from '../components/LibrarySwitcher';
 
-export function Library() {
+interface LibraryProps {
+  // Signed-in account, when the library is stored in Supabase
+  userEmail?: string;
+  onShowStats?: () => void;
+}
+
+export function Library({ userEmail, onShowStats }: LibraryProps) {
+  // The whole library as far as this device has it, for the filters, export and duplicate checks; the list pages
   const [books, setBooks] = useState<Book[]>([]);
   const [filteredBooks, setFilteredBooks] = useState<Book[]>([]);
+  // Where the next page of filteredBooks starts; null when everything is loaded
+  const [nextCursor, setNextCursor] = useState<BookCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Scrolling near this element loads the next page
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Only the latest query may update the list, answers to earlier ones are dropped
+  const queryIdRef = useRef(0);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedLocations, setSelectedLocations] = useState<string[]>([]);
+  const [loanFilter, setLoanFilter] = useState<LoanFilterValue | null>(null);
+  const [readingFilter, setReadingFilter] = useState<ReadingStatus | null>(null);
+  const [sortKey, setSortKey] = useState<BookSortKey>(() => loadViewOptions().sort);
+  const [groupKey, setGroupKey] = useState<BookGroupKey>(() => loadViewOptions().group);
+  // Height of the sticky header, so group headers stick just below it
+  const headerRef = useRef<HTMLDivElement>(null);
+  const [headerHeight, setHeaderHeight] = useState(0);
   const [editingBook, setEditingBook] = useState<Book | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
+  const [showBulkImport, setShowBulkImport] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showContinuousScan, setShowContinuousScan] = useState(false);
   const [justSaved, setJustSaved] = useState(false);
   const [expandedImageBookId, setExpandedImageBookId] = useState<string | null>(null);
   const [isScrolled, setIsScrolled] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(getSyncStatus);
+  const [libraries, setLibraries] = useState<LibrarySummary[]>(getCachedLibraries);
+  const [activeLibraryId, setActiveLibrary] = useState<string | null>(getActiveLibraryId);
+
+  const activeLibrary = libraries.find(library => library.id === activeLibraryId);
+  // Viewers can browse a shared library but not change it
+  const readOnly = !!userEmail && !canEdit(activeLibrary?.role);
 
   // Generate UUID v4
   const generateUUID = (): string => {
@@ -30,7 +97,7 @@ export function Library() {
   };
 
   // Function to check URL and open/add book if ISBN is present
-  const checkUrlAndOpenBook = async (allBooks: Book[]) => {
+  const checkUrlAndOpenBook = async () => {
     // Don't check URL if we just saved (to prevent reopening dialog)
     if (justSaved) {
       setJustSaved(false);
@@ -51,13 +118,22 @@ export function Library() {
     
     // Check if path looks like an ISBN (10 or 13 digits, with or without hyphens)
     // Pattern: digits only OR digits with hyphens (e.g., 978-80-257-4767-4 or 9788025747674)
-    const isbnPathPattern = /^[\d-]{10,17}$/; // Allow digits and hyphens, 10-17 chars (13 digits + up to 4 hyphens)
+    // ISBN-10 may end with an 'X' check character (e.g., 0-8044-2957-X)
+    const isbnPathPattern = /^[\d-]{9,16}[\dXx]$/; // Allow digits and hyphens, 10-17 chars (13 digits + up to 4 hyphens)
     const isbnFromPath = isbnPathPattern.test(pathIsbn) ? pathIsbn : null;
     
     const isbnToFind = isbnFromQuery || isbnFromPath;
     
     console.log('ISBN to find:', isbnToFind, 'from path:', isbnFromPath, 'from query:', isbnFromQuery);
     
+    // Books without an ISBN open by their placeholder, which isn't an ISBN to normalize or look up in catalogs
+    if (isbnToFind && isPlaceholderISBN(compactISBN(isbnToFind))) {
+      const book = await findBookByIsbn(compactISBN(isbnToFind));
+      if (!book) console.log('Book not found in library:', isbnToFind);
+      setEditingBook(book);
+      return;
+    }
+
     if (isbnToFind) {
       // Normalize the ISBN for comparison (remove hyphens, convert to ISBN-13 if needed)
       let normalizedIsbnToFind: string;
@@ -70,50 +146,37 @@ export function Library() {
       }
       
       // Find book by ISBN (compare normalized versions)
-      let book = allBooks.find(b => {
-        const bookIsbn13 = b.isbn13.replace(/-/g, '');
-        const bookIsbn10 = b.isbn10?.replace(/-/g, '') || '';
-        return bookIsbn13 === normalizedIsbnToFind || bookIsbn10 === normalizedIsbnToFind;
-      });
+      const book = await findBookByIsbn(normalizedIsbnToFind);
       
       if (book) {
         // Book exists - open detail dialog
         console.log('Book found, opening detail:', book.title);
         setEditingBook(book);
+      } else if (userEmail && !canEdit(getActiveLibrary()?.role)) {
+        console.log('Book not found in read-only library:', isbnToFind);
+        alert(`Kniha s ISBN ${isbnToFind} v této knihovně není.`);
+        setEditingBook(null);
       } else {
         console.log('Book not found in library, attempting to add:', isbnToFind);
         // Book not found - try to add it (use normalized ISBN for lookup)
         try {
           const metadata = await lookupBook(normalizedIsbnToFind);
           if (metadata && metadata.title) {
-            // Create and save the new book
+            // Create and save the new book (no review step here, so conflicting fields keep the first source)
             const newBook: Book = {
               id: generateUUID(),
-              ...metadata,
+              ...resolveMetadata(metadata, {}),
               createdAt: new Date().toISOString(),
               updatedAt: new Date().toISOString(),
             };
             
-            await saveBook(newBook);
-            
-            // Reload books and open the detail dialog
-            const updatedBooks = await getAllBooks();
-            setBooks(updatedBooks);
-            setFilteredBooks(updatedBooks);
-            
-            // Find the newly added book and open it (compare normalized ISBNs)
-            const addedBook = updatedBooks.find(b => 
-              b.isbn13.replace(/-/g, '') === newBook.isbn13.replace(/-/g, '')
-            );
-            
-            if (addedBook) {
-              console.log('Book added successfully, opening detail:', addedBook.title);
-              setEditingBook(addedBook);
-              // Update URL to use the ISBN path
-              window.history.pushState({}, '', `/${addedBook.isbn13}`);
-            } else {
-              console.error('Book was saved but not found in updated books list');
-            }
+            const addedBook = await saveBook(newBook);
+            applyBookChange({ type: 'upsert', book: addedBook });
+
+            console.log('Book added successfully, opening detail:', addedBook.title);
+            setEditingBook(addedBook);
+            // Update URL to use the ISBN path
+            window.history.pushState({}, '', withViewParams(`/${addedBook.isbn13}`));
           } else {
             // Book lookup failed
             console.warn('Book with ISBN', isbnToFind, 'could not be found or added - no metadata returned');
@@ -133,35 +196,59 @@ export function Library() {
     }
   };
 
+  useEffect(() => subscribeToSync(setSyncStatus), []);
+
+  // Current filters for the realtime handler, which is subscribed once
+  const currentFilters = (): BookFilters => ({
+    query: searchQuery,
+    tags: selectedTags,
+    locations: selectedLocations,
+    loans: loanFilter,
+    reading: readingFilter,
+    sort: sortKey,
+  });
+  const filtersRef = useRef(currentFilters());
+  const nextCursorRef = useRef(nextCursor);
+  // How many books are loaded, so a refresh reloads as many and the scroll position stays
+  const loadedCountRef = useRef(0);
+  // The scroll observer is set up once per cursor and calls the latest loadMoreBooks
+  const loadMoreRef = useRef<() => void>(() => {});
+  const loadingMoreRef = useRef(false);
+  // The effects below run on mount or on sync, but need the latest handlers
+  const refreshRef = useRef<() => Promise<void>>(async () => {});
+  const checkUrlRef = useRef<() => Promise<void>>(async () => {});
+  const applyChangeRef = useRef<(change: BookChange) => void>(() => {});
+  useEffect(() => {
+    filtersRef.current = currentFilters();
+    nextCursorRef.current = nextCursor;
+    loadedCountRef.current = filteredBooks.length;
+    loadMoreRef.current = loadMoreBooks;
+    refreshRef.current = refreshFilteredBooks;
+    checkUrlRef.current = checkUrlAndOpenBook;
+    applyChangeRef.current = applyBookChange;
+  });
+
+  // Load the library when the page opens (and again for another account)
   useEffect(() => {
     const loadBooks = async () => {
       try {
+        if (userEmail) {
+          await loadLibraries();
+        }
         console.log('Loading books...');
-        const allBooks = await getAllBooks();
-        console.log('Loaded books:', allBooks.length, 'books');
-        console.log('Books data:', allBooks);
-        setBooks(allBooks);
-        setFilteredBooks(allBooks);
-        await checkUrlAndOpenBook(allBooks);
+        // Only the first page is queried; the filters use what the local replica has, without waiting for the server
+        await refreshRef.current();
+        setBooks(await getLocalBooks());
+        await checkUrlRef.current();
       } catch (error) {
         console.error('Error loading books:', error);
-        // Try to load from localStorage as fallback
-        try {
-          const localBooks = JSON.parse(localStorage.getItem('books') || '[]');
-          console.log('Loaded from localStorage fallback:', localBooks.length, 'books');
-          setBooks(localBooks);
-          setFilteredBooks(localBooks);
-        } catch (localError) {
-          console.error('Error loading from localStorage:', localError);
-        }
       }
     };
     loadBooks();
 
     // Handle browser back/forward navigation
-    const handlePopState = async () => {
-      const currentBooks = await getAllBooks();
-      await checkUrlAndOpenBook(currentBooks);
+    const handlePopState = () => {
+      checkUrlRef.current();
     };
     
     window.addEventListener('popstate', handlePopState);
@@ -169,8 +256,51 @@ export function Library() {
     return () => {
       window.removeEventListener('popstate', handlePopState);
     };
+  }, [userEmail]);
+
+  // Apply books changed on other devices without reloading the whole library
+  useEffect(() => subscribeToBookChanges(change => applyChangeRef.current(change)), []);
+
+  // Reload when syncing brought changes from the server into the local replica
+  useEffect(() => {
+    if (syncStatus.revision === 0) return;
+    getLocalBooks().then(setBooks);
+    refreshRef.current();
+  }, [syncStatus.revision]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMoreRef.current();
+    }, { rootMargin: '800px 0px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor]);
+
+  // Track the sticky header's height (it shrinks when scrolled) for the group headers below it
+  useEffect(() => {
+    const header = headerRef.current;
+    if (!header) return;
+    const observer = new ResizeObserver(() => setHeaderHeight(header.offsetHeight));
+    observer.observe(header);
+    return () => observer.disconnect();
   }, []);
 
+  // Keep the page still behind the drawer and return to the same place when it closes,
+  // also after saving changed the list
+  const drawerOpen = !!editingBook;
+  useEffect(() => {
+    if (!drawerOpen) return;
+    const scrollY = window.scrollY;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = '';
+      requestAnimationFrame(() => window.scrollTo(0, scrollY));
+    };
+  }, [drawerOpen]);
+
   // Handle scroll to hide/show header elements
   useEffect(() => {
     const handleScroll = () => {
@@ -184,9 +314,80 @@ export function Library() {
     };
   }, []);
 
+  // Accept an invite opened before signing in, then load the libraries and pick the active one
+  const loadLibraries = async () => {
+    const invite = takePendingInvite();
+    let joinedLibraryId: string | null = null;
+    if (invite) {
+      try {
+        joinedLibraryId = await acceptInvite(invite);
+        setActiveLibraryId(joinedLibraryId);
+      } catch (error) {
+        console.error('Error accepting invite:', error);
+        alert('Pozvánku se nepodařilo přijmout: ' + (error instanceof Error ? error.message : String(error)));
+      }
+    }
+
+    const loaded = await ensureLibraries();
+    setLibraries(loaded);
+    setActiveLibrary(getActiveLibraryId());
+
+    const joined = loaded.find(library => library.id === joinedLibraryId);
+    if (joined) {
+      alert(`Byli jste přidáni do knihovny „${joined.name}“.`);
+    }
+  };
+
+  const handleSwitchLibrary = async (id: string) => {
+    console.log('Switching to library', id);
+    setActiveLibraryId(id);
+    setActiveLibrary(id);
+    setEditingBook(null);
+    setShowAddForm(false);
+    setSelectedTags([]);
+    setSelectedLocations([]);
+    setLoanFilter(null);
+    setReadingFilter(null);
+    window.history.pushState({}, '', withViewParams('/'));
+
+    setBooks(await getLocalBooks());
+    applyFilters({ tags: [], locations: [], loans: null, reading: null });
+  };
+
+  const handleCreateLibrary = async (name: string) => {
+    try {
+      const id = await createLibrary(name);
+      setLibraries(await ensureLibraries());
+      await handleSwitchLibrary(id);
+    } catch (error) {
+      console.error('Error creating library:', error);
+      alert('Knihovnu se nepodařilo vytvořit: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  const handleInvite = async (role: Exclude<LibraryRole, 'owner'>) => {
+    if (!activeLibraryId) return;
+    try {
+      const link = await createInviteLink(activeLibraryId, role);
+      const message = role === 'editor'
+        ? 'Kdo odkaz otevře, bude moci knihy přidávat a upravovat. Odkaz platí 7 dní.'
+        : 'Kdo odkaz otevře, bude moci knihy jen prohlížet. Odkaz platí 7 dní.';
+      try {
+        await navigator.clipboard.writeText(link);
+        alert(`Odkaz s pozvánkou byl zkopírován do schránky.\n\n${message}`);
+      } catch {
+        // Clipboard may be unavailable (e.g., without HTTPS); let the user copy it
+        prompt(`Zkopírujte odkaz s pozvánkou. ${message}`, link);
+      }
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      alert('Pozvánku se nepodařilo vytvořit: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
   const handleSearch = async (query: string) => {
     setSearchQuery(query);
-    applyFilters(query, selectedTags);
+    applyFilters({ query });
   };
 
   const handleTagToggle = (tag: string) => {
@@ -194,26 +395,110 @@ export function Library() {
       ? selectedTags.filter(t => t !== tag)
       : [...selectedTags, tag];
     setSelectedTags(newSelectedTags);
-    applyFilters(searchQuery, newSelectedTags);
+    applyFilters({ tags: newSelectedTags });
   };
 
-  const applyFilters = async (query: string, tags: string[]) => {
-    let results: Book[];
-    
-    if (query.trim()) {
-      results = await searchBooks(query);
-    } else {
-      results = await getAllBooks();
+  const handleLocationToggle = (location: string) => {
+    const newSelectedLocations = selectedLocations.includes(location)
+      ? selectedLocations.filter(l => l !== location)
+      : [...selectedLocations, location];
+    setSelectedLocations(newSelectedLocations);
+    applyFilters({ locations: newSelectedLocations });
+  };
+
+  const handleLoanFilter = (filter: LoanFilterValue | null) => {
+    setLoanFilter(filter);
+    applyFilters({ loans: filter });
+  };
+
+  const handleReadingFilter = (status: ReadingStatus | null) => {
+    setReadingFilter(status);
+    applyFilters({ reading: status });
+  };
+
+  const handleSortChange = (sort: BookSortKey) => {
+    setSortKey(sort);
+    saveViewOptions({ sort, group: groupKey });
+    applyFilters({ sort });
+  };
+
+  const handleGroupChange = (group: BookGroupKey) => {
+    setGroupKey(group);
+    saveViewOptions({ sort: sortKey, group });
+  };
+
+  // Show the books matching the current search and filters, at least `limit` of them when there are that many;
+  // `changes` are filters just set, not yet in state
+  const applyFilters = async (changes: Partial<BookFilters> = {}, limit: number = PAGE_SIZE) => {
+    const filters = { ...currentFilters(), ...changes };
+    const queryId = ++queryIdRef.current;
+    try {
+      // Page by page: one large request would be cut off at the server's row limit
+      let page = await queryBooks(filters, null, PAGE_SIZE);
+      const loaded = [...page.books];
+      while (loaded.length < limit && page.nextCursor) {
+        if (queryId !== queryIdRef.current) return;
+        page = await queryBooks(filters, page.nextCursor, PAGE_SIZE);
+        const ids = new Set(loaded.map(book => book.id));
+        loaded.push(...page.books.filter(book => !ids.has(book.id)));
+      }
+      if (queryId !== queryIdRef.current) return;
+      setFilteredBooks(loaded);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error querying books:', error);
     }
+  };
+
+  // Reload the list after a change, keeping as many books as were loaded
+  const refreshFilteredBooks = () => applyFilters({}, loadedCountRef.current);
 
-    // Filter by tags
-    if (tags.length > 0) {
-      results = results.filter(book => 
-        book.tags && book.tags.some(tag => tags.includes(tag))
-      );
+  // Put a saved or deleted book (here or on another device) into the list in place, instead of querying it again
+  const applyBookChange = (change: BookChange) => {
+    if (change.type === 'delete') {
+      setBooks(current => current.filter(b => b.id !== change.id));
+      setFilteredBooks(current => current.filter(b => b.id !== change.id));
+      return;
     }
 
-    setFilteredBooks(results);
+    const { book } = change;
+    const filters = filtersRef.current;
+    const visible = matchesQuery(book, filters.query) && matchesFilters(book, filters);
+    const others = (current: Book[]) => current.filter(b => b.id !== book.id);
+    setBooks(current => sortBooks([...others(current), book], 'title'));
+    // Search results stay ordered by relevance
+    const order = (list: Book[]) => filters.query.trim() ? rankBooks(list, filters.query) : sortBooks(list, filters.sort);
+    setFilteredBooks(current => {
+      if (!visible) return others(current);
+      const ordered = order([...others(current), book]);
+      // A book sorting after everything loaded belongs to a page not loaded yet; it comes with that page
+      if (nextCursorRef.current && ordered[ordered.length - 1] === book) return others(current);
+      return ordered;
+    });
+  };
+
+  const loadMoreBooks = async () => {
+    const cursor = nextCursorRef.current;
+    if (!cursor || loadingMoreRef.current) return;
+    const queryId = queryIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await queryBooks(filtersRef.current, cursor);
+      if (queryId !== queryIdRef.current) return;
+      setFilteredBooks(current => {
+        const loaded = new Set(current.map(book => book.id));
+        return [...current, ...page.books.filter(book => !loaded.has(book.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more books:', error);
+      // The cursor can't be continued (e.g. went offline), start the list over
+      refreshFilteredBooks();
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
   };
 
   const handleAddBook = async (metadata: BookMetadata) => {
@@ -227,46 +512,95 @@ export function Library() {
       };
       
       console.log('Saving book:', newBook);
-      await saveBook(newBook);
-      const updatedBooks = await getAllBooks();
-      console.log('Books after save:', updatedBooks.length);
-      setBooks(updatedBooks);
-      
-      // Update filtered books if we're searching
-      if (searchQuery.trim()) {
-        await handleSearch(searchQuery);
-      } else {
-        setFilteredBooks(updatedBooks);
-      }
+      const addedBook = await saveBook(newBook);
+      // Keep the current search and filters
+      applyBookChange({ type: 'upsert', book: addedBook });
       
       // Close the form after adding
       setShowAddForm(false);
       
-      // Find the newly added book and open detail dialog (compare normalized ISBNs)
-      const newBookIsbn13Normalized = newBook.isbn13.replace(/-/g, '');
-      const addedBook = updatedBooks.find(b => 
-        b.isbn13.replace(/-/g, '') === newBookIsbn13Normalized
-      );
-      
-      if (addedBook) {
-        console.log('Opening detail for newly added book:', addedBook.title);
-        setEditingBook(addedBook);
-        // Update URL to include ISBN
-        window.history.pushState({}, '', `/${addedBook.isbn13}`);
-      } else {
-        console.error('Added book not found in updated books list. Looking for ISBN:', newBookIsbn13Normalized);
-        console.log('Available books ISBNs:', updatedBooks.map(b => b.isbn13));
-      }
+      // Open detail dialog for the newly added book
+      console.log('Opening detail for newly added book:', addedBook.title);
+      setEditingBook(addedBook);
+      // Update URL to include ISBN
+      window.history.pushState({}, '', withViewParams(`/${addedBook.isbn13}`));
     } catch (error) {
       console.error('Error in handleAddBook:', error);
       alert('Chyba při ukládání knihy: ' + (error instanceof Error ? error.message : String(error)));
     }
   };
 
+  const saveImportedBooks = async (items: Book[]) => {
+    // The books only go into the local copy here; uploading them shows in the sync status
+    const saved: Book[] = [];
+    try {
+      for (const book of items) {
+        saved.push(await saveBook(book));
+      }
+    } catch (error) {
+      console.error('Error saving imported books:', error);
+      alert('Chyba při ukládání knih: ' + (error instanceof Error ? error.message : String(error)));
+    }
+
+    const savedIds = new Set(saved.map(book => book.id));
+    setBooks(current => sortBooks([...current.filter(book => !savedIds.has(book.id)), ...saved], 'title'));
+    // Keep the current search and filters; many new books may land anywhere in the list, so its pages are queried again
+    await refreshFilteredBooks();
+    setShowAddForm(false);
+  };
+
+  const handleBulkImport = async (items: BookMetadata[], tags: string[]) => {
+    console.log(`Bulk importing ${items.length} books with tags:`, tags);
+    const now = new Date().toISOString();
+    await saveImportedBooks(items.map(metadata => ({
+      id: generateUUID(),
+      ...metadata,
+      tags: tags.length > 0 ? tags : undefined,
+      createdAt: now,
+      updatedAt: now,
+    })));
+  };
+
+  const handleCsvImport = async (items: ImportedBook[], tags: string[]) => {
+    console.log(`Importing ${items.length} books from a CSV export with tags:`, tags);
+    const now = new Date().toISOString();
+    await saveImportedBooks(items.map(item => {
+      const bookTags = Array.from(new Set([...(item.tags || []), ...tags]));
+      return {
+        id: generateUUID(),
+        ...item,
+        // Books without an ISBN get a placeholder like ones added by hand; isbn13 is unique within a library
+        isbn13: item.isbn13 || generatePlaceholderISBN(),
+        tags: bookTags.length > 0 ? bookTags : undefined,
+        // Keep when the book was added in the other app, so statistics show the real collection growth
+        createdAt: item.createdAt || now,
+        updatedAt: now,
+      };
+    }));
+  };
+
+  const handleSignOut = async () => {
+    const unsynced = syncStatus.pending + syncStatus.conflicts.length;
+    const question = unsynced > 0
+      ? `Některé změny (${unsynced}) ještě nejsou uložené na serveru a odhlášením se ztratí. Opravdu se odhlásit?`
+      : `Odhlásit účet ${userEmail}?`;
+    if (!confirm(question)) return;
+
+    try {
+      // Don't leave this account's books on the device for whoever signs in next
+      await clearLocalLibrary();
+      forgetLibraries();
+      await signOut();
+    } catch (error) {
+      console.error('Error signing out:', error);
+      alert('Odhlášení se nezdařilo: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
   const handleEditBook = (book: Book) => {
     setEditingBook(book);
     // Update URL to include ISBN
-    const newUrl = `/${book.isbn13}`;
+    const newUrl = withViewParams(`/${book.isbn13}`);
     window.history.pushState({}, '', newUrl);
   };
 
@@ -275,20 +609,9 @@ export function Library() {
       // If book has no ID, it's a new book - generate ID and ISBN
       if (!book.id) {
         book.id = generateUUID();
-        // Generate a placeholder ISBN if not provided (must be valid 13-digit ISBN)
+        // Generate a placeholder if no ISBN was entered (isbn13 is required and unique within a library)
         if (!book.isbn13 || !book.isbn13.trim()) {
-          // Create a valid placeholder ISBN-13 format: 978 + 9 random digits + check digit
-          // Use timestamp to ensure uniqueness, pad to 9 digits
-          const randomDigits = (Date.now().toString() + Math.random().toString().slice(2)).slice(0, 9).padStart(9, '0');
-          const base = '978' + randomDigits;
-          // Calculate check digit for ISBN-13
-          let sum = 0;
-          for (let i = 0; i < 12; i++) {
-            const digit = parseInt(base[i]);
-            sum += digit * (i % 2 === 0 ? 1 : 3);
-          }
-          const checkDigit = (10 - (sum % 10)) % 10;
-          book.isbn13 = base + checkDigit.toString();
+          book.isbn13 = generatePlaceholderISBN();
         }
         book.createdAt = new Date().toISOString();
       }
@@ -298,32 +621,15 @@ export function Library() {
         throw new Error('ISBN-13 je povinné pole');
       }
       
-      // Save book and get the updated version (with converted image URL if external)
       const savedBook = await saveBook(book);
-      
-      const updatedBooks = await getAllBooks();
-      setBooks(updatedBooks);
-      
-      if (searchQuery.trim()) {
-        await handleSearch(searchQuery);
-      } else {
-        setFilteredBooks(updatedBooks);
-      }
-      
-      // Find the updated book in the refreshed list to ensure we have the latest data
-      const updatedBook = updatedBooks.find(b => b.id === savedBook.id) || savedBook;
-      
-      // Update the editing book state with the saved version to show updated URL immediately
-      // This ensures if the drawer reopens, it shows the converted URL
-      if (editingBook?.id === book.id) {
-        setEditingBook(updatedBook);
-      }
+      // Keep the current search and filters
+      applyBookChange({ type: 'upsert', book: savedBook });
       
       // Close the dialog after saving and prevent URL check from reopening it
       setJustSaved(true);
       setEditingBook(null);
       // Clear URL when closing
-      window.history.pushState({}, '', '/');
+      window.history.pushState({}, '', withViewParams('/'));
       // Reset viewport zoom on mobile after closing dialog
       if (window.visualViewport) {
         document.body.style.zoom = '1';
@@ -337,27 +643,66 @@ export function Library() {
 
   const handleDeleteBook = async (id: string) => {
     await deleteBook(id);
-    const updatedBooks = await getAllBooks();
-    setBooks(updatedBooks);
-    
-    if (searchQuery.trim()) {
-      await handleSearch(searchQuery);
-    } else {
-      setFilteredBooks(updatedBooks);
-    }
+    applyBookChange({ type: 'delete', id });
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900" style={{ paddingTop: 0, paddingBottom: '1rem' }}>
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8" style={{ paddingTop: `max(1rem, env(safe-area-inset-top))`, paddingLeft: 'env(safe-area-inset-left)', paddingRight: 'env(safe-area-inset-right)' }}>
         {/* Sticky Header with Search and Tags */}
-        <div className="sticky z-40 mb-4 sm:mb-6 glass-dark backdrop-blur-xl border border-white/20 rounded-2xl sm:rounded-3xl shadow-2xl transition-all duration-500 ease-in-out" style={{ top: `max(0.5rem, env(safe-area-inset-top))`, willChange: 'transform' }}>
+        <div ref={headerRef} className="sticky z-40 mb-4 sm:mb-6 glass-dark backdrop-blur-xl border border-white/20 rounded-2xl sm:rounded-3xl shadow-2xl transition-all duration-500 ease-in-out" style={{ top: `max(0.5rem, env(safe-area-inset-top))`, willChange: 'transform' }}>
           <div className={`px-4 sm:px-6 relative transition-all duration-500 ease-in-out ${isScrolled ? 'py-4 sm:py-6' : 'pt-3 sm:pt-4 pb-4 sm:pb-5'}`}>
             {/* Title - Hidden when scrolled */}
             <div className={`flex items-center justify-between transition-all duration-500 ease-in-out ${isScrolled ? 'opacity-0 max-h-0 overflow-hidden mb-0' : 'opacity-100 max-h-32 mb-3'}`}>
-              <h1 className="text-3xl sm:text-4xl lg:text-5xl font-modern text-white text-glow">
-                Moje knihovna
-              </h1>
+              {userEmail && libraries.length > 0 ? (
+                <LibrarySwitcher
+                  libraries={libraries}
+                  activeLibraryId={activeLibraryId}
+                  onSwitch={handleSwitchLibrary}
+                  onCreate={handleCreateLibrary}
+                  onInvite={handleInvite}
+                />
+              ) : (
+                <h1 className="text-3xl sm:text-4xl lg:text-5xl font-modern text-white text-glow">
+                  Moje knihovna
+                </h1>
+              )}
+              <div className="flex items-center gap-2 sm:gap-3 min-w-0">
+              <SyncIndicator status={syncStatus} />
+              {books.length > 0 && (
+                <button
+                  onClick={() => setShowExport(true)}
+                  className="w-10 h-10 sm:w-12 sm:h-12 flex items-center justify-center text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl sm:rounded-2xl transition-all duration-300 flex-shrink-0"
+                  title="Exportovat"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                </button>
+              )}
+              {onShowStats && (
+                <button
+                  onClick={onShowStats}
+                  className="w-10 h-10 sm:w-12 sm:h-12 flex items-center justify-center text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl sm:rounded-2xl transition-all duration-300 flex-shrink-0"
+                  title="Statistiky"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                  </svg>
+                </button>
+              )}
+              {userEmail && (
+                <button
+                  onClick={handleSignOut}
+                  className="w-10 h-10 sm:w-12 sm:h-12 flex items-center justify-center text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl sm:rounded-2xl transition-all duration-300 flex-shrink-0"
+                  title={`Odhlásit (${userEmail})`}
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+                  </svg>
+                </button>
+              )}
+              {!readOnly && (
               <button
                 onClick={() => setShowAddForm(!showAddForm)}
                 className="w-12 h-12 sm:w-14 sm:h-14 flex items-center justify-center bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-2xl hover:from-purple-500 hover:to-pink-500 transition-all duration-300 shadow-lg hover:shadow-purple-500/50 hover:scale-110 active:scale-95 glow-sm flex-shrink-0"
@@ -367,6 +712,8 @@ export function Library() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 4v16m8-8H4" />
                 </svg>
               </button>
+              )}
+              </div>
             </div>
             
             {/* Search Bar - Always visible */}
@@ -376,18 +723,42 @@ export function Library() {
             
             {/* Tags - Hidden when scrolled */}
             {!showAddForm && (
-              <div className={`transition-all duration-500 ease-in-out ${isScrolled ? 'opacity-0 max-h-0 overflow-hidden' : 'opacity-100 max-h-20 mt-4 sm:mt-5'}`}>
+              <div className={`transition-all duration-500 ease-in-out ${isScrolled ? 'opacity-0 max-h-0 overflow-hidden' : 'opacity-100 max-h-40 mt-4 sm:mt-5'}`}>
                 <TagFilter 
                   books={books} 
                   selectedTags={selectedTags}
                   onTagToggle={handleTagToggle}
                 />
+                <LocationFilter
+                  books={books}
+                  selectedLocations={selectedLocations}
+                  onLocationToggle={handleLocationToggle}
+                />
+                <LoanFilter
+                  books={books}
+                  selected={loanFilter}
+                  onSelect={handleLoanFilter}
+                />
+                <div className="flex items-start justify-between gap-2">
+                  <ReadingFilter
+                    books={books}
+                    selected={readingFilter}
+                    onSelect={handleReadingFilter}
+                  />
+                  <ViewSelect
+                    sort={sortKey}
+                    group={groupKey}
+                    searching={!!searchQuery.trim()}
+                    onSortChange={handleSortChange}
+                    onGroupChange={handleGroupChange}
+                  />
+                </div>
               </div>
             )}
           </div>
         </div>
 
-        {showAddForm && (
+        {showAddForm && !readOnly && (
           <div className="glass-dark rounded-2xl shadow-2xl p-4 sm:p-6 mb-6 relative border border-white/20 animate-in fade-in slide-in-from-top-4 duration-300">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-xl sm:text-2xl font-bold text-white">Přidat novou knihu</h2>
@@ -412,10 +783,47 @@ export function Library() {
                   updatedAt: new Date().toISOString(),
                 } as Book);
               }}
+              onBulkImport={() => setShowBulkImport(true)}
+              onCsvImport={() => setShowCsvImport(true)}
+              onContinuousScan={() => setShowContinuousScan(true)}
             />
           </div>
         )}
 
+        {showBulkImport && (
+          <BulkImport
+            existingBooks={books}
+            onImport={handleBulkImport}
+            onClose={() => setShowBulkImport(false)}
+          />
+        )}
+
+        {showCsvImport && (
+          <CsvImport
+            existingBooks={books}
+            onImport={handleCsvImport}
+            onClose={() => setShowCsvImport(false)}
+          />
+        )}
+
+        {showExport && (
+          <ExportDialog
+            allBooks={books}
+            // Every matching book, not only the pages loaded so far
+            filteredBooks={(searchQuery.trim() ? rankBooks(books, searchQuery) : sortBooks(books, sortKey))
+              .filter(book => matchesFilters(book, currentFilters()))}
+            onClose={() => setShowExport(false)}
+          />
+        )}
+
+        {showContinuousScan && (
+          <ContinuousScan
+            existingBooks={books}
+            onImport={handleBulkImport}
+            onClose={() => setShowContinuousScan(false)}
+          />
+        )}
+
         {filteredBooks.length === 0 ? (
           <div className="text-center pt-1 pb-12 sm:pt-12 sm:pb-20">
             <div className="glass-dark rounded-2xl sm:rounded-3xl p-3 sm:p-12 max-w-md mx-auto border border-white/20 flex flex-col justify-center min-h-[120px] sm:min-h-0">
@@ -427,9 +835,11 @@ export function Library() {
               <p className="text-gray-300 text-xs sm:text-lg mb-3 sm:mb-6 leading-tight flex sm:flex-1 items-center justify-center">
                 {searchQuery.trim() 
                   ? `Nebyly nalezeny žádné knihy odpovídající "${searchQuery.trim()}".` 
-                  : 'Vaše knihovna je prázdná. Přidejte svou první knihu výše!'}
+                  : readOnly
+                    ? 'Tato knihovna je zatím prázdná.'
+                    : 'Vaše knihovna je prázdná. Přidejte svou první knihu výše!'}
               </p>
-              {searchQuery.trim() && (
+              {searchQuery.trim() && !readOnly && (
                 <button
                   onClick={() => {
                     // Open manual addition dialog with prefilled data
@@ -454,18 +864,39 @@ export function Library() {
             </div>
           </div>
         ) : (
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-                {filteredBooks.map((book) => (
-                  <BookCard
-                    key={book.id}
-                    book={book}
-                    onEdit={handleEditBook}
-                    isImageExpanded={expandedImageBookId === book.id}
-                    onImageExpand={() => setExpandedImageBookId(book.id)}
-                    onImageClose={() => setExpandedImageBookId(null)}
-                  />
-                ))}
+          <div className="space-y-4 sm:space-y-6">
+            {groupBooks(filteredBooks, groupKey).map(group => (
+              <section key={group.key}>
+                {group.label && (
+                  <h2
+                    className="sticky z-30 mb-3 sm:mb-4 px-4 py-2 glass-dark backdrop-blur-xl border border-white/20 rounded-xl text-base sm:text-lg font-bold text-white flex items-baseline justify-between gap-2"
+                    style={{ top: `calc(max(0.5rem, env(safe-area-inset-top)) + ${headerHeight}px + 0.5rem)` }}
+                  >
+                    <span className="truncate">{group.label}</span>
+                    {/* Only the loaded books are counted; more of the group may come with the next pages */}
+                    <span
+                      className="text-xs sm:text-sm font-normal text-gray-400 flex-shrink-0"
+                      title={nextCursor ? 'Počet zatím načtených knih' : undefined}
+                    >
+                      {group.books.length}{nextCursor ? '+' : ''}
+                    </span>
+                  </h2>
+                )}
+                <VirtualBookGrid
+                  books={group.books}
+                  onEdit={handleEditBook}
+                  expandedImageBookId={expandedImageBookId}
+                  onImageExpand={setExpandedImageBookId}
+                  onImageClose={() => setExpandedImageBookId(null)}
+                />
+              </section>
+            ))}
+            {nextCursor && (
+              <div ref={sentinelRef} className="py-6 text-center text-sm text-gray-400">
+                {loadingMore ? 'Načítání...' : ''}
               </div>
+            )}
+          </div>
         )}
 
         {editingBook && (
@@ -475,7 +906,7 @@ export function Library() {
             onClose={() => {
               setEditingBook(null);
               // Clear URL when closing
-              window.history.pushState({}, '', '/');
+              window.history.pushState({}, '', withViewParams('/'));
               // Reset viewport zoom on mobile after closing dialog
               if (window.visualViewport) {
                 document.body.style.zoom = '1';
@@ -483,6 +914,7 @@ export function Library() {
             }}
             onSave={handleSaveBook}
             onDelete={handleDeleteBook}
+            readOnly={readOnly}
           />
         )}
 
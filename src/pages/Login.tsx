@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { sendMagicLink, signInWithPassword, signUpWithPassword } from '../lib/auth';
+
+type LoginMode = 'magic-link' | 'password';
+
+const inputClassName = 'w-full px-3 py-2 sm:px-4 sm:py-3 text-sm bg-white/5 border border-white/20 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-400/50 text-white placeholder-gray-400 transition-all';
+const primaryButtonClassName = 'w-full px-4 py-2.5 text-sm font-medium bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-xl hover:from-purple-500 hover:to-pink-500 transition-all duration-300 shadow-lg hover:shadow-purple-500/50 disabled:opacity-50 disabled:cursor-not-allowed';
+
+export function Login() {
+  const [mode, setMode] = useState<LoginMode>('magic-link');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Signing in changes the auth session, and App then shows the library
+  const run = async (action: () => Promise<void>) => {
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Sign-in failed:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    if (mode === 'magic-link') {
+      run(async () => {
+        await sendMagicLink(email.trim());
+        setMessage(`Odkaz pro přihlášení jsme poslali na ${email.trim()}. Otevřete ho na tomto zařízení.`);
+      });
+    } else {
+      run(() => signInWithPassword(email.trim(), password));
+    }
+  };
+
+  const handleSignUp = () => {
+    if (!email.trim() || password.length < 6) {
+      setError('Zadejte e-mail a heslo o délce alespoň 6 znaků.');
+      return;
+    }
+    run(async () => {
+      const signedIn = await signUpWithPassword(email.trim(), password);
+      if (!signedIn) {
+        setMessage(`Účet byl vytvořen. Potvrďte ho odkazem, který jsme poslali na ${email.trim()}.`);
+      }
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center p-4">
+      <div className="glass-dark rounded-2xl sm:rounded-3xl max-w-md w-full border border-white/20 shadow-2xl p-5 sm:p-8">
+        <h1 className="text-3xl sm:text-4xl font-modern text-white text-glow mb-2">Moje knihovna</h1>
+        <p className="text-xs sm:text-sm text-gray-400 mb-6">Přihlaste se ke své knihovně.</p>
+
+        <div className="flex gap-1 p-1 mb-5 bg-white/5 border border-white/10 rounded-xl">
+          {([['magic-link', 'Odkaz e-mailem'], ['password', 'Heslo']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => {
+                setMode(value);
+                setError(null);
+                setMessage(null);
+              }}
+              className={`flex-1 px-3 py-2 text-xs sm:text-sm font-medium rounded-lg transition-all ${mode === value ? 'bg-purple-600/60 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <input
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="E-mail"
+            className={inputClassName}
+            style={{ fontSize: '16px' }}
+            disabled={loading}
+            required
+          />
+          {mode === 'password' && (
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Heslo"
+              className={inputClassName}
+              style={{ fontSize: '16px' }}
+              disabled={loading}
+              required
+            />
+          )}
+
+          {error && <p className="text-xs sm:text-sm text-red-300">{error}</p>}
+          {message && <p className="text-xs sm:text-sm text-green-300">{message}</p>}
+
+          <button type="submit" disabled={loading || !email.trim()} className={primaryButtonClassName}>
+            {loading ? 'Přihlašování...' : mode === 'magic-link' ? 'Poslat odkaz' : 'Přihlásit se'}
+          </button>
+          {mode === 'password' && (
+            <button
+              type="button"
+              onClick={handleSignUp}
+              disabled={loading}
+              className="w-full px-4 py-2.5 text-sm font-medium border border-white/20 rounded-xl hover:bg-white/10 text-gray-300 hover:text-white transition-all duration-300 disabled:opacity-50"
+            >
+              Vytvořit účet
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState, useEffect } from 'react';
+import type { ReactNode } from 'react';
+import type { Book } from '../types';
+import { getAllBooks } from '../lib/storage';
+import { subscribeToSync } from '../lib/sync';
+import {
+  averageRating,
+  booksReadPerMonth,
+  booksReadPerYear,
+  collectionGrowth,
+  getFinishedBooks,
+  getReadingYears,
+  pagesRead,
+  ratingDistribution,
+  tagDistribution,
+  topAuthors,
+  topPublishers,
+} from '../lib/stats';
+import { BarList, ColumnChart, GrowthChart } from '../components/StatsCharts';
+
+interface StatsProps {
+  onBack: () => void;
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="glass-dark rounded-2xl border border-white/20 p-3 sm:p-5">
+      <p className="text-xs sm:text-sm text-gray-400">{label}</p>
+      <p className="text-2xl sm:text-3xl font-bold text-white mt-1">{value}</p>
+    </div>
+  );
+}
+
+function Section({ title, children, action }: { title: string; children: ReactNode; action?: ReactNode }) {
+  return (
+    <section className="glass-dark rounded-2xl sm:rounded-3xl border border-white/20 p-4 sm:p-6">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h2 className="text-base sm:text-lg font-bold text-white">{title}</h2>
+        {action}
+      </div>
+      {children}
+    </section>
+  );
+}
+
+function Empty({ children }: { children: ReactNode }) {
+  return <p className="text-sm text-gray-400">{children}</p>;
+}
+
+/**
+ * Reading statistics computed from the books in the active library
+ */
+export function Stats({ onBack }: StatsProps) {
+  const [books, setBooks] = useState<Book[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+
+  useEffect(() => {
+    const load = () => getAllBooks()
+      .then(setBooks)
+      .catch(error => console.error('Error loading books for statistics:', error))
+      .finally(() => setLoaded(true));
+    load();
+    // Reload when syncing brings changes from other devices
+    let revision = 0;
+    return subscribeToSync(status => {
+      if (status.revision !== revision) {
+        revision = status.revision;
+        load();
+      }
+    });
+  }, []);
+
+  const years = getReadingYears(books);
+  const year = selectedYear ?? years[0] ?? new Date().getFullYear();
+  const finished = getFinishedBooks(books);
+  const rating = averageRating(books);
+  const ratedCount = books.filter(book => book.rating).length;
+  const perYear = booksReadPerYear(books);
+  const authors = topAuthors(books);
+  const publishers = topPublishers(books);
+  const tags = tagDistribution(books, 15);
+  const growth = collectionGrowth(books);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 pb-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-4 sm:space-y-6" style={{ paddingTop: `max(1rem, env(safe-area-inset-top))`, paddingLeft: 'env(safe-area-inset-left)', paddingRight: 'env(safe-area-inset-right)' }}>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onBack}
+            className="w-10 h-10 sm:w-12 sm:h-12 flex items-center justify-center text-gray-300 hover:text-white bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl sm:rounded-2xl transition-all duration-300 flex-shrink-0"
+            title="Zpět do knihovny"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <h1 className="text-3xl sm:text-4xl lg:text-5xl font-modern text-white text-glow">Statistiky</h1>
+        </div>
+
+        {!loaded ? null : books.length === 0 ? (
+          <Empty>V knihovně zatím nejsou žádné knihy.</Empty>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+              <StatCard label="Knih v knihovně" value={books.length.toLocaleString('cs-CZ')} />
+              <StatCard label="Přečteno" value={finished.length.toLocaleString('cs-CZ')} />
+              <StatCard label="Přečtených stran" value={pagesRead(books).toLocaleString('cs-CZ')} />
+              <StatCard
+                label={`Průměrné hodnocení${ratedCount > 0 ? ` (z ${ratedCount})` : ''}`}
+                value={rating !== undefined ? `${rating.toLocaleString('cs-CZ', { maximumFractionDigits: 1 })} ★` : '–'}
+              />
+            </div>
+
+            <div className="grid lg:grid-cols-2 gap-4 sm:gap-6">
+              <Section title="Přečteno podle let">
+                {perYear.length > 0 ? <ColumnChart points={perYear} /> : <Empty>Zatím žádná kniha nemá datum dočtení.</Empty>}
+              </Section>
+
+              <Section
+                title={`Přečteno v roce ${year}`}
+                action={years.length > 1 && (
+                  <select
+                    value={year}
+                    onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+                    className="px-2 py-1 text-sm bg-white/5 border border-white/20 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                  >
+                    {years.map(y => <option key={y} value={y} className="bg-slate-800">{y}</option>)}
+                  </select>
+                )}
+              >
+                <ColumnChart points={booksReadPerMonth(books, year)} />
+                <p className="text-xs text-gray-400 mt-3">Stran v dočtených knihách: {pagesRead(books, year).toLocaleString('cs-CZ')}</p>
+              </Section>
+
+              <Section title="Nejčastější autoři">
+                {authors.length > 0 ? <BarList points={authors} /> : <Empty>U knih nejsou uvedení autoři.</Empty>}
+              </Section>
+
+              <Section title="Nejčastější nakladatelé">
+                {publishers.length > 0 ? <BarList points={publishers} /> : <Empty>U knih nejsou uvedení nakladatelé.</Empty>}
+              </Section>
+
+              <Section title="Tagy">
+                {tags.length > 0 ? <BarList points={tags} /> : <Empty>Knihy zatím nemají tagy.</Empty>}
+              </Section>
+
+              <Section title="Hodnocení">
+                {ratedCount > 0 ? <BarList points={ratingDistribution(books).reverse()} /> : <Empty>Zatím žádná kniha není ohodnocená.</Empty>}
+              </Section>
+            </div>
+
+            <Section title="Růst knihovny">
+              <GrowthChart points={growth} />
+            </Section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,132 @@
+/**
+ * Kind of 13-digit identifier stored in `isbn13`: a book ISBN (978/979-1x/979-8)
+ * or an ISMN for printed music (979-0)
+ */
+export type IdentifierType = 'isbn' | 'ismn';
+
+/**
+ * Fields of BookMetadata a metadata provider can fill in (the identifiers come from the ISBN itself)
+ */
+export type MetadataField =
+  | 'title'
+  | 'authors'
+  | 'publisher'
+  | 'publishedYear'
+  | 'edition'
+  | 'language'
+  | 'subjects'
+  | 'statementOfResponsibility'
+  | 'description'
+  | 'coverUrl';
+
+/**
+ * Where a field value came from
+ */
+export interface FieldProvenance {
+  providerId: string;
+  providerName: string;
+  // ISO timestamp of the lookup
+  fetchedAt: string;
+}
+
+export type BookProvenance = Partial<Record<MetadataField, FieldProvenance>>;
+
+/**
+ * One provider's value for a field, offered when sources disagree
+ */
+export interface MetadataCandidate<T> extends FieldProvenance {
+  value: T;
+}
+
+export type MetadataCandidates = {
+  [K in MetadataField]?: MetadataCandidate<NonNullable<BookMetadata[K]>>[];
+};
+
+/**
+ * What a member may do in a shared library: owners also invite others, viewers only browse
+ */
+export type LibraryRole = 'owner' | 'editor' | 'viewer';
+
+/**
+ * A library (book collection) the signed-in user is a member of
+ */
+export interface LibrarySummary {
+  id: string;
+  name: string;
+  role: LibraryRole;
+}
+
+/**
+ * State of a physical copy, from unread to falling apart
+ */
+export type CopyCondition = 'new' | 'like-new' | 'good' | 'worn' | 'damaged';
+
+/**
+ * One physical copy of a book (we may own several, kept in different rooms)
+ */
+export interface BookCopy {
+  id: string;
+  room?: string;
+  bookcase?: string;
+  shelf?: string;
+  condition?: CopyCondition;
+  // ISO date (YYYY-MM-DD)
+  acquiredAt?: string;
+  // Price paid, in CZK
+  price?: number;
+  notes?: string;
+}
+
+/**
+ * A book lent to someone; kept after it's returned as lending history
+ */
+export interface Loan {
+  id: string;
+  borrower: string;
+  // ISO dates (YYYY-MM-DD)
+  lentAt: string;
+  dueAt?: string;
+  returnedAt?: string;
+}
+
+export type ReadingStatus = 'to-read' | 'reading' | 'read' | 'abandoned';
+
 export interface Book {
   id: string;
+  // Library the book belongs to; unset when Supabase isn't configured
+  libraryId?: string;
   isbn13: string;
   isbn10?: string;
+  identifierType?: IdentifierType;
   title: string;
   authors?: string[];
   publisher?: string;
   publishedYear?: number;
+  edition?: string;
+  // MARC language code, e.g. 'cze'
+  language?: string;
+  subjects?: string[];
+  // Statement of responsibility as printed on the title page (MARC 245 $c)
+  statementOfResponsibility?: string;
   description?: string;
   coverUrl?: string;
   imageUrl?: string;
   tags?: string[];
+  copies?: BookCopy[];
+  // Lending history, oldest first; the loan without returnedAt is the current one
+  loans?: Loan[];
+  readingStatus?: ReadingStatus;
+  // ISO dates (YYYY-MM-DD)
+  startedAt?: string;
+  finishedAt?: string;
+  currentPage?: number;
+  pageCount?: number;
+  // 1–5 stars
+  rating?: number;
+  // Own notes on the book; not shown on the card
+  review?: string;
+  // Which provider supplied each looked-up field, stored in source_payload
+  provenance?: BookProvenance;
   createdAt: string;
   updatedAt: string;
 }
@@ -17,11 +134,19 @@ export interface Book {
 export interface BookMetadata {
   isbn13: string;
   isbn10?: string;
+  identifierType?: IdentifierType;
   title: string;
   authors?: string[];
   publisher?: string;
   publishedYear?: number;
+  edition?: string;
+  language?: string;
+  subjects?: string[];
+  statementOfResponsibility?: string;
   description?: string;
   coverUrl?: string;
+  provenance?: BookProvenance;
+  // Every distinct value each provider returned; not stored with the book
+  candidates?: MetadataCandidates;
 }
 
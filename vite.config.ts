@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -8,4 +9,8 @@ export default defineConfig({
     host: true, // Allow external connections
     port: 5173,
   },
+  test: {
+    // The MARC parser uses DOMParser
+    environment: 'jsdom',
+  },
 })